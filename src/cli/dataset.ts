@@ -0,0 +1,105 @@
+/**
+ * Dataset CLI
+ * Export the synced dataset from this environment's snapshot store, or import an export into it.
+ *
+ *   npm run dataset -- export [--format ndjson|tar] [--out <file>] [--anonymize] [--fetch-media]
+ *   npm run dataset -- import <file>
+ */
+
+import '../loadEnv';
+import fs from 'fs';
+import { config } from '../config';
+import { RentmanApiClient } from '../client/RentmanApiClient';
+import { PropertySyncService } from '../services/propertySyncService';
+import {
+  exportDataset,
+  importDataset,
+  parseDataset,
+  serializeDataset
+} from '../services/datasetTransfer';
+import { snapshotStore } from '../utils/snapshotStore';
+import { redisCache } from '../utils/redisCache';
+import { DatasetFormat } from '../types';
+
+const USAGE = `Usage:
+  dataset export [--format ndjson|tar] [--out <file>] [--anonymize] [--fetch-media]
+  dataset import <file>`;
+
+function createClient(): RentmanApiClient {
+  return new RentmanApiClient({
+    token: config.rentman.token,
+    baseURL: config.rentman.baseUrl,
+    timeout: config.rentman.timeout,
+    retries: config.rentman.retries
+  });
+}
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+async function runExport(args: string[]): Promise<void> {
+  const format: DatasetFormat = getOption(args, '--format') === 'tar' ? 'tar' : 'ndjson';
+  const fetchMedia = args.includes('--fetch-media');
+
+  if (fetchMedia && !config.rentman.token) {
+    throw new Error('--fetch-media needs RENTMAN_TOKEN');
+  }
+
+  const bundle = await exportDataset({
+    anonymize: args.includes('--anonymize'),
+    fetchMedia,
+    client: fetchMedia ? createClient() : undefined
+  });
+
+  const stamp = bundle.manifest.exportedAt.replace(/[:.]/g, '-');
+  const out = getOption(args, '--out') || (format === 'tar' ? `dataset-${stamp}.tar.gz` : `dataset-${stamp}.ndjson`);
+
+  fs.writeFileSync(out, await serializeDataset(bundle, format));
+  console.log(`✅ Exported ${bundle.manifest.counts.properties} properties and ${bundle.manifest.counts.media} media records to ${out}`);
+}
+
+async function runImport(args: string[]): Promise<void> {
+  const file = args[0];
+  if (!file) {
+    throw new Error(USAGE);
+  }
+
+  const bundle = await parseDataset(fs.readFileSync(file));
+
+  // Import never calls Rentman, so no token is needed
+  const run = await importDataset(bundle, new PropertySyncService(createClient()));
+  if (run.status !== 'success') {
+    throw new Error(`Import ${run.status}: ${run.error}`);
+  }
+
+  console.log(`✅ Imported ${bundle.properties.length} properties and ${bundle.media.length} media records from ${file}`);
+}
+
+async function main(): Promise<void> {
+  const [command, ...args] = process.argv.slice(2);
+  const commands: Record<string, (args: string[]) => Promise<void>> = {
+    export: runExport,
+    import: runImport
+  };
+
+  if (!commands[command]) {
+    console.log(USAGE);
+    process.exit(1);
+  }
+
+  await snapshotStore.connect();
+  try {
+    await commands[command](args);
+  } finally {
+    if (config.snapshotStore.type === 'redis') {
+      await redisCache.disconnect();
+    }
+  }
+}
+
+main().catch(error => {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+});
@@ -23,10 +23,25 @@ export interface AppConfig {
     retries: number;
   };
   images: {
+    provider: 'cloudinary' | 'local';
+    customTransformations: boolean;
+    deliveryFormats: ('avif' | 'webp')[];
+    delivery: 'redirect' | 'proxy';
     cdnUrl?: string;
     cacheDir: string;
     maxFileSize: number;
     allowedFormats: string[];
+    watermark: {
+      image: string;
+      opacity: number;
+      minWidth: number;
+    };
+    statusBanners: boolean;
+    cleanup: {
+      enabled: boolean;
+      interval: string;
+      gracePeriod: number;
+    };
     quality: {
       thumb: number;
       medium: number;
@@ -48,6 +63,27 @@ export interface AppConfig {
     enabled: boolean;
     interval: string;
     onStartup: boolean;
+    historyLimit: number;
+    staleAfter: number;
+    retryBaseDelay: number;
+    retryMaxDelay: number;
+    warmImages: boolean;
+    refreshMedia: boolean;
+  };
+  snapshotStore: {
+    type: 'redis' | 'file';
+    dir: string;
+  };
+  jobs: {
+    backend: 'redis' | 'memory';
+    concurrency: number;
+    pollInterval: number;
+    maxAttempts: number;
+    retryBaseDelay: number;
+    retryMaxDelay: number;
+  };
+  admin: {
+    apiKey: string;
   };
   cloudinary: {
     cloudName: string;
@@ -79,10 +115,36 @@ const config: AppConfig = {
     retries: parseInt(process.env.RENTMAN_RETRIES || '3', 10)
   },
   images: {
-    cdnUrl: process.env.IMAGE_CDN_URL,
+    // Cloudinary when credentials are configured, otherwise resize locally with sharp
+    provider: (process.env.IMAGE_PROVIDER || (process.env.CLOUDINARY_CLOUD_NAME ? 'cloudinary' : 'local')) as 'cloudinary' | 'local',
+    // When false only the named presets are served (no w/h/fit/... query parameters)
+    customTransformations: process.env.IMAGE_CUSTOM_TRANSFORMS !== 'false',
+    // Modern formats offered to clients that accept them, in order of preference (JPEG otherwise)
+    deliveryFormats: (process.env.IMAGE_DELIVERY_FORMATS || 'avif,webp')
+      .split(',')
+      .map(format => format.trim())
+      .filter(Boolean) as ('avif' | 'webp')[],
+    // proxy streams images from the provider through this server, so they are served from our own domain
+    delivery: (process.env.IMAGE_DELIVERY || 'redirect') as 'redirect' | 'proxy',
+    // Custom domain replacing the provider's origin in redirects and image URLs (e.g. a CNAME to Cloudinary)
+    cdnUrl: process.env.IMAGE_CDN_URL || undefined,
     cacheDir: process.env.IMAGE_CACHE_DIR || './public/images',
     maxFileSize: parseInt(process.env.IMAGE_MAX_FILE_SIZE || '10485760', 10), // 10MB
     allowedFormats: ['jpg', 'jpeg', 'png', 'webp', 'gif'],
+    watermark: {
+      // Cloudinary public id of the logo, or a PNG file for the local provider - no watermark when empty
+      image: process.env.IMAGE_WATERMARK || '',
+      opacity: parseInt(process.env.IMAGE_WATERMARK_OPACITY || '60', 10), // Percent
+      minWidth: parseInt(process.env.IMAGE_WATERMARK_MIN_WIDTH || '600', 10) // Narrower images (thumbnails) are left alone
+    },
+    // "Under Offer", "Let Agreed" and "Sold" banners on the main photo of listings with that status
+    statusBanners: process.env.IMAGE_STATUS_BANNERS === 'true',
+    cleanup: {
+      // Opt-in: deleting images is irreversible
+      enabled: process.env.IMAGE_CLEANUP_ENABLED === 'true',
+      interval: process.env.IMAGE_CLEANUP_INTERVAL || '30 3 * * *', // Daily at 03:30
+      gracePeriod: parseInt(process.env.IMAGE_CLEANUP_GRACE_PERIOD || '604800', 10) // Seconds an image stays unused before deletion (7 days)
+    },
     quality: {
       thumb: parseInt(process.env.IMAGE_QUALITY_THUMB || '80', 10),
       medium: parseInt(process.env.IMAGE_QUALITY_MEDIUM || '85', 10),
@@ -103,7 +165,30 @@ const config: AppConfig = {
   sync: {
     enabled: process.env.SYNC_ENABLED === 'true',
     interval: process.env.SYNC_INTERVAL || '0 * * * *', // Every hour at :00
-    onStartup: process.env.SYNC_ON_STARTUP !== 'false' // Default true
+    onStartup: process.env.SYNC_ON_STARTUP !== 'false', // Default true
+    historyLimit: parseInt(process.env.SYNC_HISTORY_LIMIT || '50', 10), // Sync runs kept in the run log
+    staleAfter: parseInt(process.env.SYNC_STALE_AFTER || '7200', 10), // Seconds before synced data is reported stale
+    retryBaseDelay: parseInt(process.env.SYNC_RETRY_BASE_MS || '30000', 10), // First retry after a failed sync
+    retryMaxDelay: parseInt(process.env.SYNC_RETRY_MAX_MS || '900000', 10), // Backoff cap (15 minutes)
+    warmImages: process.env.SYNC_WARM_IMAGES !== 'false', // Upload new listing images before they are browsed
+    refreshMedia: process.env.SYNC_REFRESH_MEDIA !== 'false' // Cache media captions and order of new and changed listings
+  },
+  snapshotStore: {
+    // Defaults to Redis when enabled, otherwise a local file snapshot
+    type: (process.env.SNAPSHOT_STORE || (process.env.REDIS_ENABLED === 'true' ? 'redis' : 'file')) as 'redis' | 'file',
+    dir: process.env.SNAPSHOT_DIR || './data/snapshot'
+  },
+  jobs: {
+    // Redis lets every instance share the queue, memory only processes jobs enqueued by this instance
+    backend: (process.env.JOBS_BACKEND || (process.env.REDIS_ENABLED === 'true' ? 'redis' : 'memory')) as 'redis' | 'memory',
+    concurrency: parseInt(process.env.JOBS_CONCURRENCY || '4', 10), // Jobs processed at once per instance
+    pollInterval: parseInt(process.env.JOBS_POLL_INTERVAL_MS || '1000', 10),
+    maxAttempts: parseInt(process.env.JOBS_MAX_ATTEMPTS || '5', 10), // Before a job goes to the dead-letter list
+    retryBaseDelay: parseInt(process.env.JOBS_RETRY_BASE_MS || '5000', 10), // Doubles per attempt
+    retryMaxDelay: parseInt(process.env.JOBS_RETRY_MAX_MS || '300000', 10)
+  },
+  admin: {
+    apiKey: process.env.ADMIN_API_KEY || '' // Admin API is disabled without a key
   },
   cloudinary: {
     cloudName: process.env.CLOUDINARY_CLOUD_NAME || '',
@@ -142,16 +227,55 @@ export function validateConfig(): void {
     errors.push('RENTMAN_RETRIES must be between 0 and 10');
   }
 
-  if (!config.cloudinary.cloudName) {
-    errors.push('CLOUDINARY_CLOUD_NAME is required');
+  if (!['redis', 'file'].includes(config.snapshotStore.type)) {
+    errors.push('SNAPSHOT_STORE must be "redis" or "file"');
+  }
+
+  if (config.snapshotStore.type === 'redis' && !config.redis.enabled) {
+    errors.push('SNAPSHOT_STORE=redis requires REDIS_ENABLED=true');
+  }
+
+  if (!['redis', 'memory'].includes(config.jobs.backend)) {
+    errors.push('JOBS_BACKEND must be "redis" or "memory"');
+  }
+
+  if (config.jobs.backend === 'redis' && !config.redis.enabled) {
+    errors.push('JOBS_BACKEND=redis requires REDIS_ENABLED=true');
+  }
+
+  if (!['cloudinary', 'local'].includes(config.images.provider)) {
+    errors.push('IMAGE_PROVIDER must be "cloudinary" or "local"');
+  }
+
+  if (config.images.deliveryFormats.some(format => !['avif', 'webp'].includes(format))) {
+    errors.push('IMAGE_DELIVERY_FORMATS may only contain "avif" and "webp"');
+  }
+
+  if (!['redirect', 'proxy'].includes(config.images.delivery)) {
+    errors.push('IMAGE_DELIVERY must be "redirect" or "proxy"');
   }
 
-  if (!config.cloudinary.apiKey) {
-    errors.push('CLOUDINARY_API_KEY is required');
+  if (config.images.cdnUrl && !/^https?:\/\/[^/]+/.test(config.images.cdnUrl)) {
+    errors.push('IMAGE_CDN_URL must be an absolute http(s) URL');
   }
 
-  if (!config.cloudinary.apiSecret) {
-    errors.push('CLOUDINARY_API_SECRET is required');
+  if (!(config.images.watermark.opacity >= 1 && config.images.watermark.opacity <= 100)) {
+    errors.push('IMAGE_WATERMARK_OPACITY must be between 1 and 100');
+  }
+
+  // Cloudinary credentials are only needed when images are stored there
+  if (config.images.provider === 'cloudinary') {
+    if (!config.cloudinary.cloudName) {
+      errors.push('CLOUDINARY_CLOUD_NAME is required');
+    }
+
+    if (!config.cloudinary.apiKey) {
+      errors.push('CLOUDINARY_API_KEY is required');
+    }
+
+    if (!config.cloudinary.apiSecret) {
+      errors.push('CLOUDINARY_API_SECRET is required');
+    }
   }
 
   if (errors.length > 0) {
@@ -0,0 +1,184 @@
+/**
+ * Cloudinary Storage Provider
+ * Stores originals on Cloudinary - sizes are on-the-fly transformations delivered from its CDN
+ */
+
+import axios from 'axios';
+import { config } from '../config';
+import { ImageAsset, ImageAssetPage, ImageFit, ImageTransformation } from '../types';
+import { CloudinaryService, CloudinaryTransformation, cloudinaryService } from '../utils/cloudinaryService';
+import { LocalImageFile, PLACEHOLDER_WIDTH, StorageProvider } from './storageProvider';
+import {
+  BANNER_COLOR,
+  BANNER_SCALE,
+  BANNER_TEXT_COLOR,
+  OVERLAY_MARGIN,
+  WATERMARK_SCALE,
+  bannerLabel
+} from './overlays';
+
+// crop means "crop to exactly this box", which is Cloudinary's fill
+const CLOUDINARY_CROP: Record<ImageFit, string> = {
+  crop: 'fill',
+  fill: 'fill',
+  fit: 'fit',
+  limit: 'limit',
+  scale: 'scale',
+  pad: 'pad'
+};
+
+/**
+ * Map a provider-neutral transformation onto Cloudinary transformation parameters
+ */
+export function toCloudinaryTransformation(transformation: ImageTransformation): CloudinaryTransformation {
+  return {
+    width: transformation.width,
+    height: transformation.height,
+    crop: transformation.fit ? CLOUDINARY_CROP[transformation.fit] : undefined,
+    gravity: transformation.gravity,
+    quality: transformation.quality,
+    dpr: transformation.dpr,
+    fetch_format: transformation.format
+  };
+}
+
+/**
+ * Overlay layers chained after the resize - sized and placed relative to the resized image
+ */
+export function toCloudinaryOverlays(transformation: ImageTransformation): CloudinaryTransformation[] {
+  const layers: CloudinaryTransformation[] = [];
+
+  if (transformation.banner) {
+    layers.push({
+      overlay: { font_family: 'Arial', font_size: 64, font_weight: 'bold', text: bannerLabel(transformation.banner) },
+      color: BANNER_TEXT_COLOR,
+      background: BANNER_COLOR,
+      height: BANNER_SCALE,
+      flags: 'relative',
+      gravity: 'north_west',
+      x: OVERLAY_MARGIN,
+      y: OVERLAY_MARGIN
+    });
+  }
+
+  if (transformation.watermark && config.images.watermark.image) {
+    layers.push({
+      overlay: config.images.watermark.image.replace(/\//g, ':'),
+      width: WATERMARK_SCALE,
+      flags: 'relative',
+      opacity: config.images.watermark.opacity,
+      gravity: 'south_east',
+      x: OVERLAY_MARGIN,
+      y: OVERLAY_MARGIN
+    });
+  }
+
+  return layers;
+}
+
+export class CloudinaryStorageProvider implements StorageProvider {
+  readonly name = 'cloudinary' as const;
+
+  constructor(private cloudinary: CloudinaryService = cloudinaryService) {}
+
+  /**
+   * Admin API lookup - strict quota, so only called when the registry has no entry
+   */
+  async find(filename: string): Promise<ImageAsset | null> {
+    const baseName = filename.replace(/\.[^/.]+$/, '');
+    // Ensure publicId doesn't include version prefix
+    const publicId = `${config.cloudinary.folder}/${baseName}`.replace(/^v\d+\//, '');
+
+    let resource: Record<string, unknown>;
+    try {
+      resource = await this.cloudinary.getImageInfo(publicId);
+    } catch {
+      return null;
+    }
+
+    return this.toAsset(filename, resource);
+  }
+
+  /**
+   * Admin API listing of the folder - public ids have no extension, so filenames get the stored format's
+   */
+  async list(cursor: string | null = null): Promise<ImageAssetPage> {
+    const page = await this.cloudinary.listImages(cursor || undefined);
+
+    return {
+      assets: page.resources.map((resource: Record<string, unknown>) => {
+        const baseName = String(resource.public_id).split('/').pop();
+        const extension = typeof resource.format === 'string' ? `.${resource.format}` : '';
+        return this.toAsset(`${baseName}${extension}`, resource);
+      }),
+      nextCursor: page.next_cursor || null
+    };
+  }
+
+  async upload(filename: string, base64data: string): Promise<ImageAsset> {
+    const upload = await this.cloudinary.uploadBase64Image(base64data, filename);
+
+    return {
+      filename,
+      provider: this.name,
+      publicId: upload.public_id,
+      version: upload.version,
+      width: upload.width ?? null,
+      height: upload.height ?? null,
+      bytes: upload.bytes ?? null,
+      format: upload.format ?? null,
+      uploadedAt: new Date().toISOString()
+    };
+  }
+
+  url(asset: ImageAsset, transformation: ImageTransformation): string {
+    const resize: ImageTransformation = { ...transformation };
+    delete resize.watermark;
+    delete resize.banner;
+
+    // The untouched original is still delivered with automatic quality, as it always was
+    const isOriginal = Object.keys(resize).length === 0;
+    const base = isOriginal ? { quality: 'auto' as const } : toCloudinaryTransformation(resize);
+    const overlays = toCloudinaryOverlays(transformation);
+
+    return this.cloudinary.generateUrl(asset.publicId, overlays.length > 0 ? [base, ...overlays] : base, asset.version);
+  }
+
+  /**
+   * Fetch a tiny JPEG rendition from the CDN (a derived image, not an Admin API call)
+   */
+  async placeholder(asset: ImageAsset): Promise<string> {
+    const url = this.cloudinary.generateUrl(
+      asset.publicId,
+      { width: PLACEHOLDER_WIDTH, crop: 'scale', quality: 50, fetch_format: 'jpg' },
+      asset.version
+    );
+
+    const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: 10000 });
+    return `data:image/jpeg;base64,${Buffer.from(response.data).toString('base64')}`;
+  }
+
+  async file(): Promise<LocalImageFile> {
+    throw new Error('Cloudinary images are delivered from their URL');
+  }
+
+  async delete(asset: ImageAsset): Promise<boolean> {
+    return this.cloudinary.deleteImage(asset.publicId);
+  }
+
+  private toAsset(filename: string, resource: Record<string, unknown>): ImageAsset {
+    const numberOrNull = (value: unknown) => (typeof value === 'number' ? value : null);
+
+    return {
+      filename,
+      provider: this.name,
+      publicId: String(resource.public_id),
+      version: String(resource.version ?? ''),
+      width: numberOrNull(resource.width),
+      height: numberOrNull(resource.height),
+      bytes: numberOrNull(resource.bytes),
+      format: typeof resource.format === 'string' ? resource.format : null,
+      uploadedAt: typeof resource.created_at === 'string' ? resource.created_at : new Date().toISOString()
+    };
+  }
+}
@@ -0,0 +1,68 @@
+/**
+ * Image Delivery
+ * Custom CDN domains for provider URLs, and streaming from the provider's origin when images are proxied
+ */
+
+import axios from 'axios';
+import { Readable } from 'stream';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { ImageDeliveryMode } from '../types';
+
+export interface ImageDeliveryOptions {
+  mode: ImageDeliveryMode;
+  /** Base URL replacing the provider's origin, e.g. https://images.example.com */
+  cdnUrl?: string;
+}
+
+export interface OriginImage {
+  stream: Readable;
+  contentType: string;
+  contentLength: number | null;
+}
+
+// Proxied requests wait this long for the origin
+const ORIGIN_TIMEOUT_MS = 15000;
+
+/**
+ * Serve a provider URL from the CDN domain - the path and query are kept, so the CDN must forward them to the origin
+ */
+export function rewriteCdnUrl(url: string, cdnUrl?: string): string {
+  if (!cdnUrl) {
+    return url;
+  }
+
+  const { pathname, search } = new URL(url);
+  return `${cdnUrl.replace(/\/+$/, '')}${pathname}${search}`;
+}
+
+/**
+ * Open an image on the provider's origin - throws IMAGE_NOT_FOUND when the origin has no such image
+ * and BAD_GATEWAY when it fails or answers with something that is not an image
+ */
+export async function fetchOriginImage(url: string): Promise<OriginImage> {
+  let response;
+  try {
+    response = await axios.get<Readable>(url, {
+      responseType: 'stream',
+      timeout: ORIGIN_TIMEOUT_MS,
+      validateStatus: () => true
+    });
+  } catch (error) {
+    throw ErrorTypes.BAD_GATEWAY(`Image origin unreachable: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const contentType = String(response.headers['content-type'] || '');
+
+  if (response.status !== 200 || !contentType.startsWith('image/')) {
+    response.data.destroy();
+    throw response.status === 404
+      ? ErrorTypes.IMAGE_NOT_FOUND('Image not found on its origin')
+      : ErrorTypes.BAD_GATEWAY(`Image origin responded with ${response.status} (${contentType || 'no content type'})`);
+  }
+
+  return {
+    stream: response.data,
+    contentType,
+    contentLength: Number(response.headers['content-length']) || null
+  };
+}
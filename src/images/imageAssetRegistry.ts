@@ -0,0 +1,63 @@
+/**
+ * Image Asset Registry
+ * Persistent Rentman filename → stored image mapping in the snapshot store (Redis or file),
+ * consulted before any storage provider call and shared between instances and restarts
+ */
+
+import { ImageAsset } from '../types';
+import { RedisCacheKeys } from '../utils/redisCache';
+import { snapshotStore } from '../utils/snapshotStore';
+
+// Listing pages can reference thousands of photos, read them without opening thousands of files at once
+const REGISTRY_BATCH_SIZE = 100;
+
+export class ImageAssetRegistry {
+  /**
+   * Registered asset for a filename - null when unknown or the store is unavailable
+   */
+  async get(filename: string): Promise<ImageAsset | null> {
+    if (!snapshotStore.isReady()) {
+      return null;
+    }
+
+    return snapshotStore.get<ImageAsset>(RedisCacheKeys.imageAsset(filename));
+  }
+
+  /**
+   * Registered assets of several filenames, read in batches - unknown filenames are left out
+   */
+  async getMany(filenames: string[]): Promise<Map<string, ImageAsset>> {
+    const assets = new Map<string, ImageAsset>();
+    if (!snapshotStore.isReady()) {
+      return assets;
+    }
+
+    const unique = [...new Set(filenames)];
+    for (let i = 0; i < unique.length; i += REGISTRY_BATCH_SIZE) {
+      const batch = unique.slice(i, i + REGISTRY_BATCH_SIZE);
+      const found = await Promise.all(batch.map(filename => this.get(filename)));
+
+      found.forEach((asset, index) => {
+        if (asset) {
+          assets.set(batch[index], asset);
+        }
+      });
+    }
+    return assets;
+  }
+
+  async register(asset: ImageAsset): Promise<ImageAsset> {
+    if (snapshotStore.isReady()) {
+      await snapshotStore.set(RedisCacheKeys.imageAsset(asset.filename), asset);
+    }
+    return asset;
+  }
+
+  async remove(filename: string): Promise<void> {
+    if (snapshotStore.isReady()) {
+      await snapshotStore.delete(RedisCacheKeys.imageAsset(filename));
+    }
+  }
+}
+
+export const imageAssetRegistry = new ImageAssetRegistry();
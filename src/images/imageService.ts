@@ -0,0 +1,134 @@
+/**
+ * Image Service
+ * Resolves Rentman images through the asset registry and the configured storage provider
+ */
+
+import { config } from '../config';
+import {
+  ImageAsset,
+  ImageAssetPage,
+  ImageDelivery,
+  ImageOrigin,
+  ImageSizeName,
+  ImageTransformation
+} from '../types';
+import { ImageAssetRegistry } from './imageAssetRegistry';
+import { IMAGE_SIZE_NAMES, StorageProvider } from './storageProvider';
+import { presetTransformation } from './transformations';
+import { withWatermark } from './overlays';
+import { ImageDeliveryOptions, rewriteCdnUrl } from './delivery';
+import { logger } from '../utils/logger';
+
+export class ImageService {
+  constructor(
+    private provider: StorageProvider,
+    private registry: ImageAssetRegistry,
+    private delivery: ImageDeliveryOptions = { mode: config.images.delivery, cdnUrl: config.images.cdnUrl }
+  ) {}
+
+  get providerName(): StorageProvider['name'] {
+    return this.provider.name;
+  }
+
+  /**
+   * Stored asset for a filename - from the registry, or found in storage and registered.
+   * Null when the image has not been stored yet.
+   */
+  async resolve(filename: string): Promise<ImageAsset | null> {
+    const registered = await this.registry.get(filename);
+
+    // Entries of another provider are left over from before a switch
+    if (registered && registered.provider === this.provider.name) {
+      // Entries stored before placeholders existed get one in the background, off the request path
+      if (registered.placeholder === undefined) {
+        this.withPlaceholder(registered).then(asset => this.registry.register(asset)).catch(() => undefined);
+      }
+      return registered;
+    }
+
+    // Uploads are registered by store(), so an unregistered image in storage was fetched from Rentman
+    const found = await this.provider.find(filename);
+    return found ? this.registry.register({ ...await this.withPlaceholder(found), origin: 'rentman' }) : null;
+  }
+
+  /**
+   * Store an original image and register it with its placeholder and origin
+   */
+  async store(filename: string, base64data: string, origin: ImageOrigin): Promise<ImageAsset> {
+    const asset = await this.provider.upload(filename, base64data);
+    return this.registry.register({ ...await this.withPlaceholder(asset), origin });
+  }
+
+  /**
+   * Registered assets of several images, keyed by filename - images not stored yet are left out
+   */
+  async assets(filenames: string[]): Promise<Map<string, ImageAsset>> {
+    const assets = await this.registry.getMany(filenames);
+
+    for (const [filename, asset] of assets) {
+      if (asset.provider !== this.provider.name) {
+        assets.delete(filename);
+      }
+    }
+    return assets;
+  }
+
+  /**
+   * A page of the images in storage, with the registry's details for those registered
+   */
+  async list(cursor: string | null = null): Promise<ImageAssetPage> {
+    const page = await this.provider.list(cursor);
+    const registered = await this.assets(page.assets.map(asset => asset.filename));
+
+    return { ...page, assets: page.assets.map(asset => registered.get(asset.filename) || asset) };
+  }
+
+  /**
+   * Redirect to the provider URL (on the CDN domain when configured), proxy it from the origin,
+   * or serve a local file for providers without URLs
+   */
+  async deliver(asset: ImageAsset, transformation: ImageTransformation): Promise<ImageDelivery> {
+    const url = this.provider.url(asset, transformation);
+    if (url) {
+      return this.delivery.mode === 'proxy'
+        ? { type: 'proxy', url }
+        : { type: 'redirect', url: rewriteCdnUrl(url, this.delivery.cdnUrl) };
+    }
+
+    return { type: 'file', ...await this.provider.file(asset, transformation) };
+  }
+
+  /**
+   * Public URL of every size - the provider's own (on the CDN domain when configured), or the image route
+   * for locally served and proxied files
+   */
+  urls(asset: ImageAsset): Record<ImageSizeName, string> {
+    return Object.fromEntries(IMAGE_SIZE_NAMES.map(size => {
+      const url = this.delivery.mode === 'proxy' ? null : this.provider.url(asset, withWatermark(presetTransformation(size)));
+      return [
+        size,
+        url ? rewriteCdnUrl(url, this.delivery.cdnUrl) : `/api/images/${encodeURIComponent(asset.filename)}?size=${size}`
+      ];
+    })) as Record<ImageSizeName, string>;
+  }
+
+  /**
+   * Asset with its placeholder - null when it could not be generated, which never fails a store
+   */
+  private async withPlaceholder(asset: ImageAsset): Promise<ImageAsset> {
+    try {
+      return { ...asset, placeholder: await this.provider.placeholder(asset) };
+    } catch (error) {
+      logger.warn(`⚠️ Could not generate a placeholder for ${asset.filename}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return { ...asset, placeholder: null };
+    }
+  }
+
+  async remove(asset: ImageAsset): Promise<boolean> {
+    const deleted = await this.provider.delete(asset);
+    await this.registry.remove(asset.filename);
+    return deleted;
+  }
+}
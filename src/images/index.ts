@@ -0,0 +1,40 @@
+/**
+ * Images
+ * Image storage singletons - Cloudinary or local sharp transformations, chosen by IMAGE_PROVIDER
+ */
+
+import { config } from '../config';
+import { CloudinaryStorageProvider } from './cloudinaryProvider';
+import { imageAssetRegistry } from './imageAssetRegistry';
+import { ImageService } from './imageService';
+import { LocalStorageProvider } from './localProvider';
+import { StorageProvider } from './storageProvider';
+
+export { ImageService } from './imageService';
+export {
+  IMAGE_PRESETS,
+  negotiateImageFormat,
+  negotiateImageRequest,
+  parseImageRequest,
+  presetTransformation,
+  transformationKey
+} from './transformations';
+export type { ImageQuery, ImageRequest } from './transformations';
+export { imageUrl, naturalSources, responsiveSources, toSrcset } from './responsive';
+export type { ResponsiveSource, SourceOptions } from './responsive';
+export type { StorageProvider, LocalImageFile } from './storageProvider';
+export { IMAGE_SIZE_NAMES, PLACEHOLDER_WIDTH } from './storageProvider';
+export { CloudinaryStorageProvider } from './cloudinaryProvider';
+export { LocalStorageProvider } from './localProvider';
+export { ImageAssetRegistry, imageAssetRegistry } from './imageAssetRegistry';
+export { IMAGE_BANNERS, bannerLabel, hasOverlays, statusBanner, withWatermark } from './overlays';
+export { fetchOriginImage, rewriteCdnUrl } from './delivery';
+export type { ImageDeliveryOptions, OriginImage } from './delivery';
+export { sanitizeImageFilename, validateImageUpload } from './uploadValidation';
+export type { ValidatedUpload } from './uploadValidation';
+
+export function createStorageProvider(): StorageProvider {
+  return config.images.provider === 'local' ? new LocalStorageProvider() : new CloudinaryStorageProvider();
+}
+
+export const imageService = new ImageService(createStorageProvider(), imageAssetRegistry);
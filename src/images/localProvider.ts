@@ -0,0 +1,382 @@
+/**
+ * Local Storage Provider
+ * Stores originals under IMAGE_CACHE_DIR and transforms them with sharp on first request,
+ * so images can be served without Cloudinary (dev, tests, small deployments)
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { OverlayOptions, Sharp, SharpOptions, ResizeOptions } from 'sharp';
+import { config } from '../config';
+import { ImageAsset, ImageAssetPage, ImageFit, ImageGravity, ImageTransformation } from '../types';
+import { LocalImageFile, PLACEHOLDER_WIDTH, StorageProvider } from './storageProvider';
+import { transformationKey } from './transformations';
+import { FORMAT_SIGNATURE_LENGTH, detectImageFormat } from '../utils/imageFormat';
+import {
+  BANNER_COLOR,
+  BANNER_SCALE,
+  BANNER_TEXT_COLOR,
+  OVERLAY_MARGIN,
+  WATERMARK_SCALE,
+  bannerLabel,
+  hasOverlays
+} from './overlays';
+
+// Closest sharp equivalents of the Cloudinary crop modes
+const SHARP_FIT: Record<ImageFit, ResizeOptions['fit']> = {
+  crop: 'cover',
+  fill: 'cover',
+  fit: 'inside',
+  limit: 'inside',
+  scale: 'fill',
+  pad: 'contain'
+};
+
+const SHARP_POSITION: Record<ImageGravity, string> = {
+  auto: 'attention',
+  face: 'attention',
+  center: 'centre',
+  north: 'north',
+  south: 'south',
+  east: 'east',
+  west: 'west'
+};
+
+type OutputFormat = 'webp' | 'avif' | 'jpeg' | 'png';
+
+// Originals listed per page of the media library
+const LIST_PAGE_SIZE = 500;
+
+const OUTPUT_FORMATS: Record<string, OutputFormat> = {
+  auto: 'webp',
+  webp: 'webp',
+  avif: 'avif',
+  jpg: 'jpeg',
+  png: 'png'
+};
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  jpg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  avif: 'image/avif',
+  pdf: 'application/pdf'
+};
+
+// Stored as they are, sharp cannot read them (PDF floorplans)
+const NON_RASTER_FORMATS = new Set(['pdf']);
+
+type SharpFactory = (input?: Buffer | string, options?: SharpOptions) => Sharp;
+
+let sharpModule: SharpFactory | null = null;
+
+/**
+ * Load sharp on first use, so Cloudinary deployments never need its native binary
+ */
+async function loadSharp(): Promise<SharpFactory> {
+  if (!sharpModule) {
+    sharpModule = (await import('sharp')).default;
+  }
+  return sharpModule;
+}
+
+/**
+ * Format of a stored file from its first bytes
+ */
+async function storedFormat(file: string): Promise<string | null> {
+  const handle = await fs.promises.open(file, 'r');
+  try {
+    const { buffer, bytesRead } = await handle.read(Buffer.alloc(FORMAT_SIGNATURE_LENGTH), 0, FORMAT_SIGNATURE_LENGTH, 0);
+    return detectImageFormat(buffer.subarray(0, bytesRead))?.format ?? null;
+  } finally {
+    await handle.close();
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+/**
+ * Overlays for an image of width x height, placed like the Cloudinary layers
+ */
+async function overlayLayers(transformation: ImageTransformation, width: number, height: number): Promise<OverlayOptions[]> {
+  const layers: OverlayOptions[] = [];
+  const margin = Math.round(width * OVERLAY_MARGIN);
+
+  if (transformation.banner) {
+    const label = bannerLabel(transformation.banner);
+    const bannerHeight = Math.min(height, Math.max(12, Math.round(width * BANNER_SCALE)));
+    const fontSize = Math.round(bannerHeight * 0.6);
+    // Bold sans-serif capitals average about 0.65em
+    const bannerWidth = Math.min(width, Math.round(label.length * fontSize * 0.65 + fontSize));
+
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${bannerWidth}" height="${bannerHeight}">` +
+      `<rect width="100%" height="100%" fill="${BANNER_COLOR}"/>` +
+      `<text x="50%" y="50%" font-size="${fontSize}" fill="${BANNER_TEXT_COLOR}" font-family="Arial, sans-serif" ` +
+      `font-weight="bold" dominant-baseline="central" text-anchor="middle">${escapeXml(label)}</text></svg>`;
+
+    layers.push({
+      input: Buffer.from(svg),
+      left: Math.min(margin, width - bannerWidth),
+      top: Math.min(margin, height - bannerHeight)
+    });
+  }
+
+  if (transformation.watermark && config.images.watermark.image) {
+    const alpha = Math.round((config.images.watermark.opacity / 100) * 255);
+    const { data, info } = await (await loadSharp())(path.resolve(config.images.watermark.image))
+      .resize({ width: Math.max(1, Math.round(width * WATERMARK_SCALE)), height, fit: 'inside' })
+      .ensureAlpha()
+      // Scale the logo's alpha channel down to the configured opacity
+      .composite([{ input: Buffer.from([255, 255, 255, alpha]), raw: { width: 1, height: 1, channels: 4 }, tile: true, blend: 'dest-in' }])
+      .png()
+      .toBuffer({ resolveWithObject: true });
+
+    layers.push({
+      input: data,
+      left: Math.max(0, width - info.width - margin),
+      top: Math.max(0, height - info.height - margin)
+    });
+  }
+
+  return layers;
+}
+
+export class LocalStorageProvider implements StorageProvider {
+  readonly name = 'local' as const;
+
+  private dir: string;
+  private transforming: Map<string, Promise<void>> = new Map();
+
+  constructor(dir: string = config.images.cacheDir) {
+    this.dir = path.resolve(dir);
+  }
+
+  async find(filename: string): Promise<ImageAsset | null> {
+    const original = this.originalPath(filename);
+
+    let stat: fs.Stats;
+    try {
+      stat = await fs.promises.stat(original);
+    } catch {
+      return null;
+    }
+
+    const format = await storedFormat(original);
+
+    return this.toAsset(filename, {
+      version: String(Math.floor(stat.mtimeMs)),
+      bytes: stat.size,
+      ...await this.dimensions(original, format)
+    });
+  }
+
+  async upload(filename: string, base64data: string): Promise<ImageAsset> {
+    const data = Buffer.from(base64data, 'base64');
+    const dimensions = await this.dimensions(data, detectImageFormat(data)?.format ?? null);
+
+    // Variants of a previous upload are keyed by its version, drop them
+    await this.removeVariants(filename);
+    await this.writeAtomic(this.originalPath(filename), data);
+
+    return this.toAsset(filename, {
+      version: String(Date.now()),
+      bytes: data.length,
+      ...dimensions
+    });
+  }
+
+  url(): null {
+    return null;
+  }
+
+  async file(asset: ImageAsset, transformation: ImageTransformation): Promise<LocalImageFile> {
+    const key = transformationKey(transformation);
+    // Non-raster files cannot be transformed, every size gets the original
+    if (key === 'original' || NON_RASTER_FORMATS.has(asset.format || '')) {
+      return {
+        path: this.originalPath(asset.filename),
+        contentType: CONTENT_TYPES[asset.format || ''] || 'application/octet-stream'
+      };
+    }
+
+    const format = OUTPUT_FORMATS[transformation.format || 'auto'];
+    const variant = this.variantPath(asset, key, format);
+    try {
+      await fs.promises.access(variant);
+    } catch {
+      await this.transform(asset, transformation, format, variant);
+    }
+
+    return { path: variant, contentType: CONTENT_TYPES[format] };
+  }
+
+  async placeholder(asset: ImageAsset): Promise<string> {
+    if (NON_RASTER_FORMATS.has(asset.format || '')) {
+      throw new Error(`No placeholder for ${asset.format} files`);
+    }
+
+    const data = await (await loadSharp())(this.originalPath(asset.filename))
+      .rotate()
+      .resize(PLACEHOLDER_WIDTH)
+      .jpeg({ quality: 50 })
+      .toBuffer();
+
+    return `data:image/jpeg;base64,${data.toString('base64')}`;
+  }
+
+  /**
+   * Originals in name order - the cursor is the offset of the next page. Dimensions are left to the registry,
+   * reading them would open every file.
+   */
+  async list(cursor: string | null = null): Promise<ImageAssetPage> {
+    const originalsDir = path.join(this.dir, 'originals');
+    const files = (await fs.promises.readdir(originalsDir).catch(() => [] as string[]))
+      .filter(file => !file.endsWith('.tmp'))
+      .sort();
+
+    const offset = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const page = files.slice(offset, offset + LIST_PAGE_SIZE);
+
+    const assets = await Promise.all(page.map(async file => {
+      const stat = await fs.promises.stat(path.join(originalsDir, file));
+      const asset = this.toAsset(file, {
+        version: String(Math.floor(stat.mtimeMs)),
+        bytes: stat.size,
+        width: null,
+        height: null,
+        format: path.extname(file).slice(1).toLowerCase() || null
+      });
+      return { ...asset, uploadedAt: stat.mtime.toISOString() };
+    }));
+
+    return {
+      assets,
+      nextCursor: offset + LIST_PAGE_SIZE < files.length ? String(offset + LIST_PAGE_SIZE) : null
+    };
+  }
+
+  async delete(asset: ImageAsset): Promise<boolean> {
+    await this.removeVariants(asset.filename);
+
+    try {
+      await fs.promises.rm(this.originalPath(asset.filename));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Transform once even when several requests miss at the same time
+   */
+  private async transform(
+    asset: ImageAsset,
+    transformation: ImageTransformation,
+    format: OutputFormat,
+    target: string
+  ): Promise<void> {
+    let pending = this.transforming.get(target);
+
+    if (!pending) {
+      pending = this.render(asset, transformation, format)
+        .then(data => this.writeAtomic(target, data))
+        .finally(() => this.transforming.delete(target));
+
+      this.transforming.set(target, pending);
+    }
+
+    await pending;
+  }
+
+  private async render(asset: ImageAsset, transformation: ImageTransformation, format: OutputFormat): Promise<Buffer> {
+    const sharp = await loadSharp();
+    const image = sharp(this.originalPath(asset.filename)).rotate();
+    const dpr = transformation.dpr || 1;
+    const scale = (value?: number): number | undefined => (value ? Math.round(value * dpr) : undefined);
+
+    if (transformation.width || transformation.height) {
+      image.resize(scale(transformation.width), scale(transformation.height), {
+        fit: SHARP_FIT[transformation.fit || 'limit'],
+        position: SHARP_POSITION[transformation.gravity || 'center'],
+        withoutEnlargement: transformation.fit === 'limit' || !transformation.fit
+      });
+    }
+
+    // sharp has no automatic quality, use its defaults
+    const quality = typeof transformation.quality === 'number' ? transformation.quality : undefined;
+
+    if (!hasOverlays(transformation)) {
+      return image.toFormat(format, { quality }).toBuffer();
+    }
+
+    // Overlays are sized from the resized image, so it is rendered to raw pixels first
+    const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+    return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+      .composite(await overlayLayers(transformation, info.width, info.height))
+      .toFormat(format, { quality })
+      .toBuffer();
+  }
+
+  /**
+   * Dimensions and format of an original - only raster images are probed with sharp
+   */
+  private async dimensions(
+    input: Buffer | string,
+    format: string | null
+  ): Promise<Pick<ImageAsset, 'width' | 'height' | 'format'>> {
+    if (format && NON_RASTER_FORMATS.has(format)) {
+      return { width: null, height: null, format };
+    }
+
+    const metadata = await (await loadSharp())(input).metadata();
+    return { width: metadata.width ?? null, height: metadata.height ?? null, format: metadata.format ?? null };
+  }
+
+  private toAsset(
+    filename: string,
+    details: Pick<ImageAsset, 'version' | 'bytes' | 'width' | 'height' | 'format'>
+  ): ImageAsset {
+    return {
+      filename,
+      provider: this.name,
+      publicId: path.relative(this.dir, this.originalPath(filename)),
+      ...details,
+      uploadedAt: new Date().toISOString()
+    };
+  }
+
+  /**
+   * Only the base name is used, so a filename can never point outside the cache directory
+   */
+  private originalPath(filename: string): string {
+    return path.join(this.dir, 'originals', path.basename(filename));
+  }
+
+  /**
+   * Variants are kept in a directory per original, named after its full filename (extension included, so
+   * 123_1.jpg and 123_1.png never share variants), as <version>.<transformation key>.<format>
+   */
+  private variantDir(filename: string): string {
+    return path.join(this.dir, 'variants', path.basename(filename));
+  }
+
+  private variantPath(asset: ImageAsset, key: string, format: OutputFormat): string {
+    return path.join(this.variantDir(asset.filename), `${asset.version}.${key}.${format}`);
+  }
+
+  private async removeVariants(filename: string): Promise<void> {
+    await fs.promises.rm(this.variantDir(filename), { recursive: true, force: true });
+  }
+
+  private async writeAtomic(file: string, data: Buffer): Promise<void> {
+    await fs.promises.mkdir(path.dirname(file), { recursive: true });
+    const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tmp, data);
+    await fs.promises.rename(tmp, file);
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Image Overlays
+ * Agency watermark and status banners drawn onto served images - shared by both storage providers
+ */
+
+import { config } from '../config';
+import { ImageBanner, ImageTransformation, PropertyStatus } from '../types';
+import { formatStatus } from '../utils/formatters';
+
+export const IMAGE_BANNERS: ImageBanner[] = ['under_offer', 'let_agreed', 'sold'];
+
+/** Logo width relative to the image */
+export const WATERMARK_SCALE = 0.2;
+/** Banner height relative to the image width */
+export const BANNER_SCALE = 0.07;
+/** Distance of overlays from the image edges, relative to the image width */
+export const OVERLAY_MARGIN = 0.03;
+
+export const BANNER_COLOR = '#c0392b';
+export const BANNER_TEXT_COLOR = '#ffffff';
+
+/**
+ * Banner text, worded like the listing's status label
+ */
+export function bannerLabel(banner: ImageBanner): string {
+  return formatStatus(banner.replace(/_/g, ' '));
+}
+
+/**
+ * Banner of a listing status - null when banners are disabled or the listing is simply available
+ */
+export function statusBanner(status: PropertyStatus): ImageBanner | null {
+  return config.images.statusBanners && IMAGE_BANNERS.includes(status as ImageBanner) ? status as ImageBanner : null;
+}
+
+/**
+ * Add the watermark when one is configured - to the original too, so no unbranded copy is served.
+ * Images narrower than IMAGE_WATERMARK_MIN_WIDTH are left alone, a logo would cover them.
+ */
+export function withWatermark(transformation: ImageTransformation): ImageTransformation {
+  const { width } = transformation;
+  if (!config.images.watermark.image || (width && width * (transformation.dpr || 1) < config.images.watermark.minWidth)) {
+    return transformation;
+  }
+  return { ...transformation, watermark: true };
+}
+
+export function hasOverlays(transformation: ImageTransformation): boolean {
+  return Boolean(transformation.watermark || transformation.banner);
+}
@@ -0,0 +1,94 @@
+/**
+ * Responsive Images
+ * Image route URLs and srcset candidates for the property DTOs.
+ * Formats are negotiated per request by the image route, so the URLs carry no format.
+ */
+
+import { ImageTransformation } from '../types';
+import { snapDimension } from './transformations';
+
+/** Options applied to every source */
+export interface SourceOptions {
+  banner?: ImageTransformation['banner'];
+  /** Stored asset version - versioned URLs may be cached for good */
+  version?: string;
+}
+
+export interface ResponsiveSource {
+  width: number;
+  height: number;
+  url: string;
+}
+
+const QUERY_PARAMS: [keyof ImageTransformation, string][] = [
+  ['width', 'w'],
+  ['height', 'h'],
+  ['fit', 'fit'],
+  ['gravity', 'gravity'],
+  ['quality', 'q'],
+  ['dpr', 'dpr'],
+  ['format', 'format'],
+  ['banner', 'banner']
+];
+
+/**
+ * Image route URL of a transformation, e.g. /api/images/1001.jpg?w=300&h=200&fit=crop
+ */
+export function imageUrl(filename: string, transformation: ImageTransformation = {}, version?: string): string {
+  const query = QUERY_PARAMS
+    .filter(([field]) => transformation[field] !== undefined)
+    .map(([field, param]) => `${param}=${transformation[field]}`)
+    .concat(version ? [`v=${encodeURIComponent(version)}`] : [])
+    .join('&');
+
+  return `/api/images/${encodeURIComponent(filename)}${query ? `?${query}` : ''}`;
+}
+
+/**
+ * Cropped sources at each width, keeping the aspect ratio of width x height.
+ * Heights are snapped to the allowed dimensions, so the ratio is exact only when it lands on one.
+ */
+export function responsiveSources(
+  filename: string,
+  aspect: { width: number; height: number },
+  widths: number[],
+  options: SourceOptions = {}
+): ResponsiveSource[] {
+  return widths.map(width => {
+    const height = snapDimension((width * aspect.height) / aspect.width);
+    return {
+      width,
+      height,
+      url: imageUrl(filename, { width, height, fit: 'crop', banner: options.banner }, options.version)
+    };
+  });
+}
+
+/**
+ * Sources at each width keeping the image's own aspect ratio, never upscaled.
+ * Widths beyond the original are dropped; the smallest is kept so there is always a source.
+ */
+export function naturalSources(
+  filename: string,
+  original: { width: number; height: number },
+  widths: number[],
+  options: SourceOptions = {}
+): ResponsiveSource[] {
+  const fitting = widths.filter(width => width <= original.width);
+
+  return (fitting.length > 0 ? fitting : widths.slice(0, 1)).map(width => {
+    const rendered = Math.min(width, original.width);
+    return {
+      width: rendered,
+      height: Math.round((rendered * original.height) / original.width),
+      url: imageUrl(filename, { width, fit: 'limit', banner: options.banner }, options.version)
+    };
+  });
+}
+
+/**
+ * srcset attribute value with width descriptors
+ */
+export function toSrcset(sources: ResponsiveSource[]): string {
+  return sources.map(source => `${source.url} ${source.width}w`).join(', ');
+}
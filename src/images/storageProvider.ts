@@ -0,0 +1,52 @@
+/**
+ * Storage Provider
+ * Contract for where original images are stored and how their sizes are produced
+ */
+
+import { ImageAsset, ImageAssetPage, ImageProviderName, ImageSizeName, ImageTransformation } from '../types';
+
+export interface LocalImageFile {
+  path: string;
+  contentType: string;
+}
+
+export interface StorageProvider {
+  readonly name: ImageProviderName;
+
+  /**
+   * Look up an image stored earlier (without the registry) - null when it is not in storage
+   */
+  find(filename: string): Promise<ImageAsset | null>;
+
+  /**
+   * Store an original image from Rentman's base64 data
+   */
+  upload(filename: string, base64data: string): Promise<ImageAsset>;
+
+  /**
+   * Public URL of a transformed image, or null when the provider serves its files through the API
+   */
+  url(asset: ImageAsset, transformation: ImageTransformation): string | null;
+
+  /**
+   * Local file of a transformed image, generated on first request (providers without public URLs)
+   */
+  file(asset: ImageAsset, transformation: ImageTransformation): Promise<LocalImageFile>;
+
+  /**
+   * Low-quality image placeholder (LQIP) as a data URI
+   */
+  placeholder(asset: ImageAsset): Promise<string>;
+
+  /**
+   * A page of the images in storage, including any the registry does not know
+   */
+  list(cursor?: string | null): Promise<ImageAssetPage>;
+
+  delete(asset: ImageAsset): Promise<boolean>;
+}
+
+export const IMAGE_SIZE_NAMES: ImageSizeName[] = ['thumb', 'medium', 'large', 'original'];
+
+/** Width of the LQIP placeholders - a few hundred bytes as a data URI */
+export const PLACEHOLDER_WIDTH = 16;
@@ -0,0 +1,233 @@
+/**
+ * Image Transformations
+ * Parse transformation query parameters into bounded, canonical transformations.
+ * Every distinct transformation is a derived image (a Cloudinary quota unit or a file on disk),
+ * so values are snapped to small allowlists and only allowlisted presets and modes are accepted.
+ */
+
+import { config } from '../config';
+import { ErrorTypes } from '../middleware/errorHandler';
+import {
+  ImageFit,
+  ImageGravity,
+  ImageOutputFormat,
+  ImageSizeName,
+  ImageTransformation
+} from '../types';
+import { IMAGE_BANNERS, withWatermark } from './overlays';
+
+/** Width and height are rounded up to one of these - the srcset widths and their 3:2 heights */
+export const ALLOWED_DIMENSIONS = [100, 200, 300, 400, 600, 800, 900, 1000, 1200, 1500, 1800, 2400];
+export const MAX_DIMENSION = ALLOWED_DIMENSIONS[ALLOWED_DIMENSIONS.length - 1];
+
+export const MIN_QUALITY = 30;
+const QUALITY_STEP = 5;
+
+export const ALLOWED_DPR = [1, 1.5, 2, 3];
+export const ALLOWED_FITS: ImageFit[] = ['crop', 'fill', 'fit', 'limit', 'scale', 'pad'];
+export const ALLOWED_GRAVITIES: ImageGravity[] = ['auto', 'center', 'face', 'north', 'south', 'east', 'west'];
+export const ALLOWED_FORMATS: ImageOutputFormat[] = ['auto', 'webp', 'avif', 'jpg', 'png'];
+
+/**
+ * Named transformations - the size names match the sizes the API has always served
+ */
+export const IMAGE_PRESETS: Record<string, ImageTransformation> = {
+  thumb: { width: 300, height: 200, fit: 'fill', gravity: 'auto', quality: config.images.quality.thumb },
+  medium: { width: 800, height: 600, fit: 'fill', gravity: 'auto', quality: config.images.quality.medium },
+  large: { width: 1200, height: 900, fit: 'fill', gravity: 'auto', quality: config.images.quality.large },
+  original: {},
+  card: { width: 600, height: 400, fit: 'fill', gravity: 'auto', quality: 'auto' },
+  hero: { width: 1920, height: 1080, fit: 'fill', gravity: 'auto', quality: 'auto' }
+};
+
+export interface ImageRequest {
+  /** Rentman filename without a size suffix */
+  filename: string;
+  transformation: ImageTransformation;
+  /** Canonical form of the transformation, used for cache keys and derived file names */
+  key: string;
+}
+
+/** Query parameters read by parseImageRequest */
+export interface ImageQuery {
+  size?: string;
+  preset?: string;
+  w?: string;
+  h?: string;
+  fit?: string;
+  crop?: string;
+  gravity?: string;
+  q?: string;
+  dpr?: string;
+  format?: string;
+  banner?: string;
+}
+
+const CUSTOM_PARAMS: (keyof ImageQuery)[] = ['w', 'h', 'fit', 'crop', 'gravity', 'q', 'dpr', 'format'];
+
+/**
+ * Smallest allowed dimension that is at least the value, capped at MAX_DIMENSION
+ */
+export function snapDimension(value: number): number {
+  return ALLOWED_DIMENSIONS.find(dimension => dimension >= value) ?? MAX_DIMENSION;
+}
+
+function parseDimension(name: string, value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw ErrorTypes.INVALID_PARAMETERS(`${name} must be a positive number`);
+  }
+  return snapDimension(parsed);
+}
+
+function parseQuality(value: string): number | 'auto' {
+  if (value === 'auto') {
+    return 'auto';
+  }
+
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw ErrorTypes.INVALID_PARAMETERS('q must be "auto" or a number between 1 and 100');
+  }
+  return Math.min(100, Math.max(MIN_QUALITY, Math.round(parsed / QUALITY_STEP) * QUALITY_STEP));
+}
+
+/**
+ * Nearest allowed DPR
+ */
+function parseDpr(value: string): number {
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw ErrorTypes.INVALID_PARAMETERS('dpr must be a positive number');
+  }
+  return ALLOWED_DPR.reduce((best, dpr) => (Math.abs(dpr - parsed) < Math.abs(best - parsed) ? dpr : best));
+}
+
+function parseChoice<T extends string>(name: string, value: string, allowed: T[]): T {
+  const normalized = (value === 'jpeg' ? 'jpg' : value === 'centre' ? 'center' : value) as T;
+  if (!allowed.includes(normalized)) {
+    throw ErrorTypes.INVALID_PARAMETERS(`${name} must be one of ${allowed.join(', ')}`);
+  }
+  return normalized;
+}
+
+/**
+ * Canonical key of a transformation, e.g. w_300,h_200,c_crop - "original" when empty
+ */
+export function transformationKey(transformation: ImageTransformation): string {
+  const parts = [
+    transformation.width && `w_${transformation.width}`,
+    transformation.height && `h_${transformation.height}`,
+    transformation.fit && `c_${transformation.fit}`,
+    transformation.gravity && `g_${transformation.gravity}`,
+    transformation.quality && `q_${transformation.quality}`,
+    transformation.dpr && transformation.dpr !== 1 && `dpr_${transformation.dpr}`,
+    transformation.format && `f_${transformation.format}`,
+    transformation.watermark && 'wm',
+    transformation.banner && `banner_${transformation.banner}`
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(',') : 'original';
+}
+
+/**
+ * Transformation of a named size
+ */
+export function presetTransformation(size: ImageSizeName): ImageTransformation {
+  return { ...IMAGE_PRESETS[size] };
+}
+
+/**
+ * Best format the client accepts - the first of IMAGE_DELIVERY_FORMATS in its Accept header, JPEG otherwise
+ */
+export function negotiateImageFormat(
+  accept: string | undefined,
+  offered: ImageOutputFormat[] = config.images.deliveryFormats
+): ImageOutputFormat {
+  const accepted = (accept || '')
+    .toLowerCase()
+    .split(',')
+    .map(part => part.trim().split(';'))
+    .filter(([, ...params]) => !params.some(param => /^q=0(\.0*)?$/.test(param.trim())))
+    .map(([type]) => type);
+
+  return offered.find(format => accepted.includes(`image/${format}`)) || 'jpg';
+}
+
+/**
+ * Resolve a missing or "auto" format from the Accept header. The untouched original is left alone.
+ */
+export function negotiateImageRequest(request: ImageRequest, accept: string | undefined): ImageRequest {
+  const { format } = request.transformation;
+  if (request.key === 'original' || (format && format !== 'auto')) {
+    return request;
+  }
+
+  const transformation = { ...request.transformation, format: negotiateImageFormat(accept) };
+  return { ...request, transformation, key: transformationKey(transformation) };
+}
+
+/**
+ * Split a requested filename and query into the Rentman filename and a bounded transformation.
+ * Starts from a preset (?preset=, ?size= or a size suffix such as image_thumb.jpg - medium when
+ * nothing is given) and applies w, h, fit, gravity, q, dpr and format on top. Throws INVALID_PARAMETERS for values
+ * outside the allowlists. The watermark is added when configured, it cannot be requested or removed.
+ * A status banner is only drawn when IMAGE_STATUS_BANNERS is on, otherwise ?banner= is ignored.
+ */
+export function parseImageRequest(requested: string, query: ImageQuery = {}): ImageRequest {
+  const suffix = requested.match(/_(\w+)\./);
+  const filename = requested.replace(/_\w+\./, '.');
+
+  const custom = CUSTOM_PARAMS.filter(param => query[param] !== undefined && query[param] !== '');
+  if (custom.length > 0 && !config.images.customTransformations) {
+    throw ErrorTypes.INVALID_PARAMETERS(`Only presets are allowed: ${Object.keys(IMAGE_PRESETS).join(', ')}`);
+  }
+
+  let base: ImageTransformation;
+  if (query.preset) {
+    if (!IMAGE_PRESETS[query.preset]) {
+      throw ErrorTypes.INVALID_PARAMETERS(`preset must be one of ${Object.keys(IMAGE_PRESETS).join(', ')}`);
+    }
+    base = IMAGE_PRESETS[query.preset];
+  } else if (suffix || query.size) {
+    // Unknown sizes have always been served as the original
+    base = IMAGE_PRESETS[suffix ? suffix[1] : query.size as string] || IMAGE_PRESETS.original;
+  } else {
+    // Custom parameters alone start from the original, not from the default size
+    base = custom.length > 0 ? IMAGE_PRESETS.original : IMAGE_PRESETS.medium;
+  }
+
+  const transformation: ImageTransformation = { ...base };
+
+  // Custom dimensions replace the preset's box rather than being combined with half of it
+  if (query.w || query.h) {
+    delete transformation.width;
+    delete transformation.height;
+  }
+  if (query.w) transformation.width = parseDimension('w', query.w);
+  if (query.h) transformation.height = parseDimension('h', query.h);
+
+  const fit = query.fit || query.crop;
+  if (fit) transformation.fit = parseChoice('fit', fit, ALLOWED_FITS);
+  if (query.gravity) transformation.gravity = parseChoice('gravity', query.gravity, ALLOWED_GRAVITIES);
+  if (query.q) transformation.quality = parseQuality(query.q);
+  if (query.dpr) transformation.dpr = parseDpr(query.dpr);
+  if (query.format) transformation.format = parseChoice('format', query.format, ALLOWED_FORMATS);
+
+  // Resizing without a box is meaningless
+  if (!transformation.width && !transformation.height) {
+    delete transformation.fit;
+    delete transformation.gravity;
+  }
+
+  if (transformation.dpr === 1) {
+    delete transformation.dpr;
+  }
+
+  if (query.banner && config.images.statusBanners) {
+    transformation.banner = parseChoice('banner', query.banner, IMAGE_BANNERS);
+  }
+
+  const branded = withWatermark(transformation);
+  return { filename, transformation: branded, key: transformationKey(branded) };
+}
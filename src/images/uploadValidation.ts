@@ -0,0 +1,67 @@
+/**
+ * Upload Validation
+ * Checks image uploads before they reach storage - filename, base64 encoding, size and real format
+ */
+
+import path from 'path';
+import { config } from '../config';
+import { ErrorTypes } from '../middleware/errorHandler';
+import { DetectedFormat, detectImageFormat } from '../utils/imageFormat';
+import { validateImageFilename } from '../utils/validators';
+
+export interface ValidatedUpload {
+  filename: string;
+  /** Base64 without a data URI prefix or whitespace */
+  base64data: string;
+  bytes: number;
+  format: DetectedFormat;
+}
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+/**
+ * Base name only, with anything but letters, digits, dots, dashes and underscores replaced
+ */
+export function sanitizeImageFilename(filename: string): string {
+  return path.basename(filename.replace(/\\/g, '/'))
+    .replace(/[^A-Za-z0-9._-]/g, '_')
+    .replace(/^\.+/, '');
+}
+
+/**
+ * Validate an upload - throws BAD_REQUEST, IMAGE_TOO_LARGE or UNSUPPORTED_IMAGE_FORMAT
+ */
+export function validateImageUpload(filename: unknown, base64Data: unknown): ValidatedUpload {
+  if (typeof filename !== 'string' || typeof base64Data !== 'string' || !filename || !base64Data) {
+    throw ErrorTypes.BAD_REQUEST('base64Data and filename are required');
+  }
+
+  const sanitized = sanitizeImageFilename(filename);
+  if (!validateImageFilename(sanitized)) {
+    throw ErrorTypes.BAD_REQUEST(`Invalid image filename: ${filename}`);
+  }
+
+  const base64data = base64Data.replace(/^data:[^;,]*;base64,/, '').replace(/\s/g, '');
+  if (!BASE64_PATTERN.test(base64data)) {
+    throw ErrorTypes.BAD_REQUEST('base64Data is not valid base64');
+  }
+
+  const data = Buffer.from(base64data, 'base64');
+  if (data.length > config.images.maxFileSize) {
+    throw ErrorTypes.IMAGE_TOO_LARGE(`Image is ${data.length} bytes, the limit is ${config.images.maxFileSize}`, {
+      bytes: data.length,
+      maxFileSize: config.images.maxFileSize
+    });
+  }
+
+  // The payload decides the format, not the filename
+  const format = detectImageFormat(data);
+  if (!format || !config.images.allowedFormats.includes(format.format)) {
+    throw ErrorTypes.UNSUPPORTED_IMAGE_FORMAT(
+      `Unsupported image format${format ? ` ${format.format}` : ''}, allowed: ${config.images.allowedFormats.join(', ')}`,
+      { detected: format?.format ?? null }
+    );
+  }
+
+  return { filename: sanitized, base64data, bytes: data.length, format };
+}
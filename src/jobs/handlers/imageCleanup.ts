@@ -0,0 +1,12 @@
+/**
+ * Image Cleanup Job
+ * Deletes stored images that no synced property has used for the grace period
+ */
+
+import { imageService } from '../../images';
+import { cleanupOrphanedImages } from '../../services/imageLibrary';
+import { JobHandler } from '../jobQueue';
+
+export function createImageCleanupHandler(): JobHandler<'images.cleanup'> {
+  return async ({ dryRun }, _job, signal) => cleanupOrphanedImages(imageService, { dryRun, signal });
+}
@@ -0,0 +1,35 @@
+/**
+ * Image Upload Job
+ * Fetches an image from Rentman and stores it with the configured image storage provider
+ */
+
+import { RentmanApiClient } from '../../client/RentmanApiClient';
+import { imageService } from '../../images';
+import { logger } from '../../utils/logger';
+import { JobHandler, PermanentJobError } from '../jobQueue';
+
+export function createImageUploadHandler(client: RentmanApiClient): JobHandler<'image.upload'> {
+  return async ({ filename }, _job, signal) => {
+    const mediaResponse = await client.getPropertyMedia({ filename });
+
+    // A missing image will not appear by retrying
+    if (mediaResponse.data.length === 0) {
+      throw new PermanentJobError(`Image ${filename} not found in Rentman API`);
+    }
+
+    const media = mediaResponse.data[0];
+    if (!media.base64data) {
+      throw new PermanentJobError(`No base64 data for image ${filename}`);
+    }
+
+    // Another worker took the job over while Rentman was slow
+    signal.throwIfAborted();
+
+    logger.info(`📥 Fetched image ${filename} from Rentman API, storing it (${imageService.providerName})...`);
+
+    const asset = await imageService.store(filename, media.base64data, 'rentman');
+
+    logger.info(`✅ Stored ${filename} (version ${asset.version})`);
+    return asset;
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Media Refresh Job
+ * Caches a property's media metadata so galleries can be captioned and ordered like Rentman
+ */
+
+import { RentmanApiClient } from '../../client/RentmanApiClient';
+import { refreshMedia } from '../../services/propertyMedia';
+import { logger } from '../../utils/logger';
+import { JobHandler } from '../jobQueue';
+
+export function createMediaRefreshHandler(client: RentmanApiClient): JobHandler<'media.refresh'> {
+  return async ({ propref }, _job, signal) => {
+    const media = await refreshMedia(client, propref, signal);
+    logger.debug(`🖼️ Cached metadata of ${media.length} media items for property ${propref}`);
+  };
+}
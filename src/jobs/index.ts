@@ -0,0 +1,23 @@
+/**
+ * Jobs
+ * Background job queue singleton - backed by Redis when JOBS_BACKEND=redis, in memory otherwise
+ */
+
+import { config } from '../config';
+import { redisCache } from '../utils/redisCache';
+import { JobBackend } from './jobBackend';
+import { JobQueue } from './jobQueue';
+import { MemoryJobBackend } from './memoryJobBackend';
+import { RedisJobBackend } from './redisJobBackend';
+
+export { JobQueue, PermanentJobError } from './jobQueue';
+export type { JobHandler, JobHandlerOptions, EnqueueOptions } from './jobQueue';
+export type { JobBackend } from './jobBackend';
+export { MemoryJobBackend } from './memoryJobBackend';
+export { RedisJobBackend } from './redisJobBackend';
+
+export function createJobBackend(): JobBackend {
+  return config.jobs.backend === 'redis' ? new RedisJobBackend(redisCache) : new MemoryJobBackend();
+}
+
+export const jobQueue = new JobQueue(createJobBackend(), config.jobs);
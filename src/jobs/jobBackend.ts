@@ -0,0 +1,61 @@
+/**
+ * Job Backend
+ * Storage contract for the job queue - implemented in Redis (shared by all instances) and in memory
+ */
+
+import { Job, JobStatus, JobType } from '../types';
+
+/** Completed jobs are kept briefly for inspection, dead jobs long enough to be retried */
+export const COMPLETED_JOB_LIMIT = 100;
+export const DEAD_JOB_LIMIT = 1000;
+
+export interface JobBackend {
+  readonly name: 'redis' | 'memory';
+
+  connect(): Promise<void>;
+
+  /**
+   * Store a new waiting job. When a waiting or active job already holds its dedupeKey,
+   * nothing is stored and that job is returned instead.
+   */
+  add(job: Job): Promise<Job>;
+
+  get(id: string): Promise<Job | null>;
+
+  /**
+   * Atomically take the next due job of a type, mark it active (one more attempt) and lease it until leaseUntil
+   */
+  claim(type: JobType, now: number, leaseUntil: number): Promise<Job | null>;
+
+  /**
+   * Persist a job after an attempt and move it to the index for its status (waiting, completed or dead)
+   */
+  update(job: Job): Promise<void>;
+
+  /**
+   * Move a dead job back to waiting
+   */
+  revive(job: Job): Promise<void>;
+
+  /**
+   * Extend the lease of an active job - false when it is no longer leased (finished, or reclaimed after expiring)
+   */
+  renewLease(id: string, leaseUntil: number): Promise<boolean>;
+
+  /**
+   * Take back active jobs whose lease expired (their worker died) - returned still marked active
+   */
+  reclaimExpired(now: number): Promise<Job[]>;
+
+  /**
+   * Jobs with a status, newest first for completed and dead, by run time for waiting.
+   * Waiting jobs are queued per type, so only the given types are looked at for them.
+   */
+  list(status: JobStatus, types: JobType[], limit: number): Promise<Job[]>;
+
+  count(status: JobStatus, types: JobType[]): Promise<number>;
+}
+
+export function isFinished(job: Job): boolean {
+  return job.status === 'completed' || job.status === 'dead';
+}
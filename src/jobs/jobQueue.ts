@@ -0,0 +1,398 @@
+/**
+ * Job Queue
+ * Runs typed background jobs with per-type concurrency limits, exponential backoff between attempts
+ * and a dead-letter list for jobs that ran out of attempts
+ */
+
+import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import {
+  Job,
+  JobPayloads,
+  JobQueueStats,
+  JobResult,
+  JobStatus,
+  JobType
+} from '../types';
+import { JobBackend, isFinished } from './jobBackend';
+import { logger } from '../utils/logger';
+
+/**
+ * The signal is aborted when the job's lease is lost and another worker may take it over -
+ * handlers with side effects check it before each one
+ */
+export type JobHandler<T extends JobType> = (
+  payload: JobPayloads[T],
+  job: Job<T>,
+  signal: AbortSignal
+) => Promise<JobResult<T>>;
+
+export interface JobHandlerOptions {
+  /** Jobs of this type processed at once by this instance */
+  concurrency?: number;
+  maxAttempts?: number;
+  /** Lease of a claimed job, renewed every third of it while the handler runs */
+  leaseMs?: number;
+}
+
+export interface EnqueueOptions {
+  /** A job with the same key that is still waiting or active is returned instead of queueing another */
+  dedupeKey?: string;
+  delayMs?: number;
+  maxAttempts?: number;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  pollInterval: number;
+  maxAttempts: number;
+  retryBaseDelay: number;
+  retryMaxDelay: number;
+  /** How long a worker may hold a job before another instance takes it over */
+  leaseMs?: number;
+}
+
+/**
+ * Thrown by handlers for failures that retrying cannot fix - the job goes straight to the dead-letter list
+ */
+export class PermanentJobError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PermanentJobError';
+  }
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<JobType>;
+  concurrency: number;
+  maxAttempts: number;
+  leaseMs: number;
+  running: number;
+}
+
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+const JOB_STATUSES: JobStatus[] = ['waiting', 'active', 'completed', 'dead'];
+
+export class JobQueue {
+  private handlers: Map<JobType, RegisteredHandler> = new Map();
+  private events = new EventEmitter();
+  private running = false;
+  private processing = 0;
+  private polling = false;
+  private pollTimer: NodeJS.Timeout | null = null;
+
+  constructor(private backend: JobBackend, private options: JobQueueOptions) {
+    this.events.setMaxListeners(0);
+  }
+
+  /**
+   * Register the handler for a job type - registering again replaces it
+   */
+  register<T extends JobType>(type: T, handler: JobHandler<T>, options: JobHandlerOptions = {}): void {
+    this.handlers.set(type, {
+      handler: handler as unknown as JobHandler<JobType>,
+      concurrency: options.concurrency ?? this.options.concurrency,
+      maxAttempts: options.maxAttempts ?? this.options.maxAttempts,
+      leaseMs: options.leaseMs ?? this.options.leaseMs ?? DEFAULT_LEASE_MS,
+      running: this.handlers.get(type)?.running ?? 0
+    });
+  }
+
+  /**
+   * Connect the backend and start polling for due jobs
+   */
+  async start(): Promise<void> {
+    if (this.running) {
+      return;
+    }
+
+    await this.backend.connect();
+    this.running = true;
+    logger.info(`🧵 Job queue started (${this.backend.name}, concurrency ${this.options.concurrency})`);
+    this.poll();
+  }
+
+  /**
+   * Stop taking new jobs - jobs already running finish on their own
+   */
+  stop(): void {
+    this.running = false;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async enqueue<T extends JobType>(type: T, payload: JobPayloads[T], options: EnqueueOptions = {}): Promise<Job<T>> {
+    const now = new Date();
+    const job: Job<T> = {
+      id: crypto.randomUUID(),
+      type,
+      payload,
+      status: 'waiting',
+      attempts: 0,
+      maxAttempts: options.maxAttempts ?? this.handlers.get(type)?.maxAttempts ?? this.options.maxAttempts,
+      runAt: new Date(now.getTime() + (options.delayMs || 0)).toISOString(),
+      dedupeKey: options.dedupeKey || null,
+      lastError: null,
+      result: null,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      finishedAt: null
+    };
+
+    const stored = await this.backend.add(job as Job) as Job<T>;
+    if (stored.id === job.id) {
+      logger.debug(`Queued ${type} job ${job.id}`);
+      this.wake();
+    }
+    return stored;
+  }
+
+  async getJob(id: string): Promise<Job | null> {
+    return this.backend.get(id);
+  }
+
+  /**
+   * Wait until a job completes or dies - resolves with the job, or null if it is still pending after timeoutMs.
+   * Jobs finished by this instance resolve immediately, others are picked up by polling the backend.
+   */
+  async waitFor<T extends JobType>(id: string, timeoutMs: number): Promise<Job<T> | null> {
+    const deadline = Date.now() + timeoutMs;
+
+    while (Date.now() < deadline) {
+      const job = await this.backend.get(id);
+      if (!job) {
+        return null;
+      }
+      if (isFinished(job)) {
+        return job as Job<T>;
+      }
+
+      await new Promise<void>(resolve => {
+        const done = () => {
+          clearTimeout(timer);
+          this.events.off(`finished:${id}`, done);
+          resolve();
+        };
+        const timer = setTimeout(done, Math.min(this.options.pollInterval, Math.max(0, deadline - Date.now())));
+        this.events.once(`finished:${id}`, done);
+      });
+    }
+
+    const job = await this.backend.get(id);
+    return job && isFinished(job) ? job as Job<T> : null;
+  }
+
+  /**
+   * Move a dead job back to waiting with a fresh set of attempts
+   */
+  async retry(id: string): Promise<Job | null> {
+    const job = await this.backend.get(id);
+    if (!job || job.status !== 'dead') {
+      return null;
+    }
+
+    const now = new Date().toISOString();
+    const revived: Job = {
+      ...job,
+      status: 'waiting',
+      attempts: 0,
+      runAt: now,
+      updatedAt: now,
+      finishedAt: null
+    };
+
+    await this.backend.revive(revived);
+    logger.info(`🔁 Retrying dead ${job.type} job ${id}`);
+    this.wake();
+    return revived;
+  }
+
+  async list(status: JobStatus, limit: number): Promise<Job[]> {
+    return this.backend.list(status, this.types(), limit);
+  }
+
+  async getStats(): Promise<JobQueueStats> {
+    const counts = await Promise.all(JOB_STATUSES.map(status => this.backend.count(status, this.types())));
+
+    return {
+      backend: this.backend.name,
+      running: this.running,
+      processing: this.processing,
+      counts: Object.fromEntries(JOB_STATUSES.map((status, index) => [status, counts[index]])) as Record<JobStatus, number>
+    };
+  }
+
+  /**
+   * Delay before the next attempt: retryBaseDelay doubled per attempt already made, capped at retryMaxDelay
+   */
+  getRetryDelay(attempts: number): number {
+    return Math.min(this.options.retryBaseDelay * Math.pow(2, Math.max(0, attempts - 1)), this.options.retryMaxDelay);
+  }
+
+  private types(): JobType[] {
+    return [...this.handlers.keys()];
+  }
+
+  /**
+   * Poll right away instead of waiting for the timer, e.g. after a job was queued or a slot freed up
+   */
+  private wake(): void {
+    if (this.running) {
+      setImmediate(() => this.poll());
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (!this.running || this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    if (this.pollTimer) {
+      clearTimeout(this.pollTimer);
+      this.pollTimer = null;
+    }
+
+    try {
+      const now = Date.now();
+
+      for (const job of await this.backend.reclaimExpired(now)) {
+        logger.warn(`⚠️ Lease expired for ${job.type} job ${job.id}, reclaiming it`);
+        await this.settleFailure(job, new Error('Job lease expired before it finished'));
+      }
+
+      for (const [type, registered] of this.handlers) {
+        while (this.running && registered.running < registered.concurrency && this.processing < this.options.concurrency) {
+          const job = await this.backend.claim(type, Date.now(), Date.now() + registered.leaseMs);
+          if (!job) {
+            break;
+          }
+          void this.process(job, registered);
+        }
+      }
+    } catch (error) {
+      logger.error('❌ Job queue poll failed:', error);
+    } finally {
+      this.polling = false;
+      if (this.running) {
+        this.pollTimer = setTimeout(() => this.poll(), this.options.pollInterval);
+        this.pollTimer.unref();
+      }
+    }
+  }
+
+  /**
+   * Renew a job's lease every third of it until stopped - the returned signal is aborted when the lease is lost
+   */
+  private keepLease(job: Job, leaseMs: number): { signal: AbortSignal; stop: () => void } {
+    const controller = new AbortController();
+    const heartbeat = setInterval(async () => {
+      try {
+        const renewed = await this.backend.renewLease(job.id, Date.now() + leaseMs);
+        if (!renewed && !controller.signal.aborted) {
+          logger.warn(`⚠️ Lost the lease of ${job.type} job ${job.id}`);
+          controller.abort(new Error('Job lease lost'));
+        }
+      } catch (error) {
+        // The lease may still be valid, the next beat tries again
+        logger.warn(`⚠️ Could not renew the lease of ${job.type} job ${job.id}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }, Math.floor(leaseMs / 3));
+    heartbeat.unref();
+
+    return { signal: controller.signal, stop: () => clearInterval(heartbeat) };
+  }
+
+  private async process(job: Job, registered: RegisteredHandler): Promise<void> {
+    registered.running += 1;
+    this.processing += 1;
+    const lease = this.keepLease(job, registered.leaseMs);
+
+    try {
+      let result: unknown;
+      try {
+        result = await registered.handler(job.payload, job, lease.signal);
+      } catch (error) {
+        lease.stop();
+        if (lease.signal.aborted) {
+          logger.warn(`⚠️ ${job.type} job ${job.id} stopped after losing its lease`);
+          return;
+        }
+
+        await this.settleFailure(job, error).catch(updateError => {
+          logger.error(`❌ Could not record failure of ${job.type} job ${job.id}:`, updateError);
+        });
+        return;
+      }
+      lease.stop();
+
+      // The job was reclaimed and settled as failed, its next attempt must not be overwritten
+      if (lease.signal.aborted) {
+        logger.warn(`⚠️ Discarding the result of ${job.type} job ${job.id}, its lease was lost`);
+        return;
+      }
+
+      const now = new Date().toISOString();
+
+      // Only logged - settling it as failed would run a handler that already succeeded again
+      try {
+        await this.backend.update({
+          ...job,
+          status: 'completed',
+          result: result ?? null,
+          updatedAt: now,
+          finishedAt: now
+        } as Job);
+      } catch (updateError) {
+        logger.error(`❌ Could not record completion of ${job.type} job ${job.id}:`, updateError);
+        return;
+      }
+
+      logger.debug(`Completed ${job.type} job ${job.id} (attempt ${job.attempts})`);
+    } finally {
+      registered.running -= 1;
+      this.processing -= 1;
+      this.events.emit(`finished:${job.id}`);
+      this.wake();
+    }
+  }
+
+  /**
+   * Schedule the next attempt, or move the job to the dead-letter list when it is out of attempts
+   */
+  private async settleFailure(job: Job, error: unknown): Promise<void> {
+    const message = error instanceof Error ? error.message : String(error);
+    const permanent = error instanceof PermanentJobError;
+    const now = new Date();
+
+    if (permanent || job.attempts >= job.maxAttempts) {
+      await this.backend.update({
+        ...job,
+        status: 'dead',
+        lastError: message,
+        updatedAt: now.toISOString(),
+        finishedAt: now.toISOString()
+      });
+      logger.error(`💀 ${job.type} job ${job.id} failed after ${job.attempts} attempt(s): ${message}`);
+      return;
+    }
+
+    const delay = this.getRetryDelay(job.attempts);
+    await this.backend.update({
+      ...job,
+      status: 'waiting',
+      lastError: message,
+      runAt: new Date(now.getTime() + delay).toISOString(),
+      updatedAt: now.toISOString()
+    });
+    logger.warn(`⚠️ ${job.type} job ${job.id} failed (attempt ${job.attempts}/${job.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Memory Job Backend
+ * In-process JobBackend used when Redis is disabled - jobs are lost on restart and not shared between instances
+ */
+
+import { Job, JobStatus, JobType } from '../types';
+import { COMPLETED_JOB_LIMIT, DEAD_JOB_LIMIT, JobBackend, isFinished } from './jobBackend';
+
+export class MemoryJobBackend implements JobBackend {
+  readonly name = 'memory' as const;
+
+  private jobs: Map<string, Job> = new Map();
+  private leases: Map<string, number> = new Map();
+  private dedupe: Map<string, string> = new Map();
+  /** Newest first */
+  private completed: string[] = [];
+  private dead: string[] = [];
+
+  async connect(): Promise<void> {
+    // Nothing to connect
+  }
+
+  async add(job: Job): Promise<Job> {
+    if (job.dedupeKey) {
+      const existing = this.jobs.get(this.dedupe.get(job.dedupeKey) || '');
+      if (existing && !isFinished(existing)) {
+        return this.copy(existing);
+      }
+      this.dedupe.set(job.dedupeKey, job.id);
+    }
+
+    this.jobs.set(job.id, this.copy(job));
+    return job;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const job = this.jobs.get(id);
+    return job ? this.copy(job) : null;
+  }
+
+  async claim(type: JobType, now: number, leaseUntil: number): Promise<Job | null> {
+    let next: Job | null = null;
+    for (const job of this.jobs.values()) {
+      const due = job.type === type && job.status === 'waiting' && Date.parse(job.runAt) <= now;
+      if (due && (!next || Date.parse(job.runAt) < Date.parse(next.runAt))) {
+        next = job;
+      }
+    }
+
+    if (!next) {
+      return null;
+    }
+
+    next.status = 'active';
+    next.attempts += 1;
+    next.updatedAt = new Date(now).toISOString();
+    this.leases.set(next.id, leaseUntil);
+    return this.copy(next);
+  }
+
+  async update(job: Job): Promise<void> {
+    this.jobs.set(job.id, this.copy(job));
+    this.leases.delete(job.id);
+
+    if (!isFinished(job)) {
+      return;
+    }
+
+    if (job.dedupeKey && this.dedupe.get(job.dedupeKey) === job.id) {
+      this.dedupe.delete(job.dedupeKey);
+    }
+
+    if (job.status === 'completed') {
+      this.completed = this.pushCapped(this.completed, job.id, COMPLETED_JOB_LIMIT);
+    } else {
+      this.dead = this.pushCapped(this.dead, job.id, DEAD_JOB_LIMIT);
+    }
+  }
+
+  async revive(job: Job): Promise<void> {
+    this.dead = this.dead.filter(id => id !== job.id);
+    if (job.dedupeKey) {
+      this.dedupe.set(job.dedupeKey, job.id);
+    }
+    this.jobs.set(job.id, this.copy(job));
+  }
+
+  async renewLease(id: string, leaseUntil: number): Promise<boolean> {
+    if (!this.leases.has(id)) {
+      return false;
+    }
+    this.leases.set(id, leaseUntil);
+    return true;
+  }
+
+  async reclaimExpired(now: number): Promise<Job[]> {
+    const expired: Job[] = [];
+    for (const [id, leaseUntil] of this.leases) {
+      const job = this.jobs.get(id);
+      if (leaseUntil <= now && job) {
+        this.leases.delete(id);
+        expired.push(this.copy(job));
+      }
+    }
+    return expired;
+  }
+
+  async list(status: JobStatus, types: JobType[], limit: number): Promise<Job[]> {
+    const indexed = { completed: this.completed, dead: this.dead }[status as 'completed' | 'dead'];
+    const jobs = indexed
+      ? indexed.map(id => this.jobs.get(id)).filter((job): job is Job => Boolean(job))
+      : [...this.jobs.values()]
+        .filter(job => job.status === status)
+        .sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+
+    return jobs
+      .filter(job => status !== 'waiting' || types.includes(job.type))
+      .slice(0, limit)
+      .map(job => this.copy(job));
+  }
+
+  async count(status: JobStatus, types: JobType[]): Promise<number> {
+    return [...this.jobs.values()]
+      .filter(job => job.status === status && (status !== 'waiting' || types.includes(job.type)))
+      .length;
+  }
+
+  /**
+   * Prepend an id and forget jobs that fall off the end
+   */
+  private pushCapped(ids: string[], id: string, limit: number): string[] {
+    const next = [id, ...ids.filter(existing => existing !== id)];
+    for (const dropped of next.slice(limit)) {
+      this.jobs.delete(dropped);
+    }
+    return next.slice(0, limit);
+  }
+
+  /**
+   * Callers get copies so they cannot change stored jobs without update()
+   */
+  private copy(job: Job): Job {
+    return JSON.parse(JSON.stringify(job)) as Job;
+  }
+}
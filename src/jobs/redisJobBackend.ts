@@ -0,0 +1,213 @@
+/**
+ * Redis Job Backend
+ * JobBackend shared by all instances - jobs as JSON keys, a sorted set of waiting jobs per type
+ * (scored by run time), a sorted set of active leases and capped lists of completed and dead jobs
+ */
+
+import { RedisCache } from '../utils/redisCache';
+import { Job, JobStatus, JobType } from '../types';
+import { COMPLETED_JOB_LIMIT, DEAD_JOB_LIMIT, JobBackend, isFinished } from './jobBackend';
+
+const JobKeys = {
+  job: (id: string) => `job:${id}`,
+  waiting: (type: JobType) => `jobs:waiting:${type}`,
+  active: () => 'jobs:active',
+  completed: () => 'jobs:completed',
+  dead: () => 'jobs:dead',
+  dedupe: (key: string) => `jobs:dedupe:${key}`
+};
+
+/** Seconds finished jobs are kept - ids trimmed off the lists expire on their own */
+const COMPLETED_JOB_TTL = 24 * 60 * 60;
+const DEAD_JOB_TTL = 7 * 24 * 60 * 60;
+
+// Pop the earliest due job id and lease it, so two instances never claim the same job
+const CLAIM_SCRIPT = `
+local ids = redis.call('zrangebyscore', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, 1)
+if #ids == 0 then
+  return false
+end
+redis.call('zrem', KEYS[1], ids[1])
+redis.call('zadd', KEYS[2], ARGV[2], ids[1])
+return ids[1]
+`;
+
+// Only extend leases still held - a reclaimed job is no longer in the active set
+const RENEW_LEASE_SCRIPT = `
+if redis.call('zscore', KEYS[1], ARGV[1]) then
+  redis.call('zadd', KEYS[1], ARGV[2], ARGV[1])
+  return 1
+end
+return 0
+`;
+
+const DELETE_IF_EQUALS_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0
+`;
+
+export class RedisJobBackend implements JobBackend {
+  readonly name = 'redis' as const;
+
+  constructor(private redis: RedisCache) {}
+
+  async connect(): Promise<void> {
+    await this.redis.connect();
+  }
+
+  async add(job: Job): Promise<Job> {
+    const client = this.redis.getClient();
+
+    if (job.dedupeKey) {
+      const reserved = await client.set(JobKeys.dedupe(job.dedupeKey), job.id, 'NX');
+      if (reserved !== 'OK') {
+        const existingId = await client.get(JobKeys.dedupe(job.dedupeKey));
+        const existing = existingId ? await this.get(existingId) : null;
+        if (existing && !isFinished(existing)) {
+          return existing;
+        }
+        await client.set(JobKeys.dedupe(job.dedupeKey), job.id);
+      }
+    }
+
+    await client
+      .multi()
+      .set(JobKeys.job(job.id), JSON.stringify(job))
+      .zadd(JobKeys.waiting(job.type), Date.parse(job.runAt), job.id)
+      .exec();
+
+    return job;
+  }
+
+  async get(id: string): Promise<Job | null> {
+    const value = await this.redis.getClient().get(JobKeys.job(id));
+    return value ? JSON.parse(value) as Job : null;
+  }
+
+  async claim(type: JobType, now: number, leaseUntil: number): Promise<Job | null> {
+    const client = this.redis.getClient();
+    const id = await client.eval(CLAIM_SCRIPT, 2, JobKeys.waiting(type), JobKeys.active(), now, leaseUntil) as string | null;
+    if (!id) {
+      return null;
+    }
+
+    const job = await this.get(id);
+    if (!job) {
+      await client.zrem(JobKeys.active(), id);
+      return null;
+    }
+
+    job.status = 'active';
+    job.attempts += 1;
+    job.updatedAt = new Date(now).toISOString();
+    await client.set(JobKeys.job(id), JSON.stringify(job));
+    return job;
+  }
+
+  async update(job: Job): Promise<void> {
+    const multi = this.redis.getClient().multi().zrem(JobKeys.active(), job.id);
+
+    if (job.status === 'completed') {
+      multi
+        .set(JobKeys.job(job.id), JSON.stringify(job), 'EX', COMPLETED_JOB_TTL)
+        .lpush(JobKeys.completed(), job.id)
+        .ltrim(JobKeys.completed(), 0, COMPLETED_JOB_LIMIT - 1);
+    } else if (job.status === 'dead') {
+      multi
+        .set(JobKeys.job(job.id), JSON.stringify(job), 'EX', DEAD_JOB_TTL)
+        .lpush(JobKeys.dead(), job.id)
+        .ltrim(JobKeys.dead(), 0, DEAD_JOB_LIMIT - 1);
+    } else {
+      multi
+        .set(JobKeys.job(job.id), JSON.stringify(job))
+        .zadd(JobKeys.waiting(job.type), Date.parse(job.runAt), job.id);
+    }
+
+    if (isFinished(job) && job.dedupeKey) {
+      multi.eval(DELETE_IF_EQUALS_SCRIPT, 1, JobKeys.dedupe(job.dedupeKey), job.id);
+    }
+
+    await multi.exec();
+  }
+
+  async revive(job: Job): Promise<void> {
+    const multi = this.redis.getClient()
+      .multi()
+      .lrem(JobKeys.dead(), 0, job.id)
+      .set(JobKeys.job(job.id), JSON.stringify(job))
+      .zadd(JobKeys.waiting(job.type), Date.parse(job.runAt), job.id);
+
+    if (job.dedupeKey) {
+      multi.set(JobKeys.dedupe(job.dedupeKey), job.id);
+    }
+
+    await multi.exec();
+  }
+
+  async renewLease(id: string, leaseUntil: number): Promise<boolean> {
+    return await this.redis.getClient().eval(RENEW_LEASE_SCRIPT, 1, JobKeys.active(), id, leaseUntil) === 1;
+  }
+
+  async reclaimExpired(now: number): Promise<Job[]> {
+    const client = this.redis.getClient();
+    const ids = await client.zrangebyscore(JobKeys.active(), '-inf', now);
+    const reclaimed: Job[] = [];
+
+    for (const id of ids) {
+      // Only the instance whose ZREM succeeds takes the job over
+      if (await client.zrem(JobKeys.active(), id) === 1) {
+        const job = await this.get(id);
+        if (job) {
+          reclaimed.push(job);
+        }
+      }
+    }
+
+    return reclaimed;
+  }
+
+  async list(status: JobStatus, types: JobType[], limit: number): Promise<Job[]> {
+    const client = this.redis.getClient();
+    let ids: string[];
+
+    if (status === 'waiting') {
+      const perType = await Promise.all(types.map(type => client.zrange(JobKeys.waiting(type), 0, limit - 1)));
+      ids = perType.flat();
+    } else if (status === 'active') {
+      ids = await client.zrange(JobKeys.active(), 0, limit - 1);
+    } else {
+      ids = await client.lrange(status === 'completed' ? JobKeys.completed() : JobKeys.dead(), 0, limit - 1);
+    }
+
+    if (ids.length === 0) {
+      return [];
+    }
+
+    const jobs = (await client.mget(ids.map(JobKeys.job)))
+      .filter((value): value is string => Boolean(value))
+      .map(value => JSON.parse(value) as Job);
+
+    if (status === 'waiting') {
+      jobs.sort((a, b) => Date.parse(a.runAt) - Date.parse(b.runAt));
+    }
+
+    return jobs.slice(0, limit);
+  }
+
+  async count(status: JobStatus, types: JobType[]): Promise<number> {
+    const client = this.redis.getClient();
+
+    if (status === 'waiting') {
+      const counts = await Promise.all(types.map(type => client.zcard(JobKeys.waiting(type))));
+      return counts.reduce((sum, count) => sum + count, 0);
+    }
+
+    if (status === 'active') {
+      return client.zcard(JobKeys.active());
+    }
+
+    return client.llen(status === 'completed' ? JobKeys.completed() : JobKeys.dead());
+  }
+}
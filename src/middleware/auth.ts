@@ -0,0 +1,46 @@
+/**
+ * Authentication Middleware
+ * API key protection for admin endpoints
+ */
+
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config';
+import { ErrorTypes } from './errorHandler';
+
+/**
+ * Read the API key from `Authorization: Bearer <key>` or `X-API-Key`
+ */
+function getRequestApiKey(req: Request): string | null {
+  const authorization = req.get('Authorization');
+  if (authorization && authorization.startsWith('Bearer ')) {
+    return authorization.slice('Bearer '.length).trim();
+  }
+
+  return req.get('X-API-Key') || null;
+}
+
+/**
+ * Constant-time comparison so the key cannot be guessed from response timing
+ */
+function keysMatch(provided: string, expected: string): boolean {
+  const a = crypto.createHash('sha256').update(provided).digest();
+  const b = crypto.createHash('sha256').update(expected).digest();
+  return crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Require the admin API key - the admin API is disabled when ADMIN_API_KEY is not set
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (!config.admin.apiKey) {
+    return next(ErrorTypes.SERVICE_UNAVAILABLE('Admin API is disabled (ADMIN_API_KEY is not set)'));
+  }
+
+  const apiKey = getRequestApiKey(req);
+  if (!apiKey || !keysMatch(apiKey, config.admin.apiKey)) {
+    return next(ErrorTypes.UNAUTHORIZED('Invalid or missing admin API key'));
+  }
+
+  next();
+}
@@ -11,7 +11,6 @@ import { config, validateConfig } from '../config';
 import { RentmanApiClient } from '../client/RentmanApiClient';
 import { RentmanApiConfig } from '../types';
 import { logger, serverLogger } from '../utils/logger';
-import { cache, CacheKeys } from '../utils/cache';
 import { rateLimit, ipRateLimit } from '../middleware/rateLimiter';
 import { 
   errorHandler, 
@@ -24,8 +23,9 @@ import {
   metricsMiddleware, 
   initializeHealthMonitor 
 } from '../middleware/healthCheck';
-import { cloudinaryService } from '../utils/cloudinaryService';
 import { PropertySyncService } from '../services/propertySyncService';
+import { scheduleImageCleanup } from '../services/imageLibrary';
+import { snapshotStore } from '../utils/snapshotStore';
 
 // Validate configuration
 try {
@@ -41,12 +41,17 @@ import mediaRoutes from './routes/media';
 import searchRoutes from './routes/search';
 import blogRoutes from './routes/blogs';
 import contentRoutes from './routes/content';
+import adminRoutes from './routes/admin';
+import imageRoutes, { imageUploadGuard } from './routes/images';
+import { jobQueue } from '../jobs';
+import { createImageUploadHandler } from '../jobs/handlers/imageUpload';
+import { createMediaRefreshHandler } from '../jobs/handlers/mediaRefresh';
+import { createImageCleanupHandler } from '../jobs/handlers/imageCleanup';
 
 export class RentmanServer {
   private app: express.Application;
   private client: RentmanApiClient;
   private port: number;
-  private uploadingImages: Map<string, Promise<Record<string, string>>> = new Map();
   private syncService: PropertySyncService;
 
   constructor() {
@@ -68,6 +73,11 @@ export class RentmanServer {
     
     // Initialize property sync service
     this.syncService = new PropertySyncService(this.client);
+    jobQueue.register('image.upload', createImageUploadHandler(this.client), { concurrency: 2, maxAttempts: 3 });
+    // Each refresh downloads every image of a property as base64, keep it to one at a time
+    jobQueue.register('media.refresh', createMediaRefreshHandler(this.client), { concurrency: 1, maxAttempts: 3 });
+    // A run walks the whole image folder, never two at once
+    jobQueue.register('images.cleanup', createImageCleanupHandler(), { concurrency: 1, maxAttempts: 2 });
     
     this.setupMiddleware();
     this.setupRoutes();
@@ -86,9 +96,14 @@ export class RentmanServer {
       origin: config.server.corsOrigin,
       credentials: true,
       methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Request-ID']
+      allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'X-Request-ID', 'X-API-Key'],
+      exposedHeaders: ['X-Request-ID', 'X-Data-Source', 'X-Data-Age', 'X-Data-Last-Sync', 'X-Data-Stale']
     }));
 
+    // Image uploads and replacements are authenticated before their (larger) body is parsed
+    this.app.post('/api/images/upload', imageUploadGuard());
+    this.app.put('/api/admin/images/:filename', imageUploadGuard());
+
     // Body parsing
     this.app.use(express.json({ limit: '10mb' }));
     this.app.use(express.urlencoded({ extended: true, limit: '10mb' }));
@@ -135,196 +150,8 @@ export class RentmanServer {
     this.app.use('/api/search', searchRoutes(this.client));
     this.app.use('/api/blogs', blogRoutes());
     this.app.use('/api/content', contentRoutes());
-
-    // Image serving route with dynamic Cloudinary fetching
-    this.app.get('/api/images/:filename', asyncHandler(async (req: any, res: any) => {
-      const { filename } = req.params;
-      const { size } = req.query;
-      
-      // Log request for debugging
-      console.log(`📸 Image request: ${filename}, size: ${size || 'default'}`);
-      
-      try {
-        // Extract size from filename or query parameter (e.g., image_thumb.webp -> thumb)
-        let imageSize = size as string || 'medium';
-        const sizeMatch = filename.match(/_(\w+)\./);
-        if (sizeMatch) {
-          imageSize = sizeMatch[1];
-        }
-        
-        // Extract base filename without size suffix
-        const baseFilename = filename.replace(/_\w+\./, '.');
-        const baseNameWithoutExt = baseFilename.replace(/\.[^/.]+$/, '');
-        // Ensure publicId doesn't include version prefix
-        const publicId = `${config.cloudinary.folder}/${baseNameWithoutExt}`.replace(/^v\d+\//, '');
-        
-        console.log(`🔍 Looking for image: publicId=${publicId}, baseFilename=${baseFilename}`);
-        
-        // Check cache first - avoid unnecessary Cloudinary API calls
-        const cacheKey = CacheKeys.image(baseFilename, imageSize);
-        const cachedUrl = cache.get<string>(cacheKey);
-        
-        if (cachedUrl) {
-          console.log(`✅ Image found in cache: ${filename}`);
-          return res.redirect(302, cachedUrl);
-        }
-        
-        // Check if image exists in Cloudinary first
-        // Note: uploadMultipleSizes now uploads the original image (no suffix), transformations applied on-the-fly
-        try {
-          const imageInfo = await cloudinaryService.getImageInfo(publicId);
-          const version = imageInfo.version?.toString() || undefined;
-          
-          // Generate Cloudinary URL with transformations (including version)
-          const imageUrl = cloudinaryService.generateSizeUrl(
-            publicId, 
-            imageSize as 'thumb' | 'medium' | 'large' | 'original',
-            version
-          );
-          
-          console.log(`✅ Image found in Cloudinary: ${filename} (version: ${version})`);
-          
-          // Cache the URL for 1 hour (matching nginx cache TTL)
-          cache.set(cacheKey, imageUrl, 3600);
-          
-          // Redirect to Cloudinary URL
-          res.redirect(302, imageUrl);
-          
-        } catch (cloudinaryError) {
-          // Log the error for debugging
-          console.log(`⚠️ Cloudinary check failed for ${publicId}:`, cloudinaryError instanceof Error ? cloudinaryError.message : cloudinaryError);
-          console.log(`❌ Image ${filename} not found in Cloudinary, fetching from Rentman API...`);
-          
-          try {
-            // Check if this image is already being uploaded
-            const uploadKey = baseFilename;
-            
-            // Check and atomically acquire lock - if another request already started, wait for it
-            let uploadPromise = this.uploadingImages.get(uploadKey);
-            
-            if (uploadPromise) {
-              console.log(`⏳ Image ${filename} is already being uploaded, waiting for completion...`);
-              const cloudinaryResults = await uploadPromise;
-              const imageUrl = cloudinaryResults[imageSize] || cloudinaryResults['medium'];
-              return res.redirect(302, imageUrl);
-            }
-            
-            // No upload in progress - create new upload promise and acquire lock atomically
-            console.log(`🔒 Acquiring upload lock for ${filename}...`);
-            uploadPromise = (async () => {
-              // Fetch image from Rentman API
-              const mediaResponse = await this.client.getPropertyMedia({ 
-                filename: baseFilename 
-              });
-              
-              if (mediaResponse.data.length === 0) {
-                throw new Error(`Image ${filename} not found in Rentman API`);
-              }
-              
-              const media = mediaResponse.data[0];
-              
-              if (!media.base64data) {
-                throw new Error(`No base64 data for image ${filename}`);
-              }
-              
-              console.log(`📥 Fetched image ${filename} from Rentman API, uploading to Cloudinary...`);
-              
-              // Upload to Cloudinary with multiple sizes (returns URLs with proper versions)
-              const cloudinaryResults = await cloudinaryService.uploadMultipleSizes(
-                media.base64data,
-                baseFilename
-              );
-              
-              console.log(`✅ Uploaded ${filename} to Cloudinary successfully`);
-              
-              // Cache all size URLs for 1 hour (matching nginx cache TTL)
-              Object.entries(cloudinaryResults).forEach(([size, url]) => {
-                const sizeCacheKey = CacheKeys.image(baseFilename, size);
-                cache.set(sizeCacheKey, url as string, 3600);
-              });
-              
-              return cloudinaryResults;
-            })();
-            
-            // Store the promise IMMEDIATELY to prevent race conditions
-            this.uploadingImages.set(uploadKey, uploadPromise);
-            console.log(`✅ Upload lock acquired for ${filename}`);
-            
-            try {
-              const cloudinaryResults = await uploadPromise;
-              const imageUrl = cloudinaryResults[imageSize] || cloudinaryResults['medium'];
-              res.redirect(302, imageUrl);
-            } finally {
-              // Clean up after upload completes (success or failure)
-              this.uploadingImages.delete(uploadKey);
-              console.log(`🔓 Upload lock released for ${filename}`);
-            }
-            
-          } catch (rentmanError) {
-            console.error(`❌ Failed to fetch image ${filename} from Rentman API:`, rentmanError);
-            
-            // Log full error details for debugging
-            if (rentmanError instanceof Error) {
-              console.error(`Error message: ${rentmanError.message}`);
-              console.error(`Error stack: ${rentmanError.stack}`);
-            }
-            
-            res.status(404).json({
-              success: false,
-              message: `Image ${filename} not found in Rentman API`,
-              details: rentmanError instanceof Error ? rentmanError.message : String(rentmanError),
-              timestamp: new Date().toISOString()
-            });
-          }
-        }
-        
-      } catch (error) {
-        console.error(`❌ Error serving image ${filename}:`, error);
-        if (error instanceof Error) {
-          console.error(`Error message: ${error.message}`);
-          console.error(`Error stack: ${error.stack}`);
-        }
-        res.status(500).json({
-          success: false,
-          message: `Failed to serve image ${filename}`,
-          details: error instanceof Error ? error.message : String(error),
-          timestamp: new Date().toISOString()
-        });
-      }
-    }));
-
-    // Image upload route to Cloudinary
-    this.app.post('/api/images/upload', asyncHandler(async (req: any, res: any) => {
-      try {
-        const { base64Data, filename } = req.body;
-        
-        if (!base64Data || !filename) {
-          return res.status(400).json({
-            success: false,
-            message: 'base64Data and filename are required',
-            timestamp: new Date().toISOString()
-          });
-        }
-        
-        // Upload to Cloudinary
-        const results = await cloudinaryService.uploadMultipleSizes(base64Data, filename);
-        
-        res.json({
-          success: true,
-          data: results,
-          message: 'Image uploaded successfully to Cloudinary',
-          timestamp: new Date().toISOString()
-        });
-        
-      } catch (error) {
-        console.error('Error uploading image to Cloudinary:', error);
-        res.status(500).json({
-          success: false,
-          message: 'Failed to upload image to Cloudinary',
-          timestamp: new Date().toISOString()
-        });
-      }
-    }));
+    this.app.use('/api/admin', adminRoutes(this.syncService, this.client));
+    this.app.use('/api/images', imageRoutes());
 
     // Root endpoint
     this.app.get('/', (req, res) => {
@@ -381,13 +208,28 @@ export class RentmanServer {
         });
       });
 
-      // Start property sync service
+      // The snapshot store also holds the image asset registry, so connect it even when sync is disabled
+      try {
+        await snapshotStore.connect();
+      } catch (error) {
+        logger.error('❌ Failed to connect to the snapshot store, image assets will not be registered:', error);
+      }
+
+      // Start background jobs and the property sync service
+      try {
+        await jobQueue.start();
+      } catch (error) {
+        logger.error('❌ Job queue failed to start, image uploads will not be processed:', error);
+      }
       await this.syncService.start();
+      const imageCleanupTask = scheduleImageCleanup();
 
       // Graceful shutdown
       process.on('SIGTERM', () => {
         serverLogger.info('SIGTERM received, shutting down gracefully');
         this.syncService.stop();
+        imageCleanupTask?.stop();
+        jobQueue.stop();
         server.close(() => {
           logger.info('Server closed');
           process.exit(0);
@@ -397,6 +239,8 @@ export class RentmanServer {
       process.on('SIGINT', () => {
         serverLogger.info('SIGINT received, shutting down gracefully');
         this.syncService.stop();
+        imageCleanupTask?.stop();
+        jobQueue.stop();
         server.close(() => {
           logger.info('Server closed');
           process.exit(0);
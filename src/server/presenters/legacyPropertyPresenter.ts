@@ -0,0 +1,98 @@
+/**
+ * Legacy Property Presenter
+ * The raw Rentman record shape served before the versioned DTOs, kept for existing clients during the
+ * deprecation window. Clients opt in with ?v=0 or an X-API-Version: 0 header.
+ */
+
+import { Request, Response } from 'express';
+import {
+  LegacyPropertyDto,
+  LegacyPropertyImagesDto,
+  LegacyPropertySearchDto,
+  PropertyAdvertising,
+  PropertySearchResult
+} from '../../types';
+import { extractEpcAndTaxBand, extractPhotos } from '../../utils/propertyNormalizer';
+import { formatStatus } from '../../utils/formatters';
+import { imageUrl } from '../../images/responsive';
+
+/**
+ * Schema version of the legacy shape, as requested with ?v= or X-API-Version
+ */
+export const LEGACY_DTO_VERSION = '0';
+
+/**
+ * Whether the request asks for the legacy property shape
+ */
+export function wantsLegacyProperties(req: Request): boolean {
+  return req.query.v === LEGACY_DTO_VERSION || req.get('X-API-Version') === LEGACY_DTO_VERSION;
+}
+
+/**
+ * Mark a legacy response as deprecated - the same URL without ?v=0 serves the versioned DTOs
+ */
+export function setLegacyHeaders(res: Response): void {
+  res.set('Deprecation', 'true');
+}
+
+/**
+ * Images object built from the photo fields, as the API returned it before the versioned DTOs
+ */
+export function presentLegacyImages(property: PropertyAdvertising): LegacyPropertyImagesDto {
+  const photos = extractPhotos(property);
+  const images: LegacyPropertyImagesDto = {
+    main: null,
+    gallery: [],
+    thumbnails: []
+  };
+
+  if (photos.length > 0) {
+    images.main = { url: imageUrl(photos[0]), alt: 'Property Image 1', width: 1200, height: 800 };
+
+    images.gallery = photos.map((photo, index) => ({
+      url: imageUrl(photo),
+      alt: `Property Image ${index + 1}`,
+      width: 1200,
+      height: 800,
+      thumbnail: imageUrl(photo, { width: 300, height: 200, fit: 'crop' })
+    }));
+
+    images.thumbnails = photos.map((photo, index) => ({
+      url: imageUrl(photo, { width: 300, height: 200, fit: 'crop' }),
+      alt: `Property Image ${index + 1} thumbnail`,
+      width: 300,
+      height: 200
+    }));
+  }
+
+  if (property.floorplan && property.floorplan.trim()) {
+    const floorplan = imageUrl(property.floorplan);
+    images.floorplan = { thumb: floorplan, medium: floorplan, large: floorplan, original: floorplan };
+  }
+
+  return images;
+}
+
+/**
+ * Raw record with the display status, EPC and tax band from its bullets, and the images object
+ */
+export function presentLegacyProperty(property: PropertyAdvertising): LegacyPropertyDto {
+  return {
+    ...property,
+    ...extractEpcAndTaxBand(property),
+    STATUS: formatStatus(property.STATUS),
+    geolocation: property.geolocation || '',
+    images: presentLegacyImages(property)
+  };
+}
+
+/**
+ * Search response body with the page's records in the legacy shape
+ */
+export function presentLegacySearchResults(result: PropertySearchResult): LegacyPropertySearchDto {
+  return {
+    properties: result.records.map(presentLegacyProperty),
+    pagination: result.pagination,
+    filters: result.filters
+  };
+}
@@ -0,0 +1,28 @@
+/**
+ * Media Presenter
+ * Builds the public media DTOs - links to the raw bytes instead of inline base64
+ */
+
+import { PropertyMedia, PropertyMediaDto } from '../../types';
+import { detectBase64ImageFormat } from '../../utils/imageFormat';
+
+/**
+ * URL of the raw bytes of a media item
+ */
+export function mediaRawUrl(item: Pick<PropertyMedia, 'propref' | 'filename'>): string {
+  return `/api/media/${encodeURIComponent(item.propref)}/${encodeURIComponent(item.filename)}/raw`;
+}
+
+/**
+ * Media DTO - base64data is only kept when explicitly requested
+ */
+export function presentPropertyMedia(item: PropertyMedia, includeData: boolean = false): PropertyMediaDto {
+  const { base64data, ...metadata } = item;
+
+  return {
+    ...metadata,
+    url: mediaRawUrl(item),
+    contentType: base64data ? detectBase64ImageFormat(base64data)?.contentType ?? null : null,
+    ...(includeData && { base64data })
+  };
+}
@@ -0,0 +1,237 @@
+/**
+ * Property Presenter
+ * Builds the public property DTOs so every endpoint returns the same shape
+ */
+
+import {
+  ImageAsset,
+  PropertyAdvertising,
+  NormalizedProperty,
+  PropertyCardDto,
+  PropertyDetailDto,
+  PropertyImagesDto,
+  PropertyMediaMetadata,
+  PropertySearchDto,
+  PropertySearchResult
+} from '../../types';
+import { normalizeProperty } from '../../utils/propertyNormalizer';
+import { buildGallery } from '../../utils/propertyGallery';
+import { imageService, statusBanner } from '../../images';
+import {
+  ResponsiveSource,
+  SourceOptions,
+  imageUrl,
+  naturalSources,
+  responsiveSources,
+  toSrcset
+} from '../../images/responsive';
+
+/**
+ * Version of the property DTO schema, returned as `schemaVersion` on every property
+ */
+export const PROPERTY_DTO_VERSION = 1;
+
+// 3:2 photos - every width lands on the transformation grid
+const PHOTO_ASPECT = { width: 3, height: 2 };
+const GALLERY_WIDTHS = [300, 600, 900, 1200, 1500, 1800];
+const GALLERY_DEFAULT_WIDTH = 1200;
+const GALLERY_SIZES = '(max-width: 1200px) 100vw, 1200px';
+const THUMBNAIL_WIDTHS = [300, 600];
+const THUMBNAIL_SIZES = '300px';
+
+/**
+ * Stored images by Rentman filename - photos found here report their real dimensions and placeholder
+ */
+export type ImageAssetLookup = ReadonlyMap<string, ImageAsset>;
+
+const NO_ASSETS: ImageAssetLookup = new Map();
+
+/**
+ * Registered assets of the properties' photos, and of any media items not listed in their photo fields
+ */
+export async function loadImageAssets(
+  properties: NormalizedProperty[],
+  media: PropertyMediaMetadata[] = []
+): Promise<ImageAssetLookup> {
+  return imageService.assets([
+    ...properties.flatMap(property => property.photos),
+    ...media.map(item => item.filename)
+  ]);
+}
+
+/**
+ * Gallery sources - the photo's own aspect ratio when its dimensions are known, 3:2 crops otherwise
+ */
+function gallerySources(photo: string, asset: ImageAsset | undefined, options: SourceOptions): ResponsiveSource[] {
+  if (asset?.width && asset.height) {
+    return naturalSources(photo, { width: asset.width, height: asset.height }, GALLERY_WIDTHS, options);
+  }
+  return responsiveSources(photo, PHOTO_ASPECT, GALLERY_WIDTHS, options);
+}
+
+/**
+ * Build the images object from the property photo fields, ordered and captioned by its media metadata when cached.
+ * The main photo carries the status banner (IMAGE_STATUS_BANNERS) - the status is in its URLs, so a status change
+ * is a new image rather than a stale cached one. Stored photos carry their version for the same reason.
+ */
+export function presentPropertyImages(
+  property: NormalizedProperty,
+  assets: ImageAssetLookup = NO_ASSETS,
+  media: PropertyMediaMetadata[] = []
+): PropertyImagesDto {
+  const images: PropertyImagesDto = {
+    main: null,
+    gallery: [],
+    thumbnails: [],
+    floorplan: null,
+    epc: null
+  };
+
+  const gallery = buildGallery(property, media);
+  const photos = gallery.photos.map(item => item.filename);
+  const banner = statusBanner(property.status);
+  const sourceOptions = (photo: string, index: number): SourceOptions => ({
+    banner: index === 0 && banner ? banner : undefined,
+    version: assets.get(photo)?.version
+  });
+
+  if (photos.length > 0) {
+    images.gallery = photos.map((photo, index) => {
+      const sources = gallerySources(photo, assets.get(photo), sourceOptions(photo, index));
+      // Largest source up to the default width (small originals only have one)
+      const fallback = sources.filter(source => source.width <= GALLERY_DEFAULT_WIDTH).pop() || sources[0];
+
+      return {
+        url: fallback.url,
+        alt: gallery.photos[index].caption || `Property Image ${index + 1}`,
+        caption: gallery.photos[index].caption,
+        width: fallback.width,
+        height: fallback.height,
+        thumbnail: responsiveSources(photo, PHOTO_ASPECT, THUMBNAIL_WIDTHS, sourceOptions(photo, index))[0].url,
+        srcset: toSrcset(sources),
+        sizes: GALLERY_SIZES,
+        placeholder: assets.get(photo)?.placeholder || null
+      };
+    });
+
+    // Main image is the first photo
+    images.main = images.gallery[0];
+
+    images.thumbnails = photos.map((photo, index) => {
+      const sources = responsiveSources(photo, PHOTO_ASPECT, THUMBNAIL_WIDTHS, sourceOptions(photo, index));
+
+      return {
+        url: sources[0].url,
+        alt: `${gallery.photos[index].caption || `Property Image ${index + 1}`} thumbnail`,
+        width: sources[0].width,
+        height: sources[0].height,
+        srcset: toSrcset(sources),
+        sizes: THUMBNAIL_SIZES,
+        placeholder: assets.get(photo)?.placeholder || null
+      };
+    });
+  }
+
+  if (gallery.floorplan) {
+    const floorplan = imageUrl(gallery.floorplan.filename);
+    images.floorplan = {
+      thumb: floorplan,
+      medium: floorplan,
+      large: floorplan,
+      original: floorplan
+    };
+  }
+
+  if (gallery.epc) {
+    images.epc = {
+      url: imageUrl(gallery.epc.filename),
+      alt: gallery.epc.caption || 'Energy Performance Certificate'
+    };
+  }
+
+  return images;
+}
+
+/**
+ * List-card DTO (list, featured and search endpoints)
+ */
+export function presentPropertyCard(
+  property: NormalizedProperty,
+  assets: ImageAssetLookup = NO_ASSETS
+): PropertyCardDto {
+  return {
+    schemaVersion: PROPERTY_DTO_VERSION,
+    variant: 'card',
+    id: property.propref,
+    listingType: property.listingType,
+    status: property.status,
+    statusLabel: property.statusLabel,
+    featured: property.featured,
+    displayAddress: property.displayAddress,
+    displayPrice: property.displayPrice,
+    price: property.price,
+    rentPerMonth: property.rentPerMonth,
+    salePrice: property.salePrice,
+    area: property.area,
+    postcode: property.address.postcode,
+    propertyType: property.propertyType,
+    bedrooms: property.bedrooms,
+    bathrooms: property.bathrooms,
+    receptions: property.receptions,
+    furnishing: property.furnishing,
+    availableFrom: property.availableFrom,
+    strapline: property.strapline,
+    epcRating: property.epcRating,
+    councilTaxBand: property.councilTaxBand,
+    location: property.location,
+    images: presentPropertyImages(property, assets)
+  };
+}
+
+/**
+ * Full-detail DTO (single property endpoint)
+ */
+export function presentPropertyDetail(
+  property: NormalizedProperty,
+  assets: ImageAssetLookup = NO_ASSETS,
+  media: PropertyMediaMetadata[] = []
+): PropertyDetailDto {
+  return {
+    ...presentPropertyCard(property, assets),
+    variant: 'detail',
+    images: presentPropertyImages(property, assets, media),
+    address: { ...property.address },
+    singleBedrooms: property.singleBedrooms,
+    doubleBedrooms: property.doubleBedrooms,
+    shortLet: property.shortLet,
+    floor: property.floor,
+    heating: property.heating,
+    bullets: property.bullets,
+    description: property.description,
+    url: property.url
+  };
+}
+
+/**
+ * Normalize and present a list of raw Rentman records as cards
+ */
+export function presentPropertyCards(
+  properties: PropertyAdvertising[],
+  assets: ImageAssetLookup = NO_ASSETS
+): PropertyCardDto[] {
+  return properties.map(property => presentPropertyCard(normalizeProperty(property), assets));
+}
+
+/**
+ * Search response body - the page of matches as cards, with pagination and filter values
+ */
+export function presentSearchResults(
+  result: PropertySearchResult,
+  assets: ImageAssetLookup = NO_ASSETS
+): PropertySearchDto {
+  return {
+    properties: result.properties.map(property => presentPropertyCard(property, assets)),
+    pagination: result.pagination,
+    filters: result.filters
+  };
+}
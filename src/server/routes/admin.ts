@@ -0,0 +1,374 @@
+/**
+ * Admin Routes
+ * Authenticated endpoints for operating the property sync, background jobs and the image library
+ */
+
+import express, { Router, Request, Response } from 'express';
+import { RentmanApiClient } from '../../client/RentmanApiClient';
+import { PropertySyncService } from '../../services/propertySyncService';
+import {
+  exportDataset,
+  importDataset,
+  parseDataset,
+  serializeDataset
+} from '../../services/datasetTransfer';
+import { describeImages, imageOrigin, queueImageCleanup } from '../../services/imageLibrary';
+import { DatasetBundle, DatasetFormat, ImageAsset, JobStatus } from '../../types';
+import { asyncHandler, ErrorTypes } from '../../middleware/errorHandler';
+import { requireAdmin } from '../../middleware/auth';
+import { config } from '../../config';
+import { jobQueue } from '../../jobs';
+import { imageService, validateImageUpload } from '../../images';
+import { snapshotStore } from '../../utils/snapshotStore';
+import { logger } from '../../utils/logger';
+
+// Exports of ~1000 properties are a few MB, leave room for growth
+const DATASET_UPLOAD_LIMIT = '100mb';
+
+const JOB_STATUSES: JobStatus[] = ['waiting', 'active', 'completed', 'dead'];
+const JOB_LIST_LIMIT = 100;
+
+export default function adminRoutes(syncService: PropertySyncService, client: RentmanApiClient): Router {
+  const router = Router();
+
+  router.use(requireAdmin);
+
+  /**
+   * POST /api/admin/sync
+   * Run a property sync now and wait for it to finish
+   */
+  router.post(
+    '/sync',
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!snapshotStore.isReady()) {
+        return res.status(503).json({
+          success: false,
+          error: 'SERVICE_UNAVAILABLE',
+          message: 'Snapshot store is not available, property sync cannot run',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      logger.info('Manual property sync requested', { requestId: req.headers['x-request-id'] });
+
+      const result = await syncService.manualSync();
+      const statusCode = { success: 200, skipped: 409, failed: 500 }[result.run.status];
+
+      res.status(statusCode).json({
+        success: result.success,
+        data: result.run,
+        message: result.message,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/sync/status
+   * Sync service status including the latest persisted runs
+   */
+  router.get(
+    '/sync/status',
+    asyncHandler(async (req: Request, res: Response) => {
+      const status = await syncService.getStatus();
+
+      res.json({
+        success: true,
+        data: status,
+        message: status.isSyncing ? 'Sync in progress' : 'Sync idle',
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/sync/history
+   * Persisted log of recent sync runs, newest first
+   */
+  router.get(
+    '/sync/history',
+    asyncHandler(async (req: Request, res: Response) => {
+      const requested = parseInt(req.query.limit as string, 10);
+      const limit = Number.isFinite(requested) && requested > 0
+        ? Math.min(requested, config.sync.historyLimit)
+        : config.sync.historyLimit;
+
+      const runs = await syncService.getRunHistory(limit);
+
+      res.json({
+        success: true,
+        data: runs,
+        message: `Found ${runs.length} sync runs`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/dataset/export
+   * Download the synced dataset as NDJSON (default) or a gzipped tarball (?format=tar).
+   * ?anonymize=true blanks internal fields, ?fetchMedia=true fetches media metadata missing from the store.
+   */
+  router.get(
+    '/dataset/export',
+    asyncHandler(async (req: Request, res: Response) => {
+      const format: DatasetFormat = req.query.format === 'tar' ? 'tar' : 'ndjson';
+
+      let bundle: DatasetBundle;
+      try {
+        bundle = await exportDataset({
+          anonymize: req.query.anonymize === 'true',
+          fetchMedia: req.query.fetchMedia === 'true',
+          client
+        });
+      } catch (error) {
+        throw ErrorTypes.NOT_FOUND(error instanceof Error ? error.message : 'No dataset to export');
+      }
+
+      const content = await serializeDataset(bundle, format);
+      const stamp = bundle.manifest.exportedAt.replace(/[:.]/g, '-');
+      const filename = format === 'tar' ? `dataset-${stamp}.tar.gz` : `dataset-${stamp}.ndjson`;
+
+      res.set('Content-Type', format === 'tar' ? 'application/gzip' : 'application/x-ndjson');
+      res.set('Content-Disposition', `attachment; filename="${filename}"`);
+      res.send(content);
+    })
+  );
+
+  /**
+   * POST /api/admin/dataset/import
+   * Import an export (NDJSON or tarball as the raw request body) into this environment's store
+   */
+  router.post(
+    '/dataset/import',
+    express.raw({ type: '*/*', limit: DATASET_UPLOAD_LIMIT }),
+    asyncHandler(async (req: Request, res: Response) => {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        throw ErrorTypes.BAD_REQUEST('Request body must be a dataset export');
+      }
+
+      let bundle: DatasetBundle;
+      try {
+        bundle = await parseDataset(req.body);
+      } catch (error) {
+        throw ErrorTypes.BAD_REQUEST(`Invalid dataset: ${error instanceof Error ? error.message : 'unreadable file'}`);
+      }
+
+      const run = await importDataset(bundle, syncService);
+      const statusCode = { success: 200, skipped: 409, failed: 500 }[run.status];
+
+      res.status(statusCode).json({
+        success: run.status === 'success',
+        data: run,
+        message: run.status === 'success'
+          ? `Imported ${bundle.properties.length} properties and ${bundle.media.length} media records`
+          : run.error || 'Import failed',
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/jobs/stats
+   * Job counts per status for the registered job types
+   */
+  router.get(
+    '/jobs/stats',
+    asyncHandler(async (req: Request, res: Response) => {
+      const stats = await jobQueue.getStats();
+
+      res.json({
+        success: true,
+        data: stats,
+        message: `${stats.counts.waiting} waiting, ${stats.counts.active} active, ${stats.counts.dead} dead`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/jobs?status=dead&limit=20
+   * Jobs with a status (default: the dead-letter list)
+   */
+  router.get(
+    '/jobs',
+    asyncHandler(async (req: Request, res: Response) => {
+      const status = (req.query.status || 'dead') as JobStatus;
+      if (!JOB_STATUSES.includes(status)) {
+        throw ErrorTypes.BAD_REQUEST(`status must be one of ${JOB_STATUSES.join(', ')}`);
+      }
+
+      const requested = parseInt(req.query.limit as string, 10);
+      const limit = Number.isFinite(requested) && requested > 0 ? Math.min(requested, JOB_LIST_LIMIT) : JOB_LIST_LIMIT;
+
+      const jobs = await jobQueue.list(status, limit);
+
+      res.json({
+        success: true,
+        data: jobs,
+        message: `Found ${jobs.length} ${status} jobs`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/jobs/:id
+   */
+  router.get(
+    '/jobs/:id',
+    asyncHandler(async (req: Request, res: Response) => {
+      const job = await jobQueue.getJob(req.params.id);
+      if (!job) {
+        throw ErrorTypes.NOT_FOUND(`Job ${req.params.id} not found`);
+      }
+
+      res.json({
+        success: true,
+        data: job,
+        message: `Job is ${job.status}`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * POST /api/admin/jobs/:id/retry
+   * Move a dead job back to the queue with a fresh set of attempts
+   */
+  router.post(
+    '/jobs/:id/retry',
+    asyncHandler(async (req: Request, res: Response) => {
+      const existing = await jobQueue.getJob(req.params.id);
+      if (!existing) {
+        throw ErrorTypes.NOT_FOUND(`Job ${req.params.id} not found`);
+      }
+
+      const job = await jobQueue.retry(existing.id);
+      if (!job) {
+        throw ErrorTypes.CONFLICT(`Only dead jobs can be retried, job is ${existing.status}`);
+      }
+
+      res.json({
+        success: true,
+        data: job,
+        message: `Job ${job.id} queued for retry`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * GET /api/admin/images?cursor=
+   * A page of the stored images with the property each belongs to
+   */
+  router.get(
+    '/images',
+    asyncHandler(async (req: Request, res: Response) => {
+      const cursor = typeof req.query.cursor === 'string' && req.query.cursor ? req.query.cursor : null;
+      const page = await imageService.list(cursor);
+      const images = await describeImages(page.assets);
+
+      res.json({
+        success: true,
+        data: { images, nextCursor: page.nextCursor },
+        message: `Found ${images.length} images (${imageService.providerName})`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * POST /api/admin/images/cleanup?dryRun=true
+   * Queue an orphaned image cleanup now - the result is on the job
+   */
+  router.post(
+    '/images/cleanup',
+    asyncHandler(async (req: Request, res: Response) => {
+      const job = await queueImageCleanup(req.query.dryRun === 'true');
+
+      res.status(202).json({
+        success: true,
+        data: job,
+        message: `Image cleanup queued as job ${job.id}`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  const findImage = async (filename: string): Promise<ImageAsset> => {
+    const asset = await imageService.resolve(filename);
+    if (!asset) {
+      throw ErrorTypes.NOT_FOUND(`Image ${filename} not found`);
+    }
+    return asset;
+  };
+
+  /**
+   * GET /api/admin/images/:filename
+   */
+  router.get(
+    '/images/:filename',
+    asyncHandler(async (req: Request, res: Response) => {
+      const [image] = await describeImages([await findImage(req.params.filename)]);
+
+      res.json({
+        success: true,
+        data: image,
+        message: image.propref ? `Image of property ${image.propref}` : 'Image of no known property',
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * PUT /api/admin/images/:filename
+   * Replace a stored image with { base64Data } - validated like uploads
+   */
+  router.put(
+    '/images/:filename',
+    asyncHandler(async (req: Request, res: Response) => {
+      const existing = await findImage(req.params.filename);
+      const upload = validateImageUpload(existing.filename, req.body?.base64Data);
+
+      let asset: ImageAsset;
+      try {
+        asset = await imageService.store(existing.filename, upload.base64data, imageOrigin(existing));
+      } catch (error) {
+        logger.error(`Error replacing image ${existing.filename}:`, error);
+        throw ErrorTypes.IMAGE_PROCESSING_ERROR('Failed to replace image');
+      }
+
+      res.json({
+        success: true,
+        data: asset,
+        message: `Image ${asset.filename} replaced (version ${asset.version})`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  /**
+   * DELETE /api/admin/images/:filename
+   * Delete a stored image and its registry entry
+   */
+  router.delete(
+    '/images/:filename',
+    asyncHandler(async (req: Request, res: Response) => {
+      const asset = await findImage(req.params.filename);
+
+      if (!await imageService.remove(asset)) {
+        throw ErrorTypes.IMAGE_PROCESSING_ERROR(`Image ${asset.filename} could not be deleted from ${asset.provider} storage`);
+      }
+
+      res.json({
+        success: true,
+        data: { filename: asset.filename, provider: asset.provider },
+        message: `Image ${asset.filename} deleted`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,221 @@
+/**
+ * Image Routes
+ * Serve Rentman images through the configured storage provider, storing them on first request
+ */
+
+import express, { Router, Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from '../../config';
+import {
+  ImageQuery,
+  fetchOriginImage,
+  imageService,
+  negotiateImageRequest,
+  parseImageRequest,
+  validateImageUpload
+} from '../../images';
+import { jobQueue } from '../../jobs';
+import { asyncHandler, ErrorTypes } from '../../middleware/errorHandler';
+import { requireAdmin } from '../../middleware/auth';
+import { cache, CacheKeys } from '../../utils/cache';
+import { logger } from '../../utils/logger';
+
+// How long an image request waits for its upload job before giving up
+const IMAGE_UPLOAD_WAIT_MS = 30000;
+
+// Seconds a client is asked to wait before requesting an image whose upload is still running
+const IMAGE_UPLOAD_RETRY_AFTER = 10;
+
+// Matches the nginx cache TTL
+const IMAGE_URL_CACHE_TTL = 3600;
+
+// Room for the JSON around the base64 data
+const UPLOAD_BODY_OVERHEAD = 16 * 1024;
+
+// URLs carrying the asset version (?v=) never change content, others may after a re-upload
+const VERSIONED_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+const UNVERSIONED_CACHE_CONTROL = 'public, max-age=86400';
+
+/** Provider URL of a transformation, cached to skip registry and provider lookups */
+interface RemoteImage {
+  type: 'redirect' | 'proxy';
+  url: string;
+  version: string;
+}
+
+function imageCacheControl(req: Request, version: string): string {
+  return req.query.v === version ? VERSIONED_CACHE_CONTROL : UNVERSIONED_CACHE_CONTROL;
+}
+
+/**
+ * Redirect to the provider URL, or stream it from the origin with our own caching headers
+ */
+async function sendRemoteImage(req: Request, res: Response, image: RemoteImage, key: string): Promise<void> {
+  if (image.type === 'redirect') {
+    return res.redirect(302, image.url);
+  }
+
+  res.set({
+    'Cache-Control': imageCacheControl(req, image.version),
+    ETag: `"${image.version}-${key}"`,
+    'X-Content-Type-Options': 'nosniff'
+  });
+
+  // req.fresh compares If-None-Match with the ETag set above, no origin request needed
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+
+  const origin = await fetchOriginImage(image.url);
+  res.type(origin.contentType);
+  if (origin.contentLength) {
+    res.set('Content-Length', String(origin.contentLength));
+  }
+
+  origin.stream.on('error', error => {
+    logger.warn(`⚠️ Proxied image stream failed: ${error.message}`);
+    res.destroy(error);
+  });
+  // Stop downloading when the client goes away
+  res.on('close', () => origin.stream.destroy());
+  origin.stream.pipe(res);
+}
+
+/**
+ * Authenticate uploads, then parse their body with a limit derived from IMAGE_MAX_FILE_SIZE (base64 is 4/3 of it).
+ * Mounted ahead of the global body parsers, so unauthenticated bodies are never read and the 10mb default
+ * does not cap uploads.
+ */
+export function imageUploadGuard(): RequestHandler[] {
+  const parser = express.json({ limit: Math.ceil((config.images.maxFileSize * 4) / 3) + UPLOAD_BODY_OVERHEAD });
+
+  const parseBody: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    parser(req, res, (error?: unknown) => {
+      if ((error as { type?: string } | undefined)?.type === 'entity.too.large') {
+        return next(ErrorTypes.IMAGE_TOO_LARGE(`Upload exceeds the ${config.images.maxFileSize} byte limit`));
+      }
+      next(error);
+    });
+  };
+
+  return [requireAdmin, parseBody];
+}
+
+export default function imageRoutes(): Router {
+  const router = Router();
+
+  /**
+   * GET /api/images/:filename
+   * Redirect to (or stream) a transformation of an image, e.g. image_thumb.jpg, image.jpg?size=thumb
+   * or image.jpg?w=300&h=200&fit=crop. Without an explicit format, AVIF, WebP or JPEG is picked from the
+   * Accept header. Images not stored yet are fetched from Rentman and stored by an upload job.
+   * With IMAGE_DELIVERY=proxy the provider's image is streamed instead of redirected to.
+   */
+  router.get(
+    '/:filename',
+    asyncHandler(async (req: Request, res: Response) => {
+      // Invalid transformation parameters are rejected with a 400 by the error handler
+      const { filename, transformation, key } = negotiateImageRequest(
+        parseImageRequest(req.params.filename, req.query as ImageQuery),
+        req.headers.accept
+      );
+
+      // The same URL serves a different format depending on Accept
+      res.vary('Accept');
+
+      // Avoid registry and provider lookups for recently served URLs
+      const cacheKey = CacheKeys.image(filename, key);
+      const cached = cache.get<RemoteImage>(cacheKey);
+      if (cached) {
+        return sendRemoteImage(req, res, cached, key);
+      }
+
+      let remote: RemoteImage;
+      try {
+        let asset = await imageService.resolve(filename);
+
+        if (!asset) {
+          logger.info(`📸 Image ${filename} not stored yet, fetching from Rentman API...`);
+
+          // Concurrent requests for the same image share one upload job
+          const job = await jobQueue.enqueue('image.upload', { filename }, { dedupeKey: filename });
+          const finished = await jobQueue.waitFor<'image.upload'>(job.id, IMAGE_UPLOAD_WAIT_MS);
+
+          // Still waiting or running - the image may well exist, so nothing a cache could keep
+          if (!finished) {
+            res.set({ 'Retry-After': String(IMAGE_UPLOAD_RETRY_AFTER), 'Cache-Control': 'no-store' });
+            return res.status(503).json({
+              success: false,
+              message: `Image ${filename} is still being fetched from Rentman API`,
+              details: `Upload is still pending (job ${job.id})`,
+              timestamp: new Date().toISOString()
+            });
+          }
+
+          if (finished.status !== 'completed' || !finished.result) {
+            return res.status(404).json({
+              success: false,
+              message: `Image ${filename} not found in Rentman API`,
+              details: finished.lastError || `Upload job ${job.id} has no result`,
+              timestamp: new Date().toISOString()
+            });
+          }
+
+          asset = finished.result;
+        }
+
+        const delivery = await imageService.deliver(asset, transformation);
+
+        if (delivery.type === 'file') {
+          res.set('Cache-Control', imageCacheControl(req, asset.version));
+          res.type(delivery.contentType);
+          return res.sendFile(delivery.path);
+        }
+
+        remote = { type: delivery.type, url: delivery.url, version: asset.version };
+        cache.set(cacheKey, remote, IMAGE_URL_CACHE_TTL);
+      } catch (error) {
+        logger.error(`❌ Error serving image ${filename}:`, error);
+        return res.status(500).json({
+          success: false,
+          message: `Failed to serve image ${filename}`,
+          details: error instanceof Error ? error.message : String(error),
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Origin failures of proxied images are reported by the error handler (404 or 502)
+      await sendRemoteImage(req, res, remote, key);
+    })
+  );
+
+  /**
+   * POST /api/images/upload
+   * Store a base64 image and return the URL of every size (admin API key required)
+   */
+  router.post(
+    '/upload',
+    // Also checked by imageUploadGuard, kept so the router is never mounted unprotected
+    requireAdmin,
+    asyncHandler(async (req: Request, res: Response) => {
+      const upload = validateImageUpload(req.body?.filename, req.body?.base64Data);
+
+      let asset;
+      try {
+        asset = await imageService.store(upload.filename, upload.base64data, 'upload');
+      } catch (error) {
+        logger.error(`Error uploading image ${upload.filename}:`, error);
+        throw ErrorTypes.IMAGE_PROCESSING_ERROR('Failed to upload image');
+      }
+
+      res.json({
+        success: true,
+        data: imageService.urls(asset),
+        message: `Image ${upload.filename} uploaded successfully (${upload.format.format}, ${upload.bytes} bytes, ${asset.provider})`,
+        timestamp: new Date().toISOString()
+      });
+    })
+  );
+
+  return router;
+}
@@ -3,26 +3,42 @@
  * API endpoints for property media
  */
 
+import crypto from 'crypto';
 import { Router, Request, Response } from 'express';
 import { RentmanApiClient } from '../../client/RentmanApiClient';
-import { PropertyMedia, ApiResponse } from '../../types';
+import { PropertyMedia, PropertyMediaDto, ApiResponse } from '../../types';
+import { asyncHandler, ErrorTypes } from '../../middleware/errorHandler';
+import { detectImageFormat } from '../../utils/imageFormat';
+import { presentPropertyMedia } from '../presenters/mediaPresenter';
+
+// Media bytes only change when Rentman gets a new upload, which comes with a new ETag
+const RAW_MEDIA_MAX_AGE = 86400;
+
+/**
+ * Media item by filename or image order - the first item when Rentman already filtered the response
+ */
+function findMediaItem(items: PropertyMedia[], mediaId: string): PropertyMedia | undefined {
+  return items.find(item => item.filename === mediaId || item.imgorder === mediaId)
+    || (items.length === 1 ? items[0] : undefined);
+}
 
 export default function mediaRoutes(client: RentmanApiClient): Router {
   const router = Router();
 
   /**
    * GET /api/media/:propertyId
-   * Get all media for a specific property
+   * Get all media for a specific property - base64data only with ?includeData=true
    */
   router.get('/:propertyId', async (req: Request, res: Response) => {
     try {
       const { propertyId } = req.params;
+      const includeData = req.query.includeData === 'true';
 
       const response = await client.getPropertyMedia({ propref: propertyId });
-      
-      const apiResponse: ApiResponse<PropertyMedia[]> = {
+
+      const apiResponse: ApiResponse<PropertyMediaDto[]> = {
         success: true,
-        data: response.data,
+        data: response.data.map(item => presentPropertyMedia(item, includeData)),
         message: `Found ${response.data.length} media files for property ${propertyId}`,
         timestamp: new Date().toISOString()
       };
@@ -41,18 +57,20 @@ export default function mediaRoutes(client: RentmanApiClient): Router {
 
   /**
    * GET /api/media/:propertyId/:mediaId
-   * Get specific media item
+   * Get specific media item - base64data only with ?includeData=true
    */
   router.get('/:propertyId/:mediaId', async (req: Request, res: Response) => {
     try {
       const { propertyId, mediaId } = req.params;
 
-      const response = await client.getPropertyMedia({ 
+      const response = await client.getPropertyMedia({
         propref: propertyId,
         mediaId: mediaId
       });
 
-      if (response.data.length === 0) {
+      const item = findMediaItem(response.data, mediaId);
+
+      if (!item) {
         return res.status(404).json({
           success: false,
           data: null,
@@ -61,9 +79,9 @@ export default function mediaRoutes(client: RentmanApiClient): Router {
         });
       }
 
-      const apiResponse: ApiResponse<PropertyMedia> = {
+      const apiResponse: ApiResponse<PropertyMediaDto> = {
         success: true,
-        data: response.data[0],
+        data: presentPropertyMedia(item, req.query.includeData === 'true'),
         message: 'Media item found',
         timestamp: new Date().toISOString()
       };
@@ -80,5 +98,42 @@ export default function mediaRoutes(client: RentmanApiClient): Router {
     }
   });
 
+  /**
+   * GET /api/media/:propertyId/:mediaId/raw
+   * Decoded bytes of a media item with its detected content type, usable as an <img> src
+   */
+  router.get(
+    '/:propertyId/:mediaId/raw',
+    asyncHandler(async (req: Request, res: Response) => {
+      const { propertyId, mediaId } = req.params;
+
+      const response = await client.getPropertyMedia({ propref: propertyId, mediaId });
+      const item = findMediaItem(response.data, mediaId);
+
+      if (!item || !item.base64data) {
+        throw ErrorTypes.NOT_FOUND(`Media item ${mediaId} not found for property ${propertyId}`);
+      }
+
+      const data = Buffer.from(item.base64data, 'base64');
+      const detected = detectImageFormat(data);
+
+      res.set({
+        'Content-Type': detected?.contentType || 'application/octet-stream',
+        'Content-Disposition': `inline; filename="${item.filename.replace(/"/g, '')}"`,
+        'Cache-Control': `public, max-age=${RAW_MEDIA_MAX_AGE}`,
+        ETag: `"${crypto.createHash('sha1').update(data).digest('hex')}"`,
+        // Never let browsers sniff an unrecognised payload into something executable
+        'X-Content-Type-Options': 'nosniff'
+      });
+
+      // req.fresh compares If-None-Match with the ETag set above
+      if (req.fresh) {
+        return res.status(304).end();
+      }
+
+      res.send(data);
+    })
+  );
+
   return router;
-}
\ No newline at end of file
+}
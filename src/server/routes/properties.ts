@@ -5,125 +5,61 @@
 
 import { Router, Request, Response } from 'express';
 import { RentmanApiClient } from '../../client/RentmanApiClient';
-import { PropertyAdvertising, PropertyMedia, ApiResponse } from '../../types';
-import { cloudinaryService } from '../../utils/cloudinaryService';
-import { config } from '../../config';
-import { cache, CacheKeys } from '../../utils/cache';
-import { redisCache, RedisCacheKeys } from '../../utils/redisCache';
-import { scoreToGrade, formatStatus } from '../../utils/formatters';
-
-/**
- * Process property images from raw photo fields
- */
-function processPropertyImages(property: any) {
-  const images: any = {
-    main: null,
-    gallery: [],
-    thumbnails: []
-  };
-
-  // Extract all photo fields (photo1, photo2, etc.)
-  const photoFields = Object.keys(property).filter(key => key.startsWith('photo') && property[key]);
-  const photos = photoFields.map(key => property[key]).filter(Boolean);
-
-  if (photos.length > 0) {
-    // Set main image (first photo)
-    images.main = {
-      url: `/api/images/${photos[0]}`,
-      alt: `Property Image 1`,
-      width: 1200,
-      height: 800
-    };
-
-    // Create gallery array
-    images.gallery = photos.map((photo, index) => ({
-      url: `/api/images/${photo}`,
-      alt: `Property Image ${index + 1}`,
-      width: 1200,
-      height: 800,
-      thumbnail: `/api/images/${photo}?w=300&h=200&fit=crop`
-    }));
-
-    // Create thumbnails array
-    images.thumbnails = photos.map((photo, index) => ({
-      url: `/api/images/${photo}?w=300&h=200&fit=crop`,
-      alt: `Property Image ${index + 1} thumbnail`,
-      width: 300,
-      height: 200
-    }));
-  }
-
-  // Add floorplan if available
-  if (property.floorplan && property.floorplan.trim()) {
-    images.floorplan = {
-      thumb: `/api/images/${property.floorplan}`,
-      medium: `/api/images/${property.floorplan}`,
-      large: `/api/images/${property.floorplan}`,
-      original: `/api/images/${property.floorplan}`,
-    };
-  }
-
-  return images;
-}
-
-function extractEpcAndTaxBand(property: any): { epcrating: string | null; taxband: string | null } {
-  // Prefer explicit grade in bullets if present (format: "Energy Rating : C")
-  let grade: string | null = null;
-  if (property.bullets) {
-    const energyMatch = property.bullets.match(/Energy Rating\s*:\s*([A-G])/i);
-    if (energyMatch) {
-      grade = energyMatch[1].toUpperCase();
-    }
-  }
-
-  // Otherwise normalize existing API value (can be letter or numeric score)
-  if (!grade && property.epcrating !== null && property.epcrating !== undefined && property.epcrating !== '') {
-    if (typeof property.epcrating === 'string') {
-      const maybeGrade = property.epcrating.trim().toUpperCase();
-      if (maybeGrade && 'ABCDEFG'.includes(maybeGrade)) {
-        grade = maybeGrade;
-      } else {
-        const numeric = Number(property.epcrating);
-        if (Number.isFinite(numeric)) {
-          grade = scoreToGrade(numeric);
-        }
-      }
-    } else if (typeof property.epcrating === 'number') {
-      grade = scoreToGrade(property.epcrating);
-    }
-  }
-
-  const epcrating = grade; // letter grade (A-G) or null
-
-  // Extract council tax band from bullets field (format: "Council Tax Band B")
-  let taxband = property.taxband || null;
-  if (!taxband && property.bullets) {
-    const taxMatch = property.bullets.match(/Council Tax Band\s+([A-H])/i);
-    if (taxMatch) {
-      taxband = taxMatch[1];
-    }
-  }
-
-  return { epcrating, taxband };
-}
-
-/** Rentman propertyadvertising: rentorbuy 1 = to let, 2 = for sale */
-function matchesSearchType(prop: PropertyAdvertising, type: unknown): boolean {
-  if (type == null || type === '') return true;
-  if (typeof type !== 'string') return true;
-  const t = type.toLowerCase();
-  if (t !== 'rent' && t !== 'sale') return true;
-  const rb = String(prop.rentorbuy ?? '').trim();
-  if (t === 'rent') {
-    if (rb !== '1') return false;
-    const rent = parseFloat(String(prop.rentmonth ?? '').trim());
-    return Number.isFinite(rent) && rent > 0;
-  }
-  return rb === '2';
-}
+import {
+  PropertyAdvertising,
+  ApiResponse,
+  ImageSizeName,
+  PropertyCardDto,
+  PropertyDetailDto,
+  PropertyImagesDto,
+  PropertySearchDto,
+  PropertyHistory,
+  PropertyHistoryEntry,
+  DatasetFreshness,
+  LegacyPropertyDto,
+  LegacyPropertyImagesDto,
+  LegacyPropertySearchDto
+} from '../../types';
+import { RedisCacheKeys } from '../../utils/redisCache';
+import { snapshotStore } from '../../utils/snapshotStore';
+import { normalizeProperty } from '../../utils/propertyNormalizer';
+import { summarizeHistory } from '../../utils/propertyHistory';
+import {
+  getDatasetFreshness,
+  liveFreshness,
+  setFreshnessHeaders
+} from '../../services/propertyDataset';
+import { loadPropertyMedia } from '../../services/propertyMedia';
+import { PropertySearchEngine, parseSearchQuery } from '../../services/propertySearch';
+import {
+  archiveTransformation,
+  photoArchiveEntries,
+  photoArchiveFiles,
+  resolveArchiveAssets
+} from '../../services/photoArchive';
+import { IMAGE_SIZE_NAMES } from '../../images';
+import { asyncHandler, ErrorTypes } from '../../middleware/errorHandler';
+import { buildGallery } from '../../utils/propertyGallery';
+import { createZipStream } from '../../utils/zipStream';
+import { logger } from '../../utils/logger';
+import {
+  loadImageAssets,
+  presentPropertyCards,
+  presentPropertyDetail,
+  presentPropertyImages,
+  presentSearchResults
+} from '../presenters/propertyPresenter';
+import {
+  presentLegacyImages,
+  presentLegacyProperty,
+  presentLegacySearchResults,
+  setLegacyHeaders,
+  wantsLegacyProperties
+} from '../presenters/legacyPropertyPresenter';
 
 export default function propertyRoutes(client: RentmanApiClient): Router {
   const router = Router();
+  const searchEngine = new PropertySearchEngine(client);
 
   /**
    * GET /api/properties
@@ -151,33 +87,15 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
 
       const response = await client.getPropertyAdvertising(params);
 
-      // Debug: log first property
-      if (response.data && response.data.length > 0) {
-        console.log('🔍 Raw API eprating:', response.data[0].epcrating);
-        console.log('🔍 Raw API taxband:', response.data[0].taxband);
-        console.log('🔍 Raw API bullets:', response.data[0].bullets);
+      let processedProperties: PropertyCardDto[] | LegacyPropertyDto[];
+      if (wantsLegacyProperties(req)) {
+        setLegacyHeaders(res);
+        processedProperties = response.data.map(presentLegacyProperty);
+      } else {
+        processedProperties = presentPropertyCards(response.data, await loadImageAssets(response.data.map(normalizeProperty)));
       }
 
-      // Process each property to add images object and extract EPC/tax ratings from bullets
-      const processedProperties = response.data.map((property: any) => {
-        const { epcrating, taxband } = extractEpcAndTaxBand(property);
-
-        console.log('🔍 Processing property', property.propref, 'epcrating:', epcrating, 'taxband:', taxband);
-
-        return {
-          ...property,
-          // Map API fields to our interface
-          epcrating: epcrating,
-          taxband: taxband,
-          // Preserve geolocation field
-          geolocation: property.geolocation || '',
-          // Transform STATUS field (Unavailable -> Under Offer)
-          STATUS: formatStatus(property.STATUS),
-          images: processPropertyImages(property)
-        };
-      });
-
-      const apiResponse: ApiResponse<PropertyAdvertising[]> = {
+      const apiResponse: ApiResponse<PropertyCardDto[] | LegacyPropertyDto[]> = {
         success: true,
         data: processedProperties,
         message: `Found ${processedProperties.length} properties`,
@@ -202,173 +120,29 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
    * Search properties with filters
    */
   router.get('/search', async (req: Request, res: Response) => {
-    console.log('🔍 Search route called with query:', req.query);
     try {
-      const {
-        q,
-        area,
-        type,
-        beds,
-        minPrice,
-        maxPrice,
-        minSalePrice,
-        featured,
-        page = 1,
-        limit = 12
-      } = req.query;
-
-      // Try to get properties from Redis cache first
-      let allProperties: PropertyAdvertising[] = [];
-      let cacheSource = 'redis';
-
-      if (config.redis.enabled && redisCache.isReady()) {
-        const cachedProperties = await redisCache.get<PropertyAdvertising[]>(RedisCacheKeys.allProperties());
-
-        if (cachedProperties && cachedProperties.length > 0) {
-          allProperties = cachedProperties;
-          console.log(`✅ Using ${cachedProperties.length} properties from Redis cache`);
-        }
-      }
-
-      // Fallback to API if Redis cache miss or disabled
-      if (allProperties.length === 0) {
-        cacheSource = 'api';
-        console.log('⚠️ Redis cache miss or disabled, fetching from Rentman API');
-
-      const params: any = {
-        noimage: 1,
-        limit: 1000 // Fetch all properties
-      };
-
-      if (area) params.area = 1;
-      if (featured === 'true') params.featured = 1;
-      if (type) params.rob = type;
-
-      const response = await client.getPropertyAdvertising(params);
-        allProperties = Array.isArray(response.data) ? response.data : [response.data];
-
-        // Cache in Redis for 15 minutes as emergency backup
-        if (config.redis.enabled && redisCache.isReady()) {
-          await redisCache.set(RedisCacheKeys.allProperties(), allProperties, 900);
-        }
-      }
+      const query = parseSearchQuery(req.query);
+      const result = await searchEngine.search(query);
 
-      // Apply client-side filters
-      let filteredProperties = allProperties;
+      setFreshnessHeaders(res, result.freshness);
 
-      if (typeof type === 'string' && (type.toLowerCase() === 'rent' || type.toLowerCase() === 'sale')) {
-        filteredProperties = filteredProperties.filter(prop => matchesSearchType(prop, type));
-      }
-
-      const scopedForFilters = filteredProperties;
-
-      if (q && typeof q === 'string' && q.trim() !== '') {
-        const query = q.toLowerCase();
-        filteredProperties = filteredProperties.filter(prop =>
-          prop.displayaddress?.toLowerCase().includes(query) ||
-          prop.address3?.toLowerCase().includes(query) ||
-          prop.area?.toLowerCase().includes(query) ||
-          prop.DESCRIPTION?.toLowerCase().includes(query) ||
-          prop.strapline?.toLowerCase().includes(query)
-        );
-      }
-
-      if (beds && typeof beds === 'string' && beds !== '') {
-        const bedCount = parseInt(beds);
-        filteredProperties = filteredProperties.filter(prop => {
-          const totalBeds = parseInt(prop.beds) + parseInt(prop.singles) + parseInt(prop.doubles);
-          return totalBeds === bedCount;
-        });
-      }
-
-      if ((minPrice && typeof minPrice === 'string' && minPrice !== '') || (maxPrice && typeof maxPrice === 'string' && maxPrice !== '')) {
-        filteredProperties = filteredProperties.filter(prop => {
-          const price = parseFloat(prop.rentmonth);
-          const min = minPrice && typeof minPrice === 'string' ? parseFloat(minPrice) : 0;
-          const max = maxPrice && typeof maxPrice === 'string' ? parseFloat(maxPrice) : Infinity;
-          return price >= min && price <= max;
-        });
-      }
-
-      if (minSalePrice && typeof minSalePrice === 'string' && minSalePrice !== '') {
-        filteredProperties = filteredProperties.filter(prop => {
-          const salePrice = prop.saleprice ? parseFloat(prop.saleprice) : 0;
-          const min = parseFloat(minSalePrice);
-          return salePrice >= min;
-        });
-      }
-
-      if (featured === 'true') {
-        filteredProperties = filteredProperties.filter(prop => (prop as any).featured === 1);
-      }
-
-      // Sort by price before pagination
-      const sortOrder = (req.query.sortOrder as string) || 'desc';
-      const sortBy = (req.query.sortBy as string) || 'price';
-
-      if (sortBy === 'price') {
-        filteredProperties.sort((a, b) => {
-          const priceA = typeof type === 'string' && type.toLowerCase() === 'sale'
-            ? parseFloat(String(a.saleprice ?? '')) || 0
-            : parseFloat(a.rentmonth) || 0;
-          const priceB = typeof type === 'string' && type.toLowerCase() === 'sale'
-            ? parseFloat(String(b.saleprice ?? '')) || 0
-            : parseFloat(b.rentmonth) || 0;
-          return sortOrder === 'desc' ? priceB - priceA : priceA - priceB;
-        });
+      let data: PropertySearchDto | LegacyPropertySearchDto;
+      if (wantsLegacyProperties(req)) {
+        setLegacyHeaders(res);
+        data = presentLegacySearchResults(result);
+      } else {
+        data = presentSearchResults(result, await loadImageAssets(result.properties));
       }
 
-      // Pagination
-      const pageNum = parseInt(page as string);
-      const limitNum = parseInt(limit as string);
-      const startIndex = (pageNum - 1) * limitNum;
-      const endIndex = startIndex + limitNum;
-
-      const paginatedProperties = filteredProperties.slice(startIndex, endIndex);
-
-      // Extract unique areas and types (scoped to same rent/sale slice as this search)
-      const areas = [...new Set(scopedForFilters.map(prop => prop.area).filter(Boolean))];
-      const types = [...new Set(scopedForFilters.map(prop => prop.TYPE).filter(Boolean))];
-
-      // Calculate price range (sale searches use saleprice; otherwise rentmonth)
-      const prices =
-        typeof type === 'string' && type.toLowerCase() === 'sale'
-          ? scopedForFilters
-              .map(prop => parseFloat(String(prop.saleprice ?? '')))
-              .filter(price => !isNaN(price) && price > 0)
-          : scopedForFilters.map(prop => parseFloat(prop.rentmonth)).filter(price => !isNaN(price));
-      const priceRange = {
-        min: prices.length > 0 ? Math.min(...prices) : 0,
-        max: prices.length > 0 ? Math.max(...prices) : 0
-      };
-
-      const searchData = {
-        properties: paginatedProperties.map((property: any) => ({
-          ...property,
-          STATUS: formatStatus(property.STATUS),
-          images: processPropertyImages(property)
-        })),
-        pagination: {
-          page: pageNum,
-          limit: limitNum,
-          total: filteredProperties.length,
-          totalPages: Math.ceil(filteredProperties.length / limitNum),
-          hasNext: endIndex < filteredProperties.length,
-          hasPrev: pageNum > 1
-        },
-        filters: {
-          areas,
-          types,
-          priceRange
-        }
-      };
-
-      res.json({
+      const apiResponse: ApiResponse<PropertySearchDto | LegacyPropertySearchDto> & { dataset: DatasetFreshness } = {
         success: true,
-        data: searchData,
-        message: `Found ${paginatedProperties.length} properties matching search criteria (source: ${cacheSource})`,
+        data,
+        dataset: result.freshness,
+        message: `Found ${result.properties.length} properties matching search criteria (source: ${result.freshness.source})`,
         timestamp: new Date().toISOString()
-      });
+      };
+
+      res.json(apiResponse);
     } catch (error) {
       console.error('Error searching properties:', error);
       res.status(500).json({
@@ -394,16 +168,15 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
 
       const properties = await client.getFeaturedProperties(parseInt(limit as string));
 
-      // Process each property to add images object
-      // Explicitly preserve geolocation field
-      const processedProperties = properties.map((property: any) => ({
-        ...property,
-        STATUS: formatStatus(property.STATUS),
-        geolocation: property.geolocation || '',
-        images: processPropertyImages(property)
-      }));
+      let processedProperties: PropertyCardDto[] | LegacyPropertyDto[];
+      if (wantsLegacyProperties(req)) {
+        setLegacyHeaders(res);
+        processedProperties = properties.map(presentLegacyProperty);
+      } else {
+        processedProperties = presentPropertyCards(properties, await loadImageAssets(properties.map(normalizeProperty)));
+      }
 
-      const apiResponse: ApiResponse<PropertyAdvertising[]> = {
+      const apiResponse: ApiResponse<PropertyCardDto[] | LegacyPropertyDto[]> = {
         success: true,
         data: processedProperties,
         message: `Found ${processedProperties.length} featured properties`,
@@ -434,55 +207,56 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
       let property: PropertyAdvertising | null = null;
       let cacheSource = 'cache';
 
-      // Try to get property from Redis cache first
-      if (config.redis.enabled && redisCache.isReady()) {
-        property = await redisCache.get<PropertyAdvertising>(RedisCacheKeys.property(id));
+      // Try to get property from the snapshot store first
+      if (snapshotStore.isReady()) {
+        property = await snapshotStore.get<PropertyAdvertising>(RedisCacheKeys.property(id));
         if (property) {
-          console.log(`✅ Property ${id} found in Redis cache`);
+          console.log(`✅ Property ${id} found in snapshot store`);
+          setFreshnessHeaders(res, await getDatasetFreshness());
         }
       }
 
       // Fallback to API if not in cache
       if (!property) {
         cacheSource = 'api';
-        console.log(`⚠️ Property ${id} not in Redis cache, fetching from API`);
+        console.log(`⚠️ Property ${id} not in snapshot store, fetching from API`);
 
-      const response = await client.getPropertyAdvertising({
-        propref: id,
-        noimage: parseInt(noimage as string)
-      });
-
-      if (response.data.length === 0) {
-        return res.status(404).json({
-          success: false,
-          data: null,
-          message: `Property with ID ${id} not found`,
-          timestamp: new Date().toISOString()
+        const response = await client.getPropertyAdvertising({
+          propref: id,
+          noimage: parseInt(noimage as string)
         });
-      }
+
+        if (response.data.length === 0) {
+          return res.status(404).json({
+            success: false,
+            data: null,
+            message: `Property with ID ${id} not found`,
+            timestamp: new Date().toISOString()
+          });
+        }
 
         property = response.data[0];
+        setFreshnessHeaders(res, liveFreshness());
 
-        // Cache in Redis for 2 hours
-        if (config.redis.enabled && redisCache.isReady()) {
-          await redisCache.set(RedisCacheKeys.property(id), property, 7200);
+        // Keep for 2 hours
+        if (snapshotStore.isReady()) {
+          await snapshotStore.set(RedisCacheKeys.property(id), property, 7200);
         }
       }
 
-      // Process the property data to add images object
-      const { epcrating, taxband } = extractEpcAndTaxBand(property);
-      const processedProperty = {
-        ...property,
-        epcrating,
-        taxband,
-        STATUS: formatStatus(property.STATUS),
-        geolocation: property.geolocation || '',
-        images: processPropertyImages(property)
-      };
+      let data: PropertyDetailDto | LegacyPropertyDto;
+      if (wantsLegacyProperties(req)) {
+        setLegacyHeaders(res);
+        data = presentLegacyProperty(property);
+      } else {
+        const normalized = normalizeProperty(property);
+        const media = await loadPropertyMedia(normalized.propref);
+        data = presentPropertyDetail(normalized, await loadImageAssets([normalized], media), media);
+      }
 
-      const apiResponse: ApiResponse<PropertyAdvertising> = {
+      const apiResponse: ApiResponse<PropertyDetailDto | LegacyPropertyDto> = {
         success: true,
-        data: processedProperty as any,
+        data,
         message: `Property found (source: ${cacheSource})`,
         timestamp: new Date().toISOString()
       };
@@ -507,8 +281,8 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
     try {
       const { id } = req.params;
 
-      // Try to get property from Redis cache first
-      let property = await redisCache.get<PropertyAdvertising>(RedisCacheKeys.property(id));
+      // Try to get property from the snapshot store first
+      let property = await snapshotStore.get<PropertyAdvertising>(RedisCacheKeys.property(id));
 
       // Fallback to API if not in cache
       if (!property) {
@@ -528,9 +302,17 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
         });
       }
 
-      const images = processPropertyImages(property);
+      let images: PropertyImagesDto | LegacyPropertyImagesDto;
+      if (wantsLegacyProperties(req)) {
+        setLegacyHeaders(res);
+        images = presentLegacyImages(property);
+      } else {
+        const normalized = normalizeProperty(property);
+        const media = await loadPropertyMedia(normalized.propref);
+        images = presentPropertyImages(normalized, await loadImageAssets([normalized], media), media);
+      }
 
-      const apiResponse: ApiResponse<any> = {
+      const apiResponse: ApiResponse<PropertyImagesDto | LegacyPropertyImagesDto> = {
         success: true,
         data: images,
         message: `Found gallery images for property ${id}`,
@@ -549,5 +331,104 @@ export default function propertyRoutes(client: RentmanApiClient): Router {
     }
   });
 
+  /**
+   * GET /api/properties/:id/photos.zip
+   * Download the photos and floorplan as a ZIP in one size (?size=thumb|medium|large|original, original by default),
+   * named in Rentman's order with their captions, e.g. "01 - Living Room.jpg"
+   */
+  router.get(
+    '/:id/photos.zip',
+    asyncHandler(async (req: Request, res: Response) => {
+      const { id } = req.params;
+      const size = (req.query.size || 'original') as ImageSizeName;
+
+      if (!IMAGE_SIZE_NAMES.includes(size)) {
+        throw ErrorTypes.INVALID_PARAMETERS(`size must be one of ${IMAGE_SIZE_NAMES.join(', ')}`);
+      }
+
+      let property = await snapshotStore.get<PropertyAdvertising>(RedisCacheKeys.property(id));
+      if (!property) {
+        const response = await client.getPropertyAdvertising({ propref: id, noimage: 0 });
+        property = response.data[0];
+      }
+
+      if (!property) {
+        throw ErrorTypes.NOT_FOUND(`Property with ID ${id} not found`);
+      }
+
+      const normalized = normalizeProperty(property);
+      const files = photoArchiveFiles(buildGallery(normalized, await loadPropertyMedia(normalized.propref)));
+      const assets = await resolveArchiveAssets(files);
+
+      if (assets.size === 0) {
+        throw ErrorTypes.IMAGE_NOT_FOUND(`No photos available for property ${id}`);
+      }
+
+      res.set({
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="property-${normalized.propref.replace(/[^\w-]/g, '_')}-photos-${size}.zip"`,
+        'Cache-Control': 'no-store'
+      });
+
+      const archive = createZipStream(photoArchiveEntries(files, assets, archiveTransformation(size)));
+      archive.on('error', error => {
+        logger.error(`❌ Photo archive of property ${id} failed:`, error);
+        res.destroy(error);
+      });
+      // Stop loading photos when the client goes away
+      res.on('close', () => archive.destroy());
+      archive.pipe(res);
+    })
+  );
+
+  /**
+   * GET /api/properties/:id/history
+   * Get price and status history recorded by the property sync
+   */
+  router.get('/:id/history', async (req: Request, res: Response) => {
+    try {
+      const { id } = req.params;
+
+      if (!snapshotStore.isReady()) {
+        return res.status(503).json({
+          success: false,
+          data: null,
+          message: 'Property history is unavailable',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // Stored newest first
+      const entries = await snapshotStore.getList<PropertyHistoryEntry>(RedisCacheKeys.propertyHistory(id));
+      const history = summarizeHistory(id, entries.reverse());
+
+      if (!history) {
+        return res.status(404).json({
+          success: false,
+          data: null,
+          message: `No history recorded for property ${id}`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      const apiResponse: ApiResponse<PropertyHistory> = {
+        success: true,
+        data: history,
+        message: `Found ${history.entries.length} history entries for property ${id}`,
+        timestamp: new Date().toISOString()
+      };
+
+      res.json(apiResponse);
+    } catch (error) {
+      console.error('Error fetching property history:', error);
+      res.status(500).json({
+        success: false,
+        data: null,
+        message: 'Failed to fetch property history',
+        timestamp: new Date().toISOString()
+      });
+    }
+  });
+
   return router;
 }
\ No newline at end of file
@@ -5,113 +5,45 @@
 
 import { Router, Request, Response } from 'express';
 import { RentmanApiClient } from '../../client/RentmanApiClient';
-import { PropertyAdvertising, ApiResponse } from '../../types';
+import { ApiResponse, DatasetFreshness, LegacyPropertySearchDto, PropertySearchDto } from '../../types';
+import { PropertySearchEngine, parseSearchQuery } from '../../services/propertySearch';
+import { setFreshnessHeaders } from '../../services/propertyDataset';
+import { loadImageAssets, presentSearchResults } from '../presenters/propertyPresenter';
+import { presentLegacySearchResults, wantsLegacyProperties } from '../presenters/legacyPropertyPresenter';
+
+const SEARCH_SUCCESSOR = '/api/properties/search';
 
 export default function searchRoutes(client: RentmanApiClient): Router {
   const router = Router();
+  const searchEngine = new PropertySearchEngine(client);
 
   /**
    * GET /api/search/properties
-   * Advanced property search
+   * Deprecated duplicate of GET /api/properties/search - same engine and response, with Deprecation
+   * and Link headers pointing clients to the successor
    */
   router.get('/properties', async (req: Request, res: Response) => {
-    try {
-      const { 
-        q, 
-        area, 
-        type, 
-        beds, 
-        minPrice, 
-        maxPrice, 
-        featured,
-        page = 1, 
-        limit = 12 
-      } = req.query;
-
-      // Build search parameters
-      const params: any = {
-        page: parseInt(page as string),
-        limit: parseInt(limit as string),
-        noimage: 1
-      };
-
-      if (area) params.area = 1;
-      if (featured) params.featured = 1;
-      if (type) params.rob = type;
+    res.set({
+      Deprecation: 'true',
+      Link: `<${SEARCH_SUCCESSOR}>; rel="successor-version"`
+    });
 
-      const response = await client.getPropertyAdvertising(params);
-      
-      // Apply client-side filters
-      let filteredProperties = response.data;
-
-      if (q) {
-        const query = (q as string).toLowerCase();
-        filteredProperties = filteredProperties.filter(prop => 
-          prop.displayaddress.toLowerCase().includes(query) ||
-          prop.area.toLowerCase().includes(query) ||
-          prop.DESCRIPTION.toLowerCase().includes(query) ||
-          prop.strapline.toLowerCase().includes(query)
-        );
-      }
-
-      if (beds) {
-        const bedCount = parseInt(beds as string);
-        filteredProperties = filteredProperties.filter(prop => {
-          const totalBeds = parseInt(prop.beds) + parseInt(prop.singles) + parseInt(prop.doubles);
-          return totalBeds === bedCount;
-        });
-      }
+    try {
+      const query = parseSearchQuery(req.query);
+      const result = await searchEngine.search(query);
 
-      if (minPrice || maxPrice) {
-        filteredProperties = filteredProperties.filter(prop => {
-          const price = parseFloat(prop.rentmonth);
-          if (minPrice && price < parseFloat(minPrice as string)) return false;
-          if (maxPrice && price > parseFloat(maxPrice as string)) return false;
-          return true;
-        });
-      }
+      setFreshnessHeaders(res, result.freshness);
 
-      // Calculate pagination
-      const totalPages = Math.ceil(filteredProperties.length / parseInt(limit as string));
-      const currentPage = parseInt(page as string);
+      // Deprecation is already set for the whole endpoint
+      const data = wantsLegacyProperties(req)
+        ? presentLegacySearchResults(result)
+        : presentSearchResults(result, await loadImageAssets(result.properties));
 
-      const searchResponse: ApiResponse<{
-        properties: PropertyAdvertising[];
-        pagination: {
-          page: number;
-          limit: number;
-          total: number;
-          totalPages: number;
-          hasNext: boolean;
-          hasPrev: boolean;
-        };
-        filters: {
-          areas: string[];
-          types: string[];
-          priceRange: { min: number; max: number };
-        };
-      }> = {
+      const searchResponse: ApiResponse<PropertySearchDto | LegacyPropertySearchDto> & { dataset: DatasetFreshness } = {
         success: true,
-        data: {
-          properties: filteredProperties,
-          pagination: {
-            page: currentPage,
-            limit: parseInt(limit as string),
-            total: filteredProperties.length,
-            totalPages,
-            hasNext: currentPage < totalPages,
-            hasPrev: currentPage > 1
-          },
-          filters: {
-            areas: [...new Set(response.data.map(p => p.area))],
-            types: [...new Set(response.data.map(p => p.TYPE))],
-            priceRange: {
-              min: Math.min(...response.data.map(p => parseFloat(p.rentmonth))),
-              max: Math.max(...response.data.map(p => parseFloat(p.rentmonth)))
-            }
-          }
-        },
-        message: `Found ${filteredProperties.length} properties matching search criteria`,
+        data,
+        dataset: result.freshness,
+        message: `Found ${result.properties.length} properties matching search criteria (deprecated, use ${SEARCH_SUCCESSOR})`,
         timestamp: new Date().toISOString()
       };
 
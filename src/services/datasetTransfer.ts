@@ -0,0 +1,256 @@
+/**
+ * Dataset Transfer
+ * Export the synced property dataset (plus media metadata) as NDJSON or a tarball and read it back,
+ * so staging and developer machines can be seeded without a Rentman token
+ */
+
+import zlib from 'zlib';
+import { promisify } from 'util';
+import tar from 'tar-stream';
+import { RentmanApiClient } from '../client/RentmanApiClient';
+import {
+  PropertyAdvertising,
+  PropertyMediaMetadata,
+  DatasetBundle,
+  DatasetFormat,
+  DatasetManifest,
+  SyncMetadata,
+  SyncRun
+} from '../types';
+import { PropertySyncService } from './propertySyncService';
+import { getCachedMedia, refreshMedia } from './propertyMedia';
+import { RedisCacheKeys } from '../utils/redisCache';
+import { snapshotStore } from '../utils/snapshotStore';
+import { logger } from '../utils/logger';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+/** Internal Rentman fields blanked when exporting with anonymize */
+export const ANONYMIZED_FIELDS = ['comments'] as const;
+
+const TAR_ENTRIES = {
+  manifest: 'manifest.json',
+  properties: 'properties.ndjson',
+  media: 'media.ndjson'
+};
+
+export interface ExportOptions {
+  anonymize?: boolean;
+  /** Fetch media metadata missing from the store from Rentman (needs a client with a token) */
+  fetchMedia?: boolean;
+  client?: RentmanApiClient;
+}
+
+/**
+ * Blank internal fields that should not leave production
+ */
+export function anonymizeProperty(property: PropertyAdvertising): PropertyAdvertising {
+  const anonymized = { ...property } as unknown as Record<string, unknown>;
+  for (const field of ANONYMIZED_FIELDS) {
+    if (field in anonymized) {
+      anonymized[field] = '';
+    }
+  }
+  return anonymized as unknown as PropertyAdvertising;
+}
+
+/**
+ * Media metadata for a property from the store, optionally fetched from Rentman when missing
+ */
+async function collectMedia(propref: string, options: ExportOptions): Promise<PropertyMediaMetadata[]> {
+  const cached = await getCachedMedia(propref);
+  if (cached || !options.fetchMedia || !options.client) {
+    return cached || [];
+  }
+
+  try {
+    return await refreshMedia(options.client, propref);
+  } catch (error) {
+    logger.warn(`⚠️ Could not fetch media metadata for property ${propref}`, {
+      error: error instanceof Error ? error.message : String(error)
+    });
+    return [];
+  }
+}
+
+/**
+ * Build an export bundle from the snapshot store
+ */
+export async function exportDataset(options: ExportOptions = {}): Promise<DatasetBundle> {
+  const properties = await snapshotStore.get<PropertyAdvertising[]>(RedisCacheKeys.allProperties());
+  if (!properties || properties.length === 0) {
+    throw new Error('No synced dataset to export');
+  }
+
+  const metadata = await snapshotStore.get<SyncMetadata>(RedisCacheKeys.metadata());
+
+  const media: PropertyMediaMetadata[] = [];
+  for (const property of properties) {
+    media.push(...await collectMedia(String(property.propref), options));
+  }
+
+  const manifest: DatasetManifest = {
+    format: 'rentman-dataset',
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    lastSync: metadata?.lastSync || null,
+    anonymized: Boolean(options.anonymize),
+    counts: {
+      properties: properties.length,
+      media: media.length
+    }
+  };
+
+  return {
+    manifest,
+    properties: options.anonymize ? properties.map(anonymizeProperty) : properties,
+    media
+  };
+}
+
+function toNdjson(records: unknown[]): string {
+  return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
+
+function fromNdjson<T>(content: string): T[] {
+  return content
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as T);
+}
+
+/**
+ * Single-file NDJSON: a manifest line followed by typed property and media lines
+ */
+function serializeNdjson(bundle: DatasetBundle): Buffer {
+  return Buffer.from(toNdjson([
+    { type: 'manifest', data: bundle.manifest },
+    ...bundle.properties.map(data => ({ type: 'property', data })),
+    ...bundle.media.map(data => ({ type: 'media', data }))
+  ]));
+}
+
+function parseNdjson(content: string): DatasetBundle {
+  const bundle: Partial<DatasetBundle> = { properties: [], media: [] };
+
+  for (const line of fromNdjson<{ type: string; data: unknown }>(content)) {
+    if (line.type === 'manifest') {
+      bundle.manifest = line.data as DatasetManifest;
+    } else if (line.type === 'property') {
+      bundle.properties!.push(line.data as PropertyAdvertising);
+    } else if (line.type === 'media') {
+      bundle.media!.push(line.data as PropertyMediaMetadata);
+    }
+  }
+
+  return validateBundle(bundle);
+}
+
+/**
+ * Gzipped tarball with manifest.json, properties.ndjson and media.ndjson
+ */
+async function packTarball(bundle: DatasetBundle): Promise<Buffer> {
+  const pack = tar.pack();
+  const chunks: Buffer[] = [];
+  pack.on('data', chunk => chunks.push(chunk as Buffer));
+  const finished = new Promise<void>((resolve, reject) => {
+    pack.on('end', resolve);
+    pack.on('error', reject);
+  });
+
+  pack.entry({ name: TAR_ENTRIES.manifest }, JSON.stringify(bundle.manifest, null, 2));
+  pack.entry({ name: TAR_ENTRIES.properties }, toNdjson(bundle.properties));
+  pack.entry({ name: TAR_ENTRIES.media }, toNdjson(bundle.media));
+  pack.finalize();
+
+  await finished;
+  return gzip(Buffer.concat(chunks));
+}
+
+async function unpackTarball(archive: Buffer): Promise<DatasetBundle> {
+  const files = new Map<string, string>();
+  const extract = tar.extract();
+
+  await new Promise<void>((resolve, reject) => {
+    extract.on('entry', (header, stream, next) => {
+      const chunks: Buffer[] = [];
+      stream.on('data', chunk => chunks.push(chunk as Buffer));
+      stream.on('end', () => {
+        files.set(header.name, Buffer.concat(chunks).toString('utf-8'));
+        next();
+      });
+      stream.on('error', reject);
+    });
+    extract.on('finish', resolve);
+    extract.on('error', reject);
+    extract.end(archive);
+  });
+
+  const manifest = files.get(TAR_ENTRIES.manifest);
+
+  return validateBundle({
+    manifest: manifest ? JSON.parse(manifest) as DatasetManifest : undefined,
+    properties: fromNdjson<PropertyAdvertising>(files.get(TAR_ENTRIES.properties) || ''),
+    media: fromNdjson<PropertyMediaMetadata>(files.get(TAR_ENTRIES.media) || '')
+  });
+}
+
+function validateBundle(bundle: Partial<DatasetBundle>): DatasetBundle {
+  if (!bundle.manifest || bundle.manifest.format !== 'rentman-dataset') {
+    throw new Error('Not a dataset export: manifest is missing');
+  }
+
+  if (bundle.manifest.version !== 1) {
+    throw new Error(`Unsupported dataset version ${bundle.manifest.version}`);
+  }
+
+  return {
+    manifest: bundle.manifest,
+    properties: bundle.properties || [],
+    media: bundle.media || []
+  };
+}
+
+/**
+ * Serialize a bundle as NDJSON or a gzipped tarball
+ */
+export async function serializeDataset(bundle: DatasetBundle, format: DatasetFormat): Promise<Buffer> {
+  return format === 'tar' ? packTarball(bundle) : serializeNdjson(bundle);
+}
+
+/**
+ * Parse an export - gzipped input is treated as a tarball, anything else as NDJSON
+ */
+export async function parseDataset(content: Buffer): Promise<DatasetBundle> {
+  const isGzip = content.length > 2 && content[0] === 0x1f && content[1] === 0x8b;
+  if (isGzip) {
+    return unpackTarball(await gunzip(content));
+  }
+
+  return parseNdjson(content.toString('utf-8'));
+}
+
+/**
+ * Import a bundle into the snapshot store through the sync apply path, then store its media metadata
+ */
+export async function importDataset(bundle: DatasetBundle, syncService: PropertySyncService): Promise<SyncRun> {
+  const run = await syncService.importDataset(bundle.properties, bundle.manifest.lastSync || bundle.manifest.exportedAt);
+  if (run.status !== 'success') {
+    return run;
+  }
+
+  const mediaByRef = new Map<string, PropertyMediaMetadata[]>();
+  for (const item of bundle.media) {
+    const propref = String(item.propref);
+    mediaByRef.set(propref, [...(mediaByRef.get(propref) || []), item]);
+  }
+
+  for (const [propref, media] of mediaByRef) {
+    await snapshotStore.set(RedisCacheKeys.propertyMedia(propref), media);
+  }
+
+  logger.info(`📦 Imported dataset exported at ${bundle.manifest.exportedAt} (${bundle.properties.length} properties, ${bundle.media.length} media)`);
+
+  return run;
+}
@@ -0,0 +1,288 @@
+/**
+ * Image Library
+ * Stored images with the property they belong to, and cleanup of images no synced property uses any more
+ */
+
+import path from 'path';
+import * as cron from 'node-cron';
+import { config } from '../config';
+import { ImageService } from '../images';
+import { jobQueue } from '../jobs';
+import {
+  ImageAsset,
+  ImageCleanupResult,
+  ImageOrigin,
+  Job,
+  LibraryImage,
+  PropertyMediaMetadata,
+  PropertySnapshot
+} from '../types';
+import { RedisCacheKeys } from '../utils/redisCache';
+import { snapshotStore } from '../utils/snapshotStore';
+import { logger } from '../utils/logger';
+import { getCachedMedia } from './propertyMedia';
+
+/** When the cleanup first found each unused image, keyed by base name */
+type OrphanLog = Record<string, string>;
+
+/**
+ * Images the synced dataset uses - photo fields and floorplans from the snapshot, plus every cached media item
+ */
+export interface ImageReferences {
+  /** Propref using each image, keyed by base name */
+  images: Map<string, string>;
+  /** Synced properties whose media has not been cached yet - images named after them count as used */
+  uncachedMedia: Set<string>;
+}
+
+export interface ImageCleanupOptions {
+  dryRun?: boolean;
+  now?: Date;
+  /** Stops the run before its next deletion, e.g. when the job's lease is lost */
+  signal?: AbortSignal;
+}
+
+/**
+ * Storage identity of an image - Cloudinary public ids have no extension
+ */
+export function imageBaseName(filename: string): string {
+  return path.basename(filename).replace(/\.[^/.]+$/, '');
+}
+
+/**
+ * Propref named by a Rentman filename (12345_1.jpg) - null for other filenames
+ */
+export function inferPropref(filename: string): string | null {
+  const match = /^(.+)_\d+$/.exec(imageBaseName(filename));
+  return match ? match[1] : null;
+}
+
+/**
+ * Where an image came from - entries without a recorded origin (stored before origins existed) are
+ * Rentman's when named like its photos
+ */
+export function imageOrigin(asset: ImageAsset): ImageOrigin {
+  return asset.origin || (inferPropref(asset.filename) ? 'rentman' : 'upload');
+}
+
+/**
+ * Images used by the synced properties - media items (EPC charts, extra photos) are only in the media
+ * metadata, so a property's images are its snapshot entry's and its cached media's
+ */
+export function imageReferences(
+  snapshot: PropertySnapshot,
+  media: Record<string, PropertyMediaMetadata[] | null> = {}
+): ImageReferences {
+  const references: ImageReferences = { images: new Map(), uncachedMedia: new Set() };
+
+  for (const entry of Object.values(snapshot)) {
+    const items = media[entry.propref];
+    if (!items) {
+      references.uncachedMedia.add(entry.propref);
+    }
+
+    [...(entry.images || []), ...(items || []).map(item => item.filename)]
+      .filter(Boolean)
+      .forEach(filename => references.images.set(imageBaseName(filename), entry.propref));
+  }
+  return references;
+}
+
+/**
+ * Propref of the synced property using an image - null when none does
+ */
+export function referencingPropref(references: ImageReferences, filename: string): string | null {
+  const used = references.images.get(imageBaseName(filename));
+  if (used) {
+    return used;
+  }
+
+  const named = inferPropref(filename);
+  return named && references.uncachedMedia.has(named) ? named : null;
+}
+
+/**
+ * Snapshot that can tell which images are unused - null before the first sync, for snapshots written
+ * before image lists existed, and for an empty dataset (more likely a broken sync than no listings at all)
+ */
+async function loadReferenceSnapshot(): Promise<PropertySnapshot | null> {
+  if (!snapshotStore.isReady()) {
+    return null;
+  }
+
+  const snapshot = await snapshotStore.get<PropertySnapshot>(RedisCacheKeys.snapshot());
+  const entries = snapshot ? Object.values(snapshot) : [];
+
+  return entries.length > 0 && entries.every(entry => Array.isArray(entry.images)) ? snapshot : null;
+}
+
+/**
+ * References of the synced dataset - null when the snapshot cannot tell which images are unused
+ */
+async function loadReferences(): Promise<ImageReferences | null> {
+  const snapshot = await loadReferenceSnapshot();
+  if (!snapshot) {
+    return null;
+  }
+
+  const media: Record<string, PropertyMediaMetadata[] | null> = {};
+  for (const propref of Object.keys(snapshot)) {
+    media[propref] = await getCachedMedia(propref);
+  }
+  return imageReferences(snapshot, media);
+}
+
+async function loadOrphanLog(): Promise<OrphanLog> {
+  return snapshotStore.isReady() ? (await snapshotStore.get<OrphanLog>(RedisCacheKeys.imageOrphans())) || {} : {};
+}
+
+/**
+ * Library entries of stored images - the propref using them, or the one their filename names
+ */
+export async function describeImages(assets: ImageAsset[]): Promise<LibraryImage[]> {
+  const references = await loadReferences();
+  const orphans = await loadOrphanLog();
+
+  return assets.map(asset => {
+    const baseName = imageBaseName(asset.filename);
+    const propref = references ? referencingPropref(references, asset.filename) : null;
+
+    return {
+      ...asset,
+      propref: propref || inferPropref(asset.filename),
+      referenced: references ? Boolean(propref) : null,
+      orphanedSince: orphans[baseName] || null
+    };
+  });
+}
+
+/**
+ * Delete stored images that no synced property has used for IMAGE_CLEANUP_GRACE_PERIOD.
+ * Images are recorded when first found unused and only deleted once the grace period has passed,
+ * so a property that is briefly withdrawn or missing from one sync keeps its photos.
+ * Only images fetched from Rentman are deleted - API uploads are kept (see imageOrigin).
+ */
+export async function cleanupOrphanedImages(
+  images: ImageService,
+  options: ImageCleanupOptions = {}
+): Promise<ImageCleanupResult> {
+  const dryRun = options.dryRun === true;
+  const now = options.now || new Date();
+  const result: ImageCleanupResult = {
+    dryRun,
+    scanned: 0,
+    referenced: 0,
+    orphaned: 0,
+    kept: 0,
+    expired: [],
+    deleted: [],
+    failed: [],
+    skipped: null
+  };
+
+  const references = await loadReferences();
+  if (!references) {
+    result.skipped = 'No synced dataset with image lists to compare with';
+    logger.warn(`⚠️ Image cleanup skipped: ${result.skipped}`);
+    return result;
+  }
+
+  const previous = await loadOrphanLog();
+  const orphans: OrphanLog = {};
+  const expired: ImageAsset[] = [];
+
+  let cursor: string | null = null;
+  do {
+    const page = await images.list(cursor);
+
+    for (const asset of page.assets) {
+      result.scanned++;
+      const baseName = imageBaseName(asset.filename);
+
+      if (referencingPropref(references, asset.filename)) {
+        result.referenced++;
+        continue;
+      }
+
+      if (imageOrigin(asset) !== 'rentman') {
+        result.kept++;
+        continue;
+      }
+
+      result.orphaned++;
+      orphans[baseName] = previous[baseName] || now.toISOString();
+      if (now.getTime() - Date.parse(orphans[baseName]) >= config.images.cleanup.gracePeriod * 1000) {
+        expired.push(asset);
+      }
+    }
+
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  // Deleted after the listing, so the pages being walked never shift
+  for (const asset of expired) {
+    result.expired.push(asset.filename);
+    if (dryRun) {
+      continue;
+    }
+
+    options.signal?.throwIfAborted();
+    try {
+      if (await images.remove(asset)) {
+        result.deleted.push(asset.filename);
+        delete orphans[imageBaseName(asset.filename)];
+      } else {
+        result.failed.push(asset.filename);
+      }
+    } catch (error) {
+      logger.warn(`⚠️ Could not delete orphaned image ${asset.filename}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      result.failed.push(asset.filename);
+    }
+  }
+
+  if (!dryRun) {
+    options.signal?.throwIfAborted();
+    await snapshotStore.set(RedisCacheKeys.imageOrphans(), orphans);
+  }
+
+  logger.info(
+    `🧹 Image cleanup${dryRun ? ' (dry run)' : ''}: ${result.scanned} scanned, ${result.orphaned} unused, ` +
+    `${result.kept} kept, ${result.expired.length} past the grace period, ${result.deleted.length} deleted, ${result.failed.length} failed`
+  );
+  return result;
+}
+
+/**
+ * Queue a cleanup run - the dedupe key keeps it to one at a time across instances
+ */
+export function queueImageCleanup(dryRun: boolean = false): Promise<Job<'images.cleanup'>> {
+  return jobQueue.enqueue('images.cleanup', { dryRun }, { dedupeKey: dryRun ? 'images:cleanup:dry-run' : 'images:cleanup' });
+}
+
+/**
+ * Queue a cleanup on IMAGE_CLEANUP_INTERVAL - null when disabled
+ */
+export function scheduleImageCleanup(): cron.ScheduledTask | null {
+  if (!config.images.cleanup.enabled) {
+    logger.info('⏸️ Orphaned image cleanup is disabled in configuration');
+    return null;
+  }
+
+  try {
+    const task = cron.schedule(config.images.cleanup.interval, () => {
+      queueImageCleanup().catch(error => {
+        logger.warn('⚠️ Could not queue the orphaned image cleanup', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    });
+
+    logger.info(`✅ Orphaned image cleanup scheduled: ${config.images.cleanup.interval}`);
+    return task;
+  } catch (error) {
+    logger.error('❌ Failed to schedule the orphaned image cleanup:', error);
+    return null;
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Photo Archive
+ * A property's photos and floorplan as ZIP entries in one size, named in Rentman's order with their captions
+ */
+
+import fs from 'fs';
+import { Readable } from 'stream';
+import { imageService, fetchOriginImage, presetTransformation, transformationKey, withWatermark } from '../images';
+import { jobQueue } from '../jobs';
+import { ImageAsset, ImageSizeName, ImageTransformation } from '../types';
+import { PropertyGallery } from '../utils/propertyGallery';
+import { ZipEntry } from '../utils/zipStream';
+import { logger } from '../utils/logger';
+
+export interface PhotoArchiveFile {
+  /** Rentman filename */
+  filename: string;
+  /** Entry name without an extension, e.g. "01 - Living Room" */
+  name: string;
+}
+
+// How long the archive waits for photos that are not stored yet
+const ARCHIVE_UPLOAD_WAIT_MS = 30000;
+
+const CAPTION_MAX_LENGTH = 60;
+
+const CONTENT_TYPE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/avif': 'avif',
+  'image/gif': 'gif'
+};
+
+/**
+ * Caption usable in a file name on any OS
+ */
+function safeCaption(caption: string): string {
+  return caption
+    .replace(/[\\/:*?"<>|\p{Cc}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .slice(0, CAPTION_MAX_LENGTH)
+    .replace(/[. ]+$/, '');
+}
+
+/**
+ * Archive names of a gallery - photos numbered in imgorder, then the floorplan.
+ * Photos without a caption are just numbered.
+ */
+export function photoArchiveFiles(gallery: PropertyGallery): PhotoArchiveFile[] {
+  const digits = Math.max(2, String(gallery.photos.length).length);
+
+  const files = gallery.photos.map((photo, index) => {
+    const number = String(index + 1).padStart(digits, '0');
+    const caption = photo.caption ? safeCaption(photo.caption) : '';
+    return { filename: photo.filename, name: caption ? `${number} - ${caption}` : number };
+  });
+
+  if (gallery.floorplan) {
+    const caption = gallery.floorplan.caption ? safeCaption(gallery.floorplan.caption) : '';
+    files.push({
+      filename: gallery.floorplan.filename,
+      name: caption && caption.toLowerCase() !== 'floorplan' ? `Floorplan - ${caption}` : 'Floorplan'
+    });
+  }
+
+  return files;
+}
+
+/**
+ * Transformation of an archive size - resized images are JPEGs, the original keeps its format
+ */
+export function archiveTransformation(size: ImageSizeName): ImageTransformation {
+  const transformation = withWatermark(presetTransformation(size));
+  return transformationKey(transformation) === 'original' ? transformation : { ...transformation, format: 'jpg' };
+}
+
+/**
+ * Stored assets of the files - photos not stored yet are uploaded by jobs first,
+ * and the ones that fail or take too long are left out
+ */
+export async function resolveArchiveAssets(files: PhotoArchiveFile[]): Promise<Map<string, ImageAsset>> {
+  const assets = await imageService.assets(files.map(file => file.filename));
+  const missing = files.filter(file => !assets.has(file.filename));
+
+  await Promise.all(missing.map(async ({ filename }) => {
+    try {
+      // Shares the upload job of concurrent image requests
+      const job = await jobQueue.enqueue('image.upload', { filename }, { dedupeKey: filename });
+      const finished = await jobQueue.waitFor<'image.upload'>(job.id, ARCHIVE_UPLOAD_WAIT_MS);
+
+      if (finished?.status === 'completed' && finished.result) {
+        assets.set(filename, finished.result);
+      } else {
+        logger.warn(`⚠️ Photo ${filename} left out of the archive: ${finished?.lastError || 'upload still pending'}`);
+      }
+    } catch (error) {
+      logger.warn(`⚠️ Photo ${filename} left out of the archive`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }));
+
+  return assets;
+}
+
+async function readStream(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Bytes and content type of a stored image's transformation, wherever the provider delivers it from
+ */
+async function loadImage(asset: ImageAsset, transformation: ImageTransformation): Promise<{ data: Buffer; contentType: string }> {
+  const delivery = await imageService.deliver(asset, transformation);
+
+  if (delivery.type === 'file') {
+    return { data: await fs.promises.readFile(delivery.path), contentType: delivery.contentType };
+  }
+
+  const origin = await fetchOriginImage(delivery.url);
+  return { data: await readStream(origin.stream), contentType: origin.contentType };
+}
+
+/**
+ * ZIP entries of the files, loaded one at a time as the archive is streamed.
+ * Images that fail to load are logged and left out - the response has already started.
+ */
+export async function* photoArchiveEntries(
+  files: PhotoArchiveFile[],
+  assets: Map<string, ImageAsset>,
+  transformation: ImageTransformation
+): AsyncGenerator<ZipEntry> {
+  for (const file of files) {
+    const asset = assets.get(file.filename);
+    if (!asset) {
+      continue;
+    }
+
+    try {
+      const { data, contentType } = await loadImage(asset, transformation);
+      const extension = CONTENT_TYPE_EXTENSIONS[contentType.split(';')[0].trim()] || asset.format || 'jpg';
+
+      yield { name: `${file.name}.${extension}`, data, modified: new Date(asset.uploadedAt) };
+    } catch (error) {
+      logger.warn(`⚠️ Photo ${file.filename} left out of the archive`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
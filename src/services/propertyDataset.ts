@@ -0,0 +1,79 @@
+/**
+ * Property Dataset
+ * Read side of the synced dataset - serves the last known good data and reports how fresh it is
+ */
+
+import { Response } from 'express';
+import { PropertyAdvertising, SyncMetadata, DatasetFreshness } from '../types';
+import { RedisCacheKeys } from '../utils/redisCache';
+import { snapshotStore } from '../utils/snapshotStore';
+import { config } from '../config';
+
+export interface PropertyDataset {
+  properties: PropertyAdvertising[];
+  freshness: DatasetFreshness;
+}
+
+/**
+ * Freshness of the synced data, based on the metadata of the last successful sync
+ */
+export function getFreshness(metadata: SyncMetadata | null, now: Date = new Date()): DatasetFreshness {
+  if (!metadata) {
+    return { source: 'snapshot', lastSync: null, ageSeconds: null, stale: true };
+  }
+
+  const ageSeconds = Math.max(0, Math.floor((now.getTime() - new Date(metadata.lastSync).getTime()) / 1000));
+
+  return {
+    source: 'snapshot',
+    lastSync: metadata.lastSync,
+    ageSeconds,
+    stale: ageSeconds > config.sync.staleAfter
+  };
+}
+
+/**
+ * Freshness of data fetched from Rentman for this request
+ */
+export function liveFreshness(): DatasetFreshness {
+  return { source: 'api', lastSync: null, ageSeconds: 0, stale: false };
+}
+
+/**
+ * Freshness of the dataset currently in the snapshot store
+ */
+export async function getDatasetFreshness(): Promise<DatasetFreshness> {
+  return getFreshness(await snapshotStore.get<SyncMetadata>(RedisCacheKeys.metadata()));
+}
+
+/**
+ * Last known good dataset from the snapshot store, however old - null when nothing has been synced yet
+ */
+export async function getCachedDataset(): Promise<PropertyDataset | null> {
+  if (!snapshotStore.isReady()) {
+    return null;
+  }
+
+  const properties = await snapshotStore.get<PropertyAdvertising[]>(RedisCacheKeys.allProperties());
+  if (!properties || properties.length === 0) {
+    return null;
+  }
+
+  return { properties, freshness: await getDatasetFreshness() };
+}
+
+/**
+ * Set X-Data-Source, X-Data-Age, X-Data-Last-Sync and X-Data-Stale response headers
+ */
+export function setFreshnessHeaders(res: Response, freshness: DatasetFreshness): void {
+  res.set('X-Data-Source', freshness.source);
+  res.set('X-Data-Stale', String(freshness.stale));
+
+  if (freshness.ageSeconds !== null) {
+    res.set('X-Data-Age', String(freshness.ageSeconds));
+  }
+
+  if (freshness.lastSync) {
+    res.set('X-Data-Last-Sync', freshness.lastSync);
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Property Event Bus
+ * In-process publish/subscribe for listing lifecycle events
+ */
+
+import { EventEmitter } from 'events';
+import { PropertyEvent, PropertyEventType } from '../types';
+import { logger } from '../utils/logger';
+
+type PropertyEventOf<T extends PropertyEventType> = Extract<PropertyEvent, { type: T }>;
+type PropertyEventHandler<E extends PropertyEvent = PropertyEvent> = (event: E) => void | Promise<void>;
+
+const ALL_EVENTS = '*';
+
+export class PropertyEventBus {
+  private emitter = new EventEmitter();
+
+  constructor() {
+    // Subscribers are long-lived services, not per-request listeners
+    this.emitter.setMaxListeners(50);
+  }
+
+  /**
+   * Subscribe to one event type - returns an unsubscribe function
+   */
+  subscribe<T extends PropertyEventType>(type: T, handler: PropertyEventHandler<PropertyEventOf<T>>): () => void {
+    return this.addListener(type, handler as PropertyEventHandler);
+  }
+
+  /**
+   * Subscribe to every event type - returns an unsubscribe function
+   */
+  subscribeAll(handler: PropertyEventHandler): () => void {
+    return this.addListener(ALL_EVENTS, handler);
+  }
+
+  /**
+   * Publish events to subscribers. A failing subscriber never affects the publisher or other subscribers.
+   */
+  publish(events: PropertyEvent[]): void {
+    for (const event of events) {
+      this.emitter.emit(event.type, event);
+      this.emitter.emit(ALL_EVENTS, event);
+    }
+  }
+
+  private addListener(type: string, handler: PropertyEventHandler): () => void {
+    const listener = (event: PropertyEvent) => {
+      try {
+        Promise.resolve(handler(event)).catch(error => this.logHandlerError(event, error));
+      } catch (error) {
+        this.logHandlerError(event, error);
+      }
+    };
+
+    this.emitter.on(type, listener);
+    return () => {
+      this.emitter.off(type, listener);
+    };
+  }
+
+  private logHandlerError(event: PropertyEvent, error: unknown): void {
+    logger.error(`❌ Property event handler failed for ${event.type}`, {
+      eventId: event.id,
+      propref: event.propref,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+}
+
+// Create and export singleton instance
+export const propertyEventBus = new PropertyEventBus();
@@ -0,0 +1,61 @@
+/**
+ * Property Media
+ * Media metadata (captions and order, without the image payloads) cached in the snapshot store
+ */
+
+import { RentmanApiClient } from '../client/RentmanApiClient';
+import { jobQueue } from '../jobs';
+import { PropertyMediaMetadata } from '../types';
+import { RedisCacheKeys } from '../utils/redisCache';
+import { snapshotStore } from '../utils/snapshotStore';
+import { logger } from '../utils/logger';
+
+/**
+ * Cached media metadata of a property - null when it has not been fetched yet
+ */
+export async function getCachedMedia(propref: string): Promise<PropertyMediaMetadata[] | null> {
+  if (!snapshotStore.isReady()) {
+    return null;
+  }
+
+  return snapshotStore.get<PropertyMediaMetadata[]>(RedisCacheKeys.propertyMedia(propref));
+}
+
+/**
+ * Cached media metadata for a response - when nothing is cached yet a refresh is queued
+ * and an empty list returned, so requests never wait for Rentman's media payloads
+ */
+export async function loadPropertyMedia(propref: string): Promise<PropertyMediaMetadata[]> {
+  const cached = await getCachedMedia(propref);
+  if (cached) {
+    return cached;
+  }
+
+  if (snapshotStore.isReady()) {
+    jobQueue.enqueue('media.refresh', { propref }, { dedupeKey: `media:${propref}` }).catch(error => {
+      logger.warn(`⚠️ Could not queue media refresh for property ${propref}`, {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  }
+
+  return [];
+}
+
+/**
+ * Fetch a property's media from Rentman and cache its metadata - not cached when the signal aborted meanwhile
+ */
+export async function refreshMedia(
+  client: RentmanApiClient,
+  propref: string,
+  signal?: AbortSignal
+): Promise<PropertyMediaMetadata[]> {
+  const response = await client.getPropertyMedia({ propref });
+  const media = (Array.isArray(response.data) ? response.data : [response.data])
+    .filter(Boolean)
+    .map(({ base64data: _base64data, ...metadata }) => metadata);
+
+  signal?.throwIfAborted();
+  await snapshotStore.set(RedisCacheKeys.propertyMedia(propref), media);
+  return media;
+}
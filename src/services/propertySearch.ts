@@ -0,0 +1,193 @@
+/**
+ * Property Search
+ * One search engine for /api/properties/search and the deprecated /api/search/properties -
+ * filters, sorts and paginates the synced dataset, falling back to Rentman before the first sync
+ */
+
+import { RentmanApiClient } from '../client/RentmanApiClient';
+import {
+  NormalizedProperty,
+  PropertyAdvertising,
+  PropertySearchFilters,
+  PropertySearchQuery,
+  PropertySearchResult
+} from '../types';
+import { normalizeProperty } from '../utils/propertyNormalizer';
+import { cache, CacheKeys } from '../utils/cache';
+import { validateSearchParams } from '../utils/validators';
+import { logger } from '../utils/logger';
+import { PropertyDataset, getCachedDataset, liveFreshness } from './propertyDataset';
+
+export const DEFAULT_SEARCH_LIMIT = 12;
+
+// Rentman is asked for everything when nothing has been synced yet
+const FALLBACK_FETCH_LIMIT = 1000;
+
+// Searches before the first sync share one fetch for this long
+const FALLBACK_CACHE_TTL = 900;
+
+/** Listings fetched from Rentman while there is no synced dataset */
+interface FallbackDataset {
+  properties: PropertyAdvertising[];
+  fetchedAt: number;
+}
+
+/**
+ * Parse search query parameters - invalid values are ignored rather than rejected, as both endpoints always have
+ */
+export function parseSearchQuery(params: Record<string, unknown>): PropertySearchQuery {
+  const validated = validateSearchParams(params);
+
+  return {
+    ...validated,
+    q: validated.q || undefined,
+    area: validated.area || undefined,
+    type: validated.type as PropertySearchQuery['type'],
+    sortBy: validated.sortBy || 'price',
+    sortOrder: validated.sortOrder || 'desc',
+    page: validated.page || 1,
+    limit: validated.limit || DEFAULT_SEARCH_LIMIT
+  };
+}
+
+/**
+ * Price a search compares and sorts by - the sale price when searching sales, the monthly rent otherwise
+ */
+function searchPrice(property: NormalizedProperty, query: PropertySearchQuery): number | null {
+  return query.type === 'sale' ? property.salePrice : property.rentPerMonth;
+}
+
+function matchesText(property: NormalizedProperty, text: string): boolean {
+  const needle = text.toLowerCase();
+  return [
+    property.displayAddress,
+    property.address.locality,
+    property.area,
+    property.description,
+    property.strapline
+  ].some(field => field.toLowerCase().includes(needle));
+}
+
+/**
+ * Properties of the searched listing type - lettings with a rent, or sales
+ */
+function scopeToType(properties: NormalizedProperty[], query: PropertySearchQuery): NormalizedProperty[] {
+  if (query.type === 'rent') {
+    return properties.filter(property => property.listingType === 'let' && property.rentPerMonth !== null);
+  }
+  if (query.type === 'sale') {
+    return properties.filter(property => property.listingType === 'sale');
+  }
+  return properties;
+}
+
+function matchesQuery(property: NormalizedProperty, query: PropertySearchQuery): boolean {
+  const price = searchPrice(property, query);
+
+  if (query.q && !matchesText(property, query.q)) return false;
+  if (query.area && property.area.toLowerCase() !== query.area.toLowerCase()) return false;
+  if (query.beds !== undefined && property.bedrooms !== query.beds) return false;
+  if (query.minPrice !== undefined && (price === null || price < query.minPrice)) return false;
+  if (query.maxPrice !== undefined && (price === null || price > query.maxPrice)) return false;
+  if (query.minSalePrice !== undefined && (property.salePrice ?? 0) < query.minSalePrice) return false;
+  if (query.featured && !property.featured) return false;
+  return true;
+}
+
+function searchFilters(properties: NormalizedProperty[], query: PropertySearchQuery): PropertySearchFilters {
+  const prices = properties
+    .map(property => searchPrice(property, query))
+    .filter((price): price is number => price !== null);
+
+  return {
+    areas: [...new Set(properties.map(property => property.area).filter(Boolean))],
+    types: [...new Set(properties.map(property => property.propertyType).filter(Boolean))],
+    priceRange: {
+      min: prices.length > 0 ? Math.min(...prices) : 0,
+      max: prices.length > 0 ? Math.max(...prices) : 0
+    }
+  };
+}
+
+/**
+ * Filter, sort and paginate properties. Filter values cover the whole listing type, not just the matches,
+ * so a narrowed search still offers every area and type.
+ */
+export function searchProperties(
+  properties: NormalizedProperty[],
+  query: PropertySearchQuery
+): Omit<PropertySearchResult, 'records' | 'freshness'> {
+  const scoped = scopeToType(properties, query);
+  const matches = scoped.filter(property => matchesQuery(property, query));
+
+  if (query.sortBy === 'price') {
+    const direction = query.sortOrder === 'asc' ? 1 : -1;
+    matches.sort((a, b) => direction * ((searchPrice(a, query) ?? 0) - (searchPrice(b, query) ?? 0)));
+  }
+
+  const start = (query.page - 1) * query.limit;
+  const totalPages = Math.ceil(matches.length / query.limit);
+
+  return {
+    properties: matches.slice(start, start + query.limit),
+    pagination: {
+      page: query.page,
+      limit: query.limit,
+      total: matches.length,
+      totalPages,
+      hasNext: query.page < totalPages,
+      hasPrev: query.page > 1
+    },
+    filters: searchFilters(scoped, query)
+  };
+}
+
+export class PropertySearchEngine {
+  constructor(private client: RentmanApiClient) {}
+
+  /**
+   * Search the last known good dataset, however old - its freshness is part of the result
+   */
+  async search(query: PropertySearchQuery): Promise<PropertySearchResult> {
+    const dataset = await this.loadDataset();
+    const normalized = dataset.properties.map(normalizeProperty);
+    const result = searchProperties(normalized, query);
+    // Matches are the normalized objects themselves, so each maps back to its record
+    const records = new Map(normalized.map((property, index) => [property, dataset.properties[index]]));
+
+    return {
+      ...result,
+      records: result.properties.map(property => records.get(property) as PropertyAdvertising),
+      freshness: dataset.freshness
+    };
+  }
+
+  /**
+   * Synced dataset, or all of Rentman's listings before the first sync. The fetched listings are cached
+   * in memory, not in the snapshot store - the synced dataset's key only ever holds a sync's data.
+   */
+  private async loadDataset(): Promise<PropertyDataset> {
+    const synced = await getCachedDataset();
+    if (synced) {
+      return synced;
+    }
+
+    let fallback = cache.get<FallbackDataset>(CacheKeys.searchFallback());
+    if (!fallback) {
+      logger.warn('⚠️ No synced dataset to search, fetching from Rentman API');
+
+      // Unfiltered, so every search can share it whatever the first one asked for
+      const response = await this.client.getPropertyAdvertising({ noimage: 1, limit: FALLBACK_FETCH_LIMIT });
+      fallback = {
+        properties: Array.isArray(response.data) ? response.data : [response.data],
+        fetchedAt: Date.now()
+      };
+      cache.set(CacheKeys.searchFallback(), fallback, FALLBACK_CACHE_TTL);
+    }
+
+    return {
+      properties: fallback.properties,
+      freshness: { ...liveFreshness(), ageSeconds: Math.floor((Date.now() - fallback.fetchedAt) / 1000) }
+    };
+  }
+}
@@ -1,14 +1,46 @@
 /**
  * Property Sync Service
- * Scheduled synchronization of properties from Rentman API to Redis
+ * Scheduled synchronization of properties from Rentman API to the snapshot store
  */
 
 import * as cron from 'node-cron';
+import os from 'os';
 import { RentmanApiClient } from '../client/RentmanApiClient';
-import { redisCache, RedisCacheKeys } from '../utils/redisCache';
+import { RedisCacheKeys } from '../utils/redisCache';
+import { snapshotStore } from '../utils/snapshotStore';
 import { logger } from '../utils/logger';
 import { config } from '../config';
-import { PropertyAdvertising } from '../types';
+import {
+  PropertyAdvertising,
+  NormalizedProperty,
+  PropertySnapshot,
+  PropertyDiff,
+  PropertyHistoryEntry,
+  ImageWarmingBatch,
+  ImageWarmingProgress,
+  SyncChangeSummary,
+  SyncRun,
+  SyncTrigger,
+  SyncMetadata
+} from '../types';
+import { normalizeProperty } from '../utils/propertyNormalizer';
+import { buildSnapshot, diffSnapshots, detectListingEvents, detectNewImages } from '../utils/propertyDiff';
+import { toHistoryEntry, hasHistoryChange } from '../utils/propertyHistory';
+import { generateId } from '../utils/helpers';
+import { propertyEventBus } from './propertyEventBus';
+import { jobQueue } from '../jobs';
+
+// Number of recent listing events kept in the snapshot store
+const LISTING_EVENTS_LIMIT = 500;
+
+// Number of history entries kept per property
+const HISTORY_LIMIT = 200;
+
+// Sync lock expiry - renewed every third of it while the sync runs
+const SYNC_LOCK_TTL_MS = 60000;
+
+// Identifies this instance in the sync run log
+const INSTANCE_ID = process.env.INSTANCE_ID || `${os.hostname()}:${process.pid}`;
 
 export class PropertySyncService {
   private client: RentmanApiClient;
@@ -17,6 +49,12 @@ export class PropertySyncService {
   private lastSyncTime: Date | null = null;
   private syncCount: number = 0;
   private errorCount: number = 0;
+  private lastChanges: SyncChangeSummary | null = null;
+  private lastRun: SyncRun | null = null;
+  private retriesEnabled: boolean = false;
+  private consecutiveFailures: number = 0;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private nextRetryAt: Date | null = null;
 
   constructor(client: RentmanApiClient) {
     this.client = client;
@@ -31,32 +69,31 @@ export class PropertySyncService {
       return;
     }
 
-    if (!config.redis.enabled) {
-      logger.warn('⚠️ Redis is disabled, property sync cannot start');
-      return;
-    }
+    logger.info(`🔄 Starting property sync service (interval: ${config.sync.interval}, store: ${config.snapshotStore.type})`);
 
-    logger.info(`🔄 Starting property sync service (interval: ${config.sync.interval})`);
-
-    // Connect to Redis first
+    // Connect to the snapshot store first
     try {
-      await redisCache.connect();
+      await snapshotStore.connect();
     } catch (error) {
-      logger.error('❌ Failed to connect to Redis, sync service cannot start:', error);
+      logger.error('❌ Failed to connect to the snapshot store, sync service cannot start:', error);
       return;
     }
 
+    this.retriesEnabled = true;
+
     // Run initial sync if configured
     if (config.sync.onStartup) {
       logger.info('🚀 Running initial property sync on startup...');
-      await this.syncProperties();
+      await this.syncProperties('startup');
     }
 
     // Schedule recurring sync
     try {
-      this.syncTask = cron.schedule(config.sync.interval, async () => {
+      this.syncTask = cron.schedule(config.sync.interval, () => {
         logger.info('⏰ Scheduled sync triggered');
-        await this.syncProperties();
+        this.syncProperties('scheduled').catch(error => {
+          logger.error('❌ Scheduled sync failed:', error);
+        });
       });
 
       logger.info(`✅ Property sync scheduled: ${config.sync.interval}`);
@@ -69,6 +106,9 @@ export class PropertySyncService {
    * Stop the sync service
    */
   stop(): void {
+    this.retriesEnabled = false;
+    this.clearRetry();
+
     if (this.syncTask) {
       this.syncTask.stop();
       logger.info('🛑 Property sync service stopped');
@@ -76,108 +116,471 @@ export class PropertySyncService {
   }
 
   /**
-   * Sync properties from Rentman API to Redis
+   * Sync properties from Rentman API to the snapshot store
+   */
+  async syncProperties(trigger: SyncTrigger = 'scheduled'): Promise<SyncRun> {
+    return this.execute(trigger, async signal => {
+      logger.info(`🔄 Starting property sync from Rentman API (${trigger})...`);
+      return this.runSync(signal);
+    });
+  }
+
+  /**
+   * Import an exported dataset through the same diff/apply path as a sync.
+   * Listing events are not published - imported changes did not happen in this environment.
    */
-  async syncProperties(): Promise<void> {
+  async importDataset(
+    properties: PropertyAdvertising[],
+    lastSync: string | null
+  ): Promise<SyncRun> {
+    return this.execute('import', async signal => {
+      logger.info(`📦 Importing ${properties.length} properties into the snapshot store...`);
+      return this.storeDataset(properties, signal, {
+        publishEvents: false,
+        warmImages: false,
+        refreshMedia: false,
+        lastSync
+      });
+    });
+  }
+
+  /**
+   * Run a sync task under the sync lock and record it in the run log
+   */
+  private async execute(
+    trigger: SyncTrigger,
+    task: (signal: AbortSignal) => Promise<SyncChangeSummary>
+  ): Promise<SyncRun> {
+    const startedAt = new Date();
+    const startTime = startedAt.getTime();
+
+    const finishRun = (status: SyncRun['status'], counts: SyncRun['counts'], error: string | null): SyncRun => ({
+      id: generateId(),
+      trigger,
+      instanceId: INSTANCE_ID,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      durationMs: Date.now() - startTime,
+      status,
+      counts,
+      error
+    });
+
     // Prevent concurrent syncs
     if (this.isSyncing) {
       logger.warn('⚠️ Sync already in progress, skipping...');
-      return;
-    }
-
-    // Check for sync lock in Redis
-    const hasLock = await redisCache.exists(RedisCacheKeys.syncLock());
-    if (hasLock) {
-      logger.warn('⚠️ Another instance is syncing, skipping...');
-      return;
+      return finishRun('skipped', null, 'Sync already in progress');
     }
 
     this.isSyncing = true;
-    const startTime = Date.now();
+    let run: SyncRun;
 
     try {
-      // Set sync lock (expires in 5 minutes as safety)
-      await redisCache.set(RedisCacheKeys.syncLock(), true, 300);
-
-      logger.info('🔄 Starting property sync from Rentman API...');
-
-      // Fetch all properties from Rentman API
-      const response = await this.client.getPropertyAdvertising({
-        limit: 1000,
-        noimage: 1
-      });
-
-      const properties: PropertyAdvertising[] = Array.isArray(response.data) 
-        ? response.data 
-        : [response.data];
-
-      logger.info(`📥 Fetched ${properties.length} properties from Rentman API`);
+      if (!snapshotStore.isReady()) {
+        throw new Error('Snapshot store is not available');
+      }
 
-      // Store all properties as a single entry
-      const allPropertiesKey = RedisCacheKeys.allProperties();
-      await redisCache.set(allPropertiesKey, properties, 7200); // 2 hours TTL
+      // Lock is renewed while the sync runs, so a long sync keeps it and a crashed instance releases it quickly
+      const locked = await snapshotStore.withLock(RedisCacheKeys.syncLock(), SYNC_LOCK_TTL_MS, task);
 
-      // Also cache individual properties for faster lookups
-      let cachedCount = 0;
-      for (const property of properties) {
-        const propKey = RedisCacheKeys.property(property.propref);
-        await redisCache.set(propKey, property, 7200);
-        cachedCount++;
+      if (!locked.acquired) {
+        logger.warn('⚠️ Another instance is syncing, skipping...');
+        return finishRun('skipped', null, 'Another instance is syncing');
       }
 
-      // Store sync metadata
-      const metadata = {
-        count: properties.length,
-        lastSync: new Date().toISOString(),
-        syncDuration: Date.now() - startTime,
-        syncNumber: this.syncCount + 1
-      };
-
-      await redisCache.set(RedisCacheKeys.metadata(), metadata, 7200);
+      const changes = locked.result;
 
       // Update statistics
       this.syncCount++;
       this.lastSyncTime = new Date();
 
-      const duration = Date.now() - startTime;
+      run = finishRun('success', {
+        total: changes.total,
+        added: changes.added.length,
+        changed: changes.changed.length,
+        removed: changes.removed.length,
+        unchanged: changes.unchanged,
+        events: changes.events,
+        imagesQueued: changes.imagesQueued
+      }, null);
+
       logger.info(`✅ Property sync completed successfully`);
-      logger.info(`   - Properties synced: ${properties.length}`);
-      logger.info(`   - Individual cache entries: ${cachedCount}`);
-      logger.info(`   - Duration: ${duration}ms`);
+      logger.info(`   - Properties synced: ${changes.total}`);
+      logger.info(`   - Added: ${changes.added.length}, changed: ${changes.changed.length}, removed: ${changes.removed.length}, unchanged: ${changes.unchanged}`);
+      logger.info(`   - Duration: ${run.durationMs}ms`);
       logger.info(`   - Total syncs: ${this.syncCount}`);
 
     } catch (error) {
       this.errorCount++;
+      run = finishRun('failed', null, error instanceof Error ? error.message : String(error));
       logger.error('❌ Property sync failed:', error);
       logger.error(`   - Error count: ${this.errorCount}`);
     } finally {
-      // Release lock
-      await redisCache.delete(RedisCacheKeys.syncLock());
       this.isSyncing = false;
     }
+
+    this.lastRun = run;
+    // The run is still reported and retried when it cannot be logged
+    try {
+      await snapshotStore.pushToList(RedisCacheKeys.syncRuns(), [run], config.sync.historyLimit);
+    } catch (error) {
+      logger.error('❌ Failed to record the sync run:', error);
+    }
+
+    // Imports are not retried - a bad file fails the same way every time
+    if (trigger === 'import') {
+      return run;
+    }
+
+    if (run.status === 'success') {
+      this.consecutiveFailures = 0;
+      this.clearRetry();
+    } else {
+      this.consecutiveFailures++;
+      this.scheduleRetry();
+    }
+
+    return run;
   }
 
   /**
-   * Manual sync trigger (useful for API endpoints or testing)
+   * Retry a failed sync with exponential backoff - clients keep getting the last known good
+   * dataset meanwhile, the next scheduled sync still runs as usual
    */
-  async manualSync(): Promise<{ success: boolean; message: string; duration?: number }> {
+  private scheduleRetry(): void {
+    if (!this.retriesEnabled) {
+      return;
+    }
+
+    this.clearRetry();
+
+    const delay = Math.min(
+      config.sync.retryBaseDelay * 2 ** (this.consecutiveFailures - 1),
+      config.sync.retryMaxDelay
+    );
+    this.nextRetryAt = new Date(Date.now() + delay);
+
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.nextRetryAt = null;
+      logger.info(`🔁 Retrying property sync (attempt ${this.consecutiveFailures + 1})`);
+      this.syncProperties('retry').catch(error => {
+        logger.error('❌ Property sync retry failed:', error);
+      });
+    }, delay);
+    this.retryTimer.unref();
+
+    logger.warn(`⚠️ Property sync failed ${this.consecutiveFailures} time(s), retrying in ${Math.round(delay / 1000)}s`);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+    this.nextRetryAt = null;
+  }
+
+  /**
+   * Fetch properties from Rentman and store them (runs under the sync lock)
+   */
+  private async runSync(signal: AbortSignal): Promise<SyncChangeSummary> {
+    // Fetch all properties from Rentman API
+    const response = await this.client.getPropertyAdvertising({
+      limit: 1000,
+      noimage: 1
+    });
+
+    const fetched: PropertyAdvertising[] = Array.isArray(response.data) 
+      ? response.data 
+      : [response.data];
+
+    logger.info(`📥 Fetched ${fetched.length} properties from Rentman API`);
+
+    return this.storeDataset(fetched, signal, {
+      publishEvents: true,
+      warmImages: config.sync.warmImages,
+      refreshMedia: config.sync.refreshMedia,
+      lastSync: null
+    });
+  }
+
+  /**
+   * Apply a dataset to the snapshot store and save sync metadata (runs under the sync lock).
+   * lastSync overrides the metadata timestamp, so imported data keeps the age of its source.
+   */
+  private async storeDataset(
+    dataset: PropertyAdvertising[],
+    signal: AbortSignal,
+    options: { publishEvents: boolean; warmImages: boolean; refreshMedia: boolean; lastSync: string | null }
+  ): Promise<SyncChangeSummary> {
     const startTime = Date.now();
-    
-    try {
-      await this.syncProperties();
-      const duration = Date.now() - startTime;
-      
-      return {
-        success: true,
-        message: `Properties synced successfully in ${duration}ms`,
-        duration
-      };
-    } catch (error) {
+
+    // Records without a propref cannot be cached or looked up, drop them
+    const properties = dataset.filter(property => property && String(property.propref ?? '').trim());
+    const normalized = properties.map(normalizeProperty);
+
+    const changes = await this.applyChanges(properties, normalized, signal, options);
+
+    // Store sync metadata
+    const metadata: SyncMetadata = {
+      count: properties.length,
+      lets: normalized.filter(property => property.listingType === 'let').length,
+      sales: normalized.filter(property => property.listingType === 'sale').length,
+      lastSync: options.lastSync || new Date().toISOString(),
+      syncDuration: Date.now() - startTime,
+      syncNumber: this.syncCount + 1
+    };
+
+    // No TTL - the last known good dataset is served however old, with its age reported to clients
+    await snapshotStore.set(RedisCacheKeys.metadata(), metadata);
+
+    return changes;
+  }
+
+  /**
+   * Diff the fetched dataset against the previous snapshot and apply it to the snapshot store:
+   * write added/changed properties, refresh unchanged ones and delete delisted ones
+   */
+  private async applyChanges(
+    properties: PropertyAdvertising[],
+    normalized: NormalizedProperty[],
+    signal: AbortSignal,
+    options: { publishEvents: boolean; warmImages: boolean; refreshMedia: boolean }
+  ): Promise<SyncChangeSummary> {
+    // Another instance may hold the lock by now - writing would interleave with its sync
+    if (signal.aborted) {
+      throw new Error('Sync lock was lost before applying changes');
+    }
+
+    const previous = await snapshotStore.get<PropertySnapshot>(RedisCacheKeys.snapshot());
+
+    // An empty feed would delist everything - far more likely a Rentman glitch than reality
+    if (properties.length === 0 && previous && Object.keys(previous).length > 0) {
+      throw new Error('Rentman returned no properties, keeping the previous snapshot');
+    }
+
+    const snapshot = buildSnapshot(properties, normalized);
+    const diff = diffSnapshots(previous, snapshot);
+
+    // First run with a snapshot: clean up keys left behind by earlier syncs
+    if (!previous) {
+      const existingKeys = await snapshotStore.keys(RedisCacheKeys.property('*'));
+      const prefix = RedisCacheKeys.property('');
+      diff.removed = existingKeys
+        .map(key => key.slice(prefix.length))
+        .filter(propref => !snapshot[propref]);
+    }
+
+    await snapshotStore.set(RedisCacheKeys.allProperties(), properties);
+
+    const byRef = new Map(normalized.map((property, index) => [property.propref, properties[index]]));
+
+    for (const propref of [...diff.added, ...diff.changed]) {
+      await snapshotStore.set(RedisCacheKeys.property(propref), byRef.get(propref));
+    }
+
+    for (const propref of diff.unchanged) {
+      // Key was evicted or written with a TTL by an earlier version
+      if (!(await snapshotStore.exists(RedisCacheKeys.property(propref)))) {
+        await snapshotStore.set(RedisCacheKeys.property(propref), byRef.get(propref));
+      }
+    }
+
+    for (const propref of diff.removed) {
+      await snapshotStore.delete(RedisCacheKeys.property(propref));
+      await snapshotStore.delete(RedisCacheKeys.propertyMedia(propref));
+    }
+
+    await snapshotStore.set(RedisCacheKeys.snapshot(), snapshot);
+    await this.recordHistory(previous, snapshot, diff);
+
+    // Publish lifecycle events only once the new dataset is in place
+    const events = options.publishEvents ? detectListingEvents(previous, snapshot, diff) : [];
+    if (events.length > 0) {
+      await snapshotStore.pushToList(RedisCacheKeys.listingEvents(), events, LISTING_EVENTS_LIMIT);
+      propertyEventBus.publish(events);
+      logger.info(`📣 Published ${events.length} listing events`);
+    }
+
+    const imagesQueued = options.warmImages ? await this.warmImages(detectNewImages(previous, snapshot, diff)) : 0;
+
+    if (options.refreshMedia) {
+      await this.queueMediaRefresh([...diff.added, ...diff.changed], diff.unchanged);
+    }
+
+    const summary: SyncChangeSummary = {
+      syncedAt: new Date().toISOString(),
+      total: properties.length,
+      added: diff.added,
+      changed: diff.changed,
+      removed: diff.removed,
+      unchanged: diff.unchanged.length,
+      events: events.length,
+      imagesQueued
+    };
+
+    await snapshotStore.set(RedisCacheKeys.syncChanges(), summary);
+    this.lastChanges = summary;
+
+    return summary;
+  }
+
+  /**
+   * Append price/status history entries for listed, updated and removed properties.
+   * History keys have no TTL so days-on-market survives delisting and relisting.
+   */
+  private async recordHistory(
+    previous: PropertySnapshot | null,
+    snapshot: PropertySnapshot,
+    diff: PropertyDiff
+  ): Promise<void> {
+    const recordedAt = new Date().toISOString();
+    let recorded = 0;
+
+    const record = async (propref: string, entry: PropertyHistoryEntry) => {
+      await snapshotStore.pushToList(RedisCacheKeys.propertyHistory(propref), [entry], HISTORY_LIMIT);
+      recorded++;
+    };
+
+    for (const propref of diff.added) {
+      // Without a snapshot (first run, lost key) the history may already hold this state
+      const [last] = await snapshotStore.getList<PropertyHistoryEntry>(RedisCacheKeys.propertyHistory(propref), 0, 0);
+      if (last && last.reason !== 'removed' && !hasHistoryChange(last, snapshot[propref])) continue;
+
+      await record(propref, toHistoryEntry(snapshot[propref], 'listed', recordedAt));
+    }
+
+    for (const propref of diff.changed) {
+      if (previous && hasHistoryChange(previous[propref], snapshot[propref])) {
+        await record(propref, toHistoryEntry(snapshot[propref], 'updated', recordedAt));
+      }
+    }
+
+    for (const propref of diff.removed) {
+      // Keys cleaned up on the first run have no snapshot entry to record
+      if (previous?.[propref]) {
+        await record(propref, toHistoryEntry(previous[propref], 'removed', recordedAt));
+      }
+    }
+
+    if (recorded > 0) {
+      logger.info(`📈 Recorded ${recorded} property history entries`);
+    }
+  }
+
+  /**
+   * Queue uploads of new images so they are stored (and on the CDN) before the listing is browsed.
+   * Jobs are deduplicated by filename, so an image a visitor is already waiting for is not uploaded twice.
+   * Returns the number of images queued - a failure to queue never fails the sync.
+   */
+  private async warmImages(filenames: string[]): Promise<number> {
+    if (filenames.length === 0) {
+      return 0;
+    }
+
+    const jobIds: string[] = [];
+    for (const filename of filenames) {
+      try {
+        const job = await jobQueue.enqueue('image.upload', { filename }, { dedupeKey: filename });
+        jobIds.push(job.id);
+      } catch (error) {
+        logger.warn(`⚠️ Could not queue image ${filename} for warming`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (jobIds.length > 0) {
+      const batch: ImageWarmingBatch = { syncedAt: new Date().toISOString(), jobIds };
+      await snapshotStore.set(RedisCacheKeys.imageWarming(), batch);
+      logger.info(`🔥 Queued ${jobIds.length} new images for upload to image storage`);
+    }
+
+    return jobIds.length;
+  }
+
+  /**
+   * Queue media metadata refreshes for new and changed properties, and for unchanged ones with nothing cached
+   * (first sync, or evicted). Deduplicated per property - a failure to queue never fails the sync.
+   */
+  private async queueMediaRefresh(updated: string[], unchanged: string[]): Promise<number> {
+    const proprefs = [...updated];
+    for (const propref of unchanged) {
+      if (!(await snapshotStore.exists(RedisCacheKeys.propertyMedia(propref)))) {
+        proprefs.push(propref);
+      }
+    }
+
+    let queued = 0;
+    for (const propref of proprefs) {
+      try {
+        await jobQueue.enqueue('media.refresh', { propref }, { dedupeKey: `media:${propref}` });
+        queued++;
+      } catch (error) {
+        logger.warn(`⚠️ Could not queue media refresh for property ${propref}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    if (queued > 0) {
+      logger.info(`🖼️ Queued media metadata refresh for ${queued} properties`);
+    }
+
+    return queued;
+  }
+
+  /**
+   * Progress of the upload jobs queued by the last sync that found new images.
+   * Finished jobs that were already cleaned up from the queue count as completed.
+   */
+  async getImageWarmingProgress(): Promise<ImageWarmingProgress | null> {
+    const batch = await snapshotStore.get<ImageWarmingBatch>(RedisCacheKeys.imageWarming());
+    if (!batch) {
+      return null;
+    }
+
+    const jobs = await Promise.all(batch.jobIds.map(id => jobQueue.getJob(id)));
+    const failed = jobs.filter(job => job?.status === 'dead').length;
+    const pending = jobs.filter(job => job?.status === 'waiting' || job?.status === 'active').length;
+
+    return {
+      syncedAt: batch.syncedAt,
+      total: batch.jobIds.length,
+      completed: batch.jobIds.length - failed - pending,
+      failed,
+      pending
+    };
+  }
+
+  /**
+   * Manual sync trigger (useful for API endpoints or testing)
+   */
+  async manualSync(): Promise<{ success: boolean; message: string; duration?: number; run: SyncRun }> {
+    const run = await this.syncProperties('manual');
+
+    if (run.status !== 'success') {
       return {
         success: false,
-        message: error instanceof Error ? error.message : 'Sync failed'
+        message: run.error || 'Sync failed',
+        run
       };
     }
+
+    return {
+      success: true,
+      message: `Properties synced successfully in ${run.durationMs}ms`,
+      duration: run.durationMs,
+      run
+    };
+  }
+
+  /**
+   * Recent sync runs from the persisted run log, newest first
+   */
+  async getRunHistory(limit: number = config.sync.historyLimit): Promise<SyncRun[]> {
+    return snapshotStore.getList<SyncRun>(RedisCacheKeys.syncRuns(), 0, limit - 1);
   }
 
   /**
@@ -190,6 +593,9 @@ export class PropertySyncService {
     syncCount: number;
     errorCount: number;
     interval: string;
+    lastChanges: { syncedAt: string; added: number; changed: number; removed: number; unchanged: number; imagesQueued: number } | null;
+    consecutiveFailures: number;
+    nextRetryAt: string | null;
   } {
     return {
       enabled: config.sync.enabled,
@@ -197,7 +603,42 @@ export class PropertySyncService {
       lastSyncTime: this.lastSyncTime?.toISOString() || null,
       syncCount: this.syncCount,
       errorCount: this.errorCount,
-      interval: config.sync.interval
+      interval: config.sync.interval,
+      lastChanges: this.lastChanges
+        ? {
+          syncedAt: this.lastChanges.syncedAt,
+          added: this.lastChanges.added.length,
+          changed: this.lastChanges.changed.length,
+          removed: this.lastChanges.removed.length,
+          unchanged: this.lastChanges.unchanged,
+          imagesQueued: this.lastChanges.imagesQueued
+        }
+        : null,
+      consecutiveFailures: this.consecutiveFailures,
+      nextRetryAt: this.nextRetryAt?.toISOString() || null
+    };
+  }
+
+  /**
+   * Sync status for the admin API - combines this instance's stats with the persisted run log,
+   * so the last runs are still known after a restart or when another instance ran them
+   */
+  async getStatus(): Promise<ReturnType<PropertySyncService['getStats']> & {
+    instanceId: string;
+    lastRun: SyncRun | null;
+    lastSuccessfulRun: SyncRun | null;
+    lastFailedRun: SyncRun | null;
+    imageWarming: ImageWarmingProgress | null;
+  }> {
+    const runs = await this.getRunHistory();
+
+    return {
+      ...this.getStats(),
+      instanceId: INSTANCE_ID,
+      lastRun: runs[0] || this.lastRun,
+      lastSuccessfulRun: runs.find(run => run.status === 'success') || null,
+      lastFailedRun: runs.find(run => run.status === 'failed') || null,
+      imageWarming: await this.getImageWarmingProgress()
     };
   }
 
@@ -0,0 +1,30 @@
+/**
+ * Dataset Transfer Types
+ * Export/import bundles of the synced property dataset
+ */
+
+import { PropertyAdvertising, PropertyMedia } from './property';
+
+/** Media metadata without the image payload */
+export type PropertyMediaMetadata = Omit<PropertyMedia, 'base64data'>;
+
+export type DatasetFormat = 'ndjson' | 'tar';
+
+export interface DatasetManifest {
+  format: 'rentman-dataset';
+  version: 1;
+  exportedAt: string;
+  /** Completion time of the sync that produced the exported data */
+  lastSync: string | null;
+  anonymized: boolean;
+  counts: {
+    properties: number;
+    media: number;
+  };
+}
+
+export interface DatasetBundle {
+  manifest: DatasetManifest;
+  properties: PropertyAdvertising[];
+  media: PropertyMediaMetadata[];
+}
@@ -0,0 +1,52 @@
+/**
+ * Property Event Types
+ * Listing lifecycle events detected by PropertySyncService and published on the property event bus
+ */
+
+import { ListingType, PropertyStatus } from './property';
+
+export type PropertyEventType =
+  | 'listing.created'
+  | 'listing.price_changed'
+  | 'listing.status_changed'
+  | 'listing.removed';
+
+interface PropertyEventBase {
+  id: string;
+  propref: string;
+  occurredAt: string;
+}
+
+export interface ListingCreatedEvent extends PropertyEventBase {
+  type: 'listing.created';
+  listingType: ListingType | null;
+  price: number | null;
+  status: PropertyStatus;
+}
+
+export interface ListingPriceChangedEvent extends PropertyEventBase {
+  type: 'listing.price_changed';
+  listingType: ListingType | null;
+  previousPrice: number;
+  price: number;
+  /** price - previousPrice (negative when reduced) */
+  change: number;
+  direction: 'reduced' | 'increased';
+}
+
+export interface ListingStatusChangedEvent extends PropertyEventBase {
+  type: 'listing.status_changed';
+  previousStatus: PropertyStatus;
+  status: PropertyStatus;
+}
+
+export interface ListingRemovedEvent extends PropertyEventBase {
+  type: 'listing.removed';
+  lastStatus: PropertyStatus;
+}
+
+export type PropertyEvent =
+  | ListingCreatedEvent
+  | ListingPriceChangedEvent
+  | ListingStatusChangedEvent
+  | ListingRemovedEvent;
@@ -0,0 +1,53 @@
+/**
+ * Property History Types
+ * Price and status time series recorded by PropertySyncService
+ */
+
+import { ListingType, PropertyStatus } from './property';
+
+/**
+ * One point of a property's history - recorded whenever price, status or listing type changes
+ */
+export interface PropertyHistoryEntry {
+  recordedAt: string;
+  /** listed: first seen or relisted, updated: price/status change, removed: dropped from the feed */
+  reason: 'listed' | 'updated' | 'removed';
+  listingType: ListingType | null;
+  price: number | null;
+  status: PropertyStatus;
+}
+
+export interface PropertyPriceChange {
+  date: string;
+  listingType: ListingType | null;
+  previousPrice: number;
+  price: number;
+  /** price - previousPrice (negative when reduced) */
+  change: number;
+  direction: 'reduced' | 'increased';
+}
+
+export interface PropertyStatusChange {
+  date: string;
+  previousStatus: PropertyStatus;
+  status: PropertyStatus;
+}
+
+/**
+ * History summary returned by GET /api/properties/:id/history
+ */
+export interface PropertyHistory {
+  propref: string;
+  /** Start of the current listing period */
+  listedAt: string;
+  /** When the property first left 'available' in the current listing period */
+  offMarketAt: string | null;
+  removedAt: string | null;
+  /** Days from listedAt until offMarketAt, removal or now */
+  daysOnMarket: number;
+  current: PropertyHistoryEntry;
+  priceChanges: PropertyPriceChange[];
+  statusChanges: PropertyStatusChange[];
+  /** Oldest first */
+  entries: PropertyHistoryEntry[];
+}
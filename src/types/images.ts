@@ -0,0 +1,108 @@
+/**
+ * Image Types
+ * Stored images and the sizes they are served in
+ */
+
+export type ImageProviderName = 'cloudinary' | 'local';
+
+export type ImageSizeName = 'thumb' | 'medium' | 'large' | 'original';
+
+export type ImageFit = 'crop' | 'fill' | 'fit' | 'limit' | 'scale' | 'pad';
+
+export type ImageGravity = 'auto' | 'center' | 'face' | 'north' | 'south' | 'east' | 'west';
+
+export type ImageOutputFormat = 'auto' | 'webp' | 'avif' | 'jpg' | 'png';
+
+/** redirect: 302 to the provider (or CDN) URL, proxy: stream it from our own domain */
+export type ImageDeliveryMode = 'redirect' | 'proxy';
+
+/** Status banners drawn on property photos, labelled like formatStatus() */
+export type ImageBanner = 'under_offer' | 'let_agreed' | 'sold';
+
+/**
+ * Provider-neutral transformation - an empty object is the untouched original
+ */
+export interface ImageTransformation {
+  width?: number;
+  height?: number;
+  fit?: ImageFit;
+  gravity?: ImageGravity;
+  quality?: number | 'auto';
+  dpr?: number;
+  format?: ImageOutputFormat;
+  /** Agency logo in the corner (IMAGE_WATERMARK) */
+  watermark?: boolean;
+  banner?: ImageBanner;
+}
+
+/**
+ * Where a stored image came from - fetched from Rentman, or uploaded through the API
+ */
+export type ImageOrigin = 'rentman' | 'upload';
+
+/**
+ * Registry entry mapping a Rentman filename to the stored original
+ */
+export interface ImageAsset {
+  /** Rentman filename, e.g. 12345_1.jpg */
+  filename: string;
+  provider: ImageProviderName;
+  /** Cloudinary public id, or the path of the original under IMAGE_CACHE_DIR */
+  publicId: string;
+  version: string;
+  width: number | null;
+  height: number | null;
+  bytes: number | null;
+  format: string | null;
+  /** Tiny blurred preview as a data URI, shown while the image loads (missing on entries stored before it existed) */
+  placeholder?: string | null;
+  /** Missing on entries stored before origins were recorded, and on images found in storage unregistered */
+  origin?: ImageOrigin;
+  uploadedAt: string;
+}
+
+/**
+ * A page of the images in storage - nextCursor is null on the last page
+ */
+export interface ImageAssetPage {
+  assets: ImageAsset[];
+  nextCursor: string | null;
+}
+
+/**
+ * Stored image in the admin media library
+ */
+export interface LibraryImage extends ImageAsset {
+  /** Property using the image, or the one its filename names when no synced property uses it */
+  propref: string | null;
+  /** Whether a synced property uses the image - null without a synced dataset to tell */
+  referenced: boolean | null;
+  /** When the cleanup first found the image unused (ISO) */
+  orphanedSince: string | null;
+}
+
+/**
+ * Outcome of an orphaned image cleanup run
+ */
+export interface ImageCleanupResult {
+  dryRun: boolean;
+  scanned: number;
+  referenced: number;
+  orphaned: number;
+  /** Unused images never deleted because they are not known to come from Rentman (API uploads, older entries) */
+  kept: number;
+  /** Orphans past the grace period - deleted unless this was a dry run */
+  expired: string[];
+  deleted: string[];
+  failed: string[];
+  /** Why nothing was checked, e.g. no synced dataset with image lists */
+  skipped: string | null;
+}
+
+/**
+ * How a stored image size is delivered - redirect to a public URL, proxy it from the origin or stream a local file
+ */
+export type ImageDelivery =
+  | { type: 'redirect'; url: string }
+  | { type: 'proxy'; url: string }
+  | { type: 'file'; path: string; contentType: string };
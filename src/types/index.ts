@@ -6,6 +6,30 @@
 // Property types
 export * from './property';
 
+// Property DTO types
+export * from './propertyDto';
+
+// Sync types
+export * from './sync';
+
+// Event types
+export * from './events';
+
+// History types
+export * from './history';
+
+// Dataset transfer types
+export * from './dataset';
+
+// Job queue types
+export * from './jobs';
+
+// Image types
+export * from './images';
+
+// Search types
+export * from './search';
+
 // Blog types
 export * from './blog';
 
@@ -18,7 +42,12 @@ export type {
   PropertyMedia,
   PropertyAdvertisingParams,
   PropertyMediaParams,
-  ApiResponse
+  ApiResponse,
+  NormalizedProperty,
+  ListingType,
+  FurnishingStatus,
+  PropertyStatus,
+  GeoPoint
 } from './property';
 
 
@@ -0,0 +1,58 @@
+/**
+ * Job Queue Types
+ * Typed background jobs processed by the job queue
+ */
+
+import { ImageAsset, ImageCleanupResult } from './images';
+
+/**
+ * Payload of each job type - add an entry here and register a handler to introduce a new job
+ */
+export interface JobPayloads {
+  /** Fetch an image from Rentman and store it with the image storage provider */
+  'image.upload': { filename: string };
+  /** Fetch a property's media from Rentman and cache its metadata (captions, order) */
+  'media.refresh': { propref: string };
+  /** Delete stored images no synced property has used for the grace period */
+  'images.cleanup': { dryRun: boolean };
+}
+
+/**
+ * Result stored on completed jobs, for job types that produce one
+ */
+export interface JobResults {
+  'image.upload': ImageAsset;
+  'images.cleanup': ImageCleanupResult;
+}
+
+export type JobType = keyof JobPayloads;
+
+export type JobResult<T extends JobType> = T extends keyof JobResults ? JobResults[T] : void;
+
+/** waiting: due or scheduled for retry, dead: out of attempts (dead-letter list) */
+export type JobStatus = 'waiting' | 'active' | 'completed' | 'dead';
+
+export interface Job<T extends JobType = JobType> {
+  id: string;
+  type: T;
+  payload: JobPayloads[T];
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the job may run (ISO) */
+  runAt: string;
+  /** Jobs with the same key are not queued twice while one is waiting or active */
+  dedupeKey: string | null;
+  lastError: string | null;
+  result: JobResult<T> | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+export interface JobQueueStats {
+  backend: 'redis' | 'memory';
+  running: boolean;
+  processing: number;
+  counts: Record<JobStatus, number>;
+}
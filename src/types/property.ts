@@ -43,6 +43,72 @@ export interface PropertyAdvertising {
   geolocation?: string;
 }
 
+/** Rentman rentorbuy: 1 = to let, 2 = for sale */
+export type ListingType = 'let' | 'sale';
+
+/** Rentman furnished codes: 1 = unfurnished, 2 = part furnished, 3 = furnished */
+export type FurnishingStatus = 'unfurnished' | 'part_furnished' | 'furnished' | 'unknown';
+
+export type PropertyStatus = 'available' | 'under_offer' | 'let_agreed' | 'sold' | 'unknown';
+
+export interface GeoPoint {
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Typed view of a PropertyAdvertising record.
+ * Produced by normalizeProperty() in utils/propertyNormalizer.ts - never build by hand.
+ */
+export interface NormalizedProperty {
+  propref: string;
+  listingType: ListingType | null;
+  status: PropertyStatus;
+  /** Display label, same wording as formatStatus() */
+  statusLabel: string;
+  featured: boolean;
+  displayAddress: string;
+  displayPrice: string;
+  /** Monthly rent for lets, asking price for sales */
+  price: number | null;
+  rentPerMonth: number | null;
+  salePrice: number | null;
+  address: {
+    number: string;
+    street: string;
+    locality: string;
+    town: string;
+    postcode: string;
+  };
+  area: string;
+  propertyType: string;
+  bedrooms: number;
+  singleBedrooms: number;
+  doubleBedrooms: number;
+  bathrooms: number;
+  receptions: number;
+  furnishing: FurnishingStatus;
+  shortLet: boolean;
+  floor: string;
+  heating: string;
+  /** ISO date (YYYY-MM-DD), null when not given */
+  availableFrom: string | null;
+  /** EPC letter grade A-G */
+  epcRating: string | null;
+  councilTaxBand: string | null;
+  bullets: string[];
+  strapline: string;
+  description: string;
+  location: GeoPoint | null;
+  /** photo1..photoN filenames in numeric order */
+  photos: string[];
+  floorplan: string | null;
+  url: string;
+}
+
+/** What a media item shows, classified from its filename and caption */
+export type PropertyMediaKind = 'photo' | 'floorplan' | 'epc';
+
 export interface PropertyMedia {
   propref: string;
   filename: string;
@@ -0,0 +1,155 @@
+/**
+ * Property DTO Types
+ * Public property shapes returned by the API (built by server/presenters/propertyPresenter.ts)
+ *
+ * Bump PROPERTY_DTO_VERSION in the presenter whenever a field is renamed or removed;
+ * adding optional fields does not need a new version.
+ */
+
+import {
+  ListingType,
+  PropertyAdvertising,
+  PropertyStatus,
+  FurnishingStatus,
+  GeoPoint
+} from './property';
+import { PropertyMediaMetadata } from './dataset';
+
+export interface PropertyImageDto {
+  url: string;
+  alt: string;
+  width: number;
+  height: number;
+  thumbnail: string;
+  /** Rentman caption, null when the photo has none (alt then falls back to a numbered label) */
+  caption: string | null;
+  /** Width-descriptor candidates for <img srcset>; the format is negotiated from the Accept header */
+  srcset: string;
+  sizes: string;
+  /** Tiny blurred preview as a data URI - null until the image has been stored */
+  placeholder: string | null;
+}
+
+export interface PropertyThumbnailDto {
+  url: string;
+  alt: string;
+  width: number;
+  height: number;
+  srcset: string;
+  sizes: string;
+  placeholder: string | null;
+}
+
+export interface PropertyFloorplanDto {
+  thumb: string;
+  medium: string;
+  large: string;
+  original: string;
+}
+
+export interface PropertyEpcDto {
+  url: string;
+  alt: string;
+}
+
+export interface PropertyImagesDto {
+  main: PropertyImageDto | null;
+  /** Photos in Rentman's media order once media metadata is cached, photoN field order before that */
+  gallery: PropertyImageDto[];
+  thumbnails: PropertyThumbnailDto[];
+  floorplan: PropertyFloorplanDto | null;
+  /** EPC chart from the property's media */
+  epc: PropertyEpcDto | null;
+}
+
+/**
+ * List-card variant - used by list, featured and search endpoints
+ */
+export interface PropertyCardDto {
+  schemaVersion: number;
+  variant: 'card' | 'detail';
+  id: string;
+  listingType: ListingType | null;
+  status: PropertyStatus;
+  statusLabel: string;
+  featured: boolean;
+  displayAddress: string;
+  displayPrice: string;
+  price: number | null;
+  rentPerMonth: number | null;
+  salePrice: number | null;
+  area: string;
+  postcode: string;
+  propertyType: string;
+  bedrooms: number;
+  bathrooms: number;
+  receptions: number;
+  furnishing: FurnishingStatus;
+  availableFrom: string | null;
+  strapline: string;
+  epcRating: string | null;
+  councilTaxBand: string | null;
+  location: GeoPoint | null;
+  images: PropertyImagesDto;
+}
+
+/**
+ * Full-detail variant - used by GET /api/properties/:id
+ */
+export interface PropertyDetailDto extends PropertyCardDto {
+  variant: 'detail';
+  address: {
+    number: string;
+    street: string;
+    locality: string;
+    town: string;
+    postcode: string;
+  };
+  singleBedrooms: number;
+  doubleBedrooms: number;
+  shortLet: boolean;
+  floor: string;
+  heating: string;
+  bullets: string[];
+  description: string;
+  url: string;
+}
+
+export interface LegacyPropertyImageDto {
+  url: string;
+  alt: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * Images object of the legacy shape
+ */
+export interface LegacyPropertyImagesDto {
+  main: LegacyPropertyImageDto | null;
+  gallery: (LegacyPropertyImageDto & { thumbnail: string })[];
+  thumbnails: LegacyPropertyImageDto[];
+  floorplan?: PropertyFloorplanDto;
+}
+
+/**
+ * Raw Rentman record as served before the versioned DTOs (schema version 0) - deprecated, only
+ * returned when a client asks for it with ?v=0 or X-API-Version: 0
+ */
+export type LegacyPropertyDto = Omit<PropertyAdvertising, 'epcrating' | 'taxband'> & {
+  epcrating: string | null;
+  taxband: string | null;
+  images: LegacyPropertyImagesDto;
+};
+
+/**
+ * Media item returned by /api/media - the bytes are served from `url` instead of inline base64
+ */
+export interface PropertyMediaDto extends PropertyMediaMetadata {
+  /** Raw bytes of the item, e.g. /api/media/123/123_1.jpg/raw */
+  url: string;
+  /** Detected from the payload's magic bytes, null when unrecognised */
+  contentType: string | null;
+  /** Only included with ?includeData=true */
+  base64data?: string;
+}
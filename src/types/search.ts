@@ -0,0 +1,67 @@
+/**
+ * Property Search Types
+ * Queries and results of PropertySearchEngine, shared by both search endpoints
+ */
+
+import { NormalizedProperty, PropertyAdvertising } from './property';
+import { LegacyPropertyDto, PropertyCardDto } from './propertyDto';
+import { DatasetFreshness } from './sync';
+import { PaginationResponse } from './api';
+
+export type PropertySearchSort = 'price';
+export type PropertySearchOrder = 'asc' | 'desc';
+
+/**
+ * Parsed search query - optional filters are left out when not given or invalid
+ */
+export interface PropertySearchQuery {
+  q?: string;
+  /** Area name, matched case-insensitively */
+  area?: string;
+  type?: 'rent' | 'sale';
+  beds?: number;
+  /** Bounds on the price of the searched listing type - rent per month, or sale price for type=sale */
+  minPrice?: number;
+  maxPrice?: number;
+  /** Kept for existing clients, same as minPrice on the sale price */
+  minSalePrice?: number;
+  featured?: boolean;
+  sortBy: PropertySearchSort;
+  sortOrder: PropertySearchOrder;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Filter values available within the searched listing type
+ */
+export interface PropertySearchFilters {
+  areas: string[];
+  types: string[];
+  priceRange: { min: number; max: number };
+}
+
+export interface PropertySearchResult {
+  /** The requested page of matches */
+  properties: NormalizedProperty[];
+  /** Rentman records of the same page, for the legacy response shape */
+  records: PropertyAdvertising[];
+  pagination: PaginationResponse;
+  filters: PropertySearchFilters;
+  freshness: DatasetFreshness;
+}
+
+export interface PropertySearchDto {
+  properties: PropertyCardDto[];
+  pagination: PaginationResponse;
+  filters: PropertySearchFilters;
+}
+
+/**
+ * Search response body in the legacy property shape (?v=0)
+ */
+export interface LegacyPropertySearchDto {
+  properties: LegacyPropertyDto[];
+  pagination: PaginationResponse;
+  filters: PropertySearchFilters;
+}
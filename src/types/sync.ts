@@ -0,0 +1,116 @@
+/**
+ * Property Sync Types
+ * Snapshot and change tracking for PropertySyncService
+ */
+
+import { ListingType, PropertyStatus } from './property';
+
+/**
+ * Per-property entry of the stored sync snapshot
+ */
+export interface PropertySnapshotEntry {
+  propref: string;
+  /** Fingerprint of the raw Rentman record */
+  hash: string;
+  listingType: ListingType | null;
+  price: number | null;
+  status: PropertyStatus;
+  /** Photo and floorplan filenames - missing in snapshots written before image warming */
+  images?: string[];
+}
+
+/** Snapshot of the last synced dataset, keyed by propref */
+export type PropertySnapshot = Record<string, PropertySnapshotEntry>;
+
+export interface PropertyDiff {
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+/**
+ * Change summary recorded for every sync run
+ */
+export interface SyncChangeSummary {
+  syncedAt: string;
+  total: number;
+  added: string[];
+  changed: string[];
+  removed: string[];
+  unchanged: number;
+  /** Number of listing events published for this run */
+  events: number;
+  /** Number of new images queued for upload to image storage */
+  imagesQueued: number;
+}
+
+export type SyncTrigger = 'startup' | 'scheduled' | 'manual' | 'retry' | 'import';
+
+/**
+ * Record of a single sync run, persisted in the sync run log
+ */
+export interface SyncRun {
+  id: string;
+  trigger: SyncTrigger;
+  /** Instance that ran the sync (INSTANCE_ID or hostname:pid) */
+  instanceId: string;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  /** skipped: another sync was already running */
+  status: 'success' | 'failed' | 'skipped';
+  counts: {
+    total: number;
+    added: number;
+    changed: number;
+    removed: number;
+    unchanged: number;
+    events: number;
+    imagesQueued: number;
+  } | null;
+  error: string | null;
+}
+
+/**
+ * Upload jobs queued by the last sync that found new images
+ */
+export interface ImageWarmingBatch {
+  syncedAt: string;
+  jobIds: string[];
+}
+
+/**
+ * Progress of the last image warming batch
+ */
+export interface ImageWarmingProgress {
+  syncedAt: string;
+  total: number;
+  completed: number;
+  failed: number;
+  pending: number;
+}
+
+/**
+ * Metadata stored alongside the synced dataset
+ */
+export interface SyncMetadata {
+  count: number;
+  lets: number;
+  sales: number;
+  lastSync: string;
+  syncDuration: number;
+  syncNumber: number;
+}
+
+/**
+ * How fresh the served property data is - exposed as X-Data-* headers and in search responses
+ */
+export interface DatasetFreshness {
+  source: 'snapshot' | 'api';
+  /** Completion time of the sync that produced the data (null when unknown) */
+  lastSync: string | null;
+  ageSeconds: number | null;
+  /** True when the last successful sync is older than SYNC_STALE_AFTER */
+  stale: boolean;
+}
@@ -168,9 +168,9 @@ export class Cache {
 // Create default cache instance
 export const cache = new Cache();
 
-// Only keep image cache key - rest unused
 export const CacheKeys = {
-  image: (filename: string, size: string) => `image:${filename}:${size}`
+  image: (filename: string, transformation: string) => `image:${filename}:${transformation}`,
+  searchFallback: () => 'search:fallback'
 };
 
 export default cache;
\ No newline at end of file
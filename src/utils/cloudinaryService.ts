@@ -5,6 +5,7 @@
 
 import { v2 as cloudinary } from 'cloudinary';
 import { config } from '../config';
+import { detectBase64ImageFormat } from './imageFormat';
 
 // Configure Cloudinary
 cloudinary.config({
@@ -29,8 +30,18 @@ export interface CloudinaryTransformation {
   height?: number;
   quality?: number | 'auto';
   format?: string;
+  fetch_format?: string;
   crop?: string;
   gravity?: string;
+  dpr?: number;
+  /** Layer - a public id (folders separated by ":") or a text style */
+  overlay?: string | { font_family: string; font_size: number; font_weight?: string; text: string };
+  color?: string;
+  background?: string;
+  opacity?: number;
+  flags?: string;
+  x?: number;
+  y?: number;
 }
 
 export class CloudinaryService {
@@ -54,7 +65,7 @@ export class CloudinaryService {
       const publicId = `${this.folder}/${baseName}`;
       
       const result = await cloudinary.uploader.upload(
-        `data:image/jpeg;base64,${base64Data}`,
+        `data:${detectBase64ImageFormat(base64Data)?.contentType || 'image/jpeg'};base64,${base64Data}`,
         {
           public_id: publicId,
           folder: this.folder,
@@ -102,37 +113,39 @@ export class CloudinaryService {
       );
 
       // Use the publicId and version returned from Cloudinary
-      const publicId = result.public_id;
-      const version = result.version;
-
-      // Generate URLs for different sizes using on-the-fly transformations
-      const results: { [key: string]: string } = {
-        thumb: this.generateSizeUrl(publicId, 'thumb', version),
-        medium: this.generateSizeUrl(publicId, 'medium', version),
-        large: this.generateSizeUrl(publicId, 'large', version),
-        original: this.generateSizeUrl(publicId, 'original', version)
-      };
-
-      return results;
+      return this.generateSizeUrls(result.public_id, result.version);
     } catch (error) {
       console.error(`Error uploading image ${filename}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Generate URLs for all sizes using on-the-fly transformations
+   */
+  generateSizeUrls(publicId: string, version?: string): { [key: string]: string } {
+    return {
+      thumb: this.generateSizeUrl(publicId, 'thumb', version),
+      medium: this.generateSizeUrl(publicId, 'medium', version),
+      large: this.generateSizeUrl(publicId, 'large', version),
+      original: this.generateSizeUrl(publicId, 'original', version)
+    };
+  }
+
   /**
    * Generate Cloudinary URL with transformations
    */
   generateUrl(
     publicId: string,
-    transformations?: CloudinaryTransformation,
+    transformations?: CloudinaryTransformation | CloudinaryTransformation[],
     version?: string
   ): string {
     // Remove any version prefix from the publicId itself (not from the final URL)
     const cleanPublicId = publicId.replace(/^v\d+\//, '').replace(/\/v\d+\//, '/');
     
     const url = cloudinary.url(cleanPublicId, {
-      transformation: transformations ? [transformations] : undefined,
+      // Several transformations are chained, e.g. a resize followed by overlay layers
+      transformation: transformations ? ([] as CloudinaryTransformation[]).concat(transformations) : undefined,
       secure: config.cloudinary.secure,
       version: version // Include the actual version number from upload
     });
@@ -154,6 +167,19 @@ export class CloudinaryService {
     }
   }
 
+  /**
+   * List the images in the folder, a page at a time (Admin API)
+   */
+  async listImages(cursor?: string, maxResults: number = 500): Promise<{ resources: any[]; next_cursor?: string }> {
+    return cloudinary.api.resources({
+      type: 'upload',
+      resource_type: 'image',
+      prefix: `${this.folder}/`,
+      max_results: maxResults,
+      next_cursor: cursor
+    });
+  }
+
   /**
    * Get image info from Cloudinary
    */
@@ -0,0 +1,237 @@
+/**
+ * File Snapshot Store
+ * Filesystem implementation of SnapshotStore - values as JSON files, lists as NDJSON files.
+ * Locks and list writes are serialized in memory, so this store is only safe for a single process -
+ * several processes (or instances) sharing the directory need the Redis store.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { logger } from './logger';
+import { withLock, WithLockResult } from './lock';
+import type { SnapshotStore } from './snapshotStore';
+
+interface StoredValue {
+  value: unknown;
+  /** Epoch ms, null when the value never expires */
+  expiresAt: number | null;
+}
+
+const VALUE_EXT = '.json';
+const LIST_EXT = '.ndjson';
+
+export class FileSnapshotStore implements SnapshotStore {
+  private dir: string;
+  private locks: Map<string, { token: string; expiresAt: number }> = new Map();
+  /** Last pending write of each list - a push waits for the previous one before reading the file */
+  private listWrites: Map<string, Promise<void>> = new Map();
+
+  constructor(dir: string) {
+    this.dir = path.resolve(dir);
+  }
+
+  /**
+   * Create the snapshot directory
+   */
+  async connect(): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  /**
+   * Get a value - expired values are removed on read
+   */
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const stored = await this.readValue(key);
+      return stored ? (stored.value as T) : null;
+    } catch (error) {
+      logger.error(`Error reading key ${key} from snapshot store:`, error);
+      return null;
+    }
+  }
+
+  async set(key: string, value: unknown, ttl?: number): Promise<void> {
+    try {
+      const stored: StoredValue = { value, expiresAt: ttl ? Date.now() + ttl * 1000 : null };
+      await this.writeAtomic(this.filePath(key, VALUE_EXT), JSON.stringify(stored));
+    } catch (error) {
+      logger.error(`Error writing key ${key} to snapshot store:`, error);
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      if (await this.readValue(key)) {
+        return true;
+      }
+      await fs.promises.access(this.filePath(key, LIST_EXT));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await Promise.all([VALUE_EXT, LIST_EXT].map(ext =>
+      fs.promises.rm(this.filePath(key, ext), { force: true }).catch(error => {
+        logger.error(`Error deleting key ${key} from snapshot store:`, error);
+      })
+    ));
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    try {
+      const files = await fs.promises.readdir(this.dir);
+      const escaped = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+      const matcher = new RegExp(`^${escaped.join('.*')}$`);
+
+      const keys = files
+        .filter(file => file.endsWith(VALUE_EXT) || file.endsWith(LIST_EXT))
+        .map(file => decodeURIComponent(file.slice(0, file.lastIndexOf('.'))));
+
+      return [...new Set(keys)].filter(key => matcher.test(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Error listing keys for pattern ${pattern}:`, error);
+      }
+      return [];
+    }
+  }
+
+  /**
+   * Append to the NDJSON file (oldest first on disk) and trim it to maxLength entries. Pushes to the same
+   * list run one at a time, so a trim never rewrites the file over another push's entries.
+   */
+  async pushToList(key: string, values: unknown[], maxLength?: number): Promise<void> {
+    if (values.length === 0) {
+      return;
+    }
+
+    const write = (this.listWrites.get(key) || Promise.resolve())
+      .then(() => this.appendToList(key, values, maxLength));
+    this.listWrites.set(key, write);
+
+    try {
+      await write;
+    } finally {
+      if (this.listWrites.get(key) === write) {
+        this.listWrites.delete(key);
+      }
+    }
+  }
+
+  async getList<T>(key: string, start: number = 0, stop: number = -1): Promise<T[]> {
+    try {
+      const lines = (await this.readLines(this.filePath(key, LIST_EXT))).reverse();
+      const from = start < 0 ? Math.max(lines.length + start, 0) : start;
+      const to = stop < 0 ? lines.length + stop : stop;
+
+      return lines.slice(from, to + 1).map(line => JSON.parse(line) as T);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        logger.error(`Error reading list ${key} from snapshot store:`, error);
+      }
+      return [];
+    }
+  }
+
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    const current = this.locks.get(key);
+    if (current && current.expiresAt > Date.now()) {
+      return null;
+    }
+
+    const token = crypto.randomUUID();
+    this.locks.set(key, { token, expiresAt: Date.now() + ttlMs });
+    return token;
+  }
+
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    if (this.locks.get(key)?.token !== token) {
+      return false;
+    }
+    this.locks.delete(key);
+    return true;
+  }
+
+  async extendLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    const current = this.locks.get(key);
+    if (!current || current.token !== token) {
+      return false;
+    }
+    current.expiresAt = Date.now() + ttlMs;
+    return true;
+  }
+
+  async withLock<T>(
+    key: string,
+    ttlMs: number,
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<WithLockResult<T>> {
+    return withLock(this, key, ttlMs, fn);
+  }
+
+  /**
+   * Keys are URI-encoded so any key maps to a safe, reversible file name
+   */
+  private filePath(key: string, ext: string): string {
+    return path.join(this.dir, `${encodeURIComponent(key)}${ext}`);
+  }
+
+  private async readValue(key: string): Promise<StoredValue | null> {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(this.filePath(key, VALUE_EXT), 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    const stored = JSON.parse(content) as StoredValue;
+    if (stored.expiresAt !== null && stored.expiresAt <= Date.now()) {
+      await fs.promises.rm(this.filePath(key, VALUE_EXT), { force: true });
+      return null;
+    }
+
+    return stored;
+  }
+
+  private async appendToList(key: string, values: unknown[], maxLength?: number): Promise<void> {
+    try {
+      const file = this.filePath(key, LIST_EXT);
+      await fs.promises.mkdir(this.dir, { recursive: true });
+      await fs.promises.appendFile(file, values.map(value => `${JSON.stringify(value)}\n`).join(''));
+
+      if (maxLength) {
+        const lines = await this.readLines(file);
+        if (lines.length > maxLength) {
+          await this.writeAtomic(file, `${lines.slice(-maxLength).join('\n')}\n`);
+        }
+      }
+    } catch (error) {
+      logger.error(`Error pushing to list ${key} in snapshot store:`, error);
+    }
+  }
+
+  private async readLines(file: string): Promise<string[]> {
+    const content = await fs.promises.readFile(file, 'utf-8');
+    return content.split('\n').filter(Boolean);
+  }
+
+  /**
+   * Write via a temp file and rename, so readers never see a partially written file
+   */
+  private async writeAtomic(file: string, content: string): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.promises.writeFile(tmp, content, 'utf-8');
+    await fs.promises.rename(tmp, file);
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Image Format Detection
+ * Identify media payloads from their magic bytes - Rentman's filenames and extensions are not reliable
+ */
+
+export interface DetectedFormat {
+  format: 'jpeg' | 'png' | 'gif' | 'webp' | 'avif' | 'heic' | 'bmp' | 'tiff' | 'pdf';
+  contentType: string;
+}
+
+const CONTENT_TYPES: Record<DetectedFormat['format'], string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif',
+  heic: 'image/heic',
+  bmp: 'image/bmp',
+  tiff: 'image/tiff',
+  pdf: 'application/pdf'
+};
+
+/** Bytes needed to recognise every supported format */
+export const FORMAT_SIGNATURE_LENGTH = 16;
+
+function startsWith(data: Buffer, bytes: number[], offset: number = 0): boolean {
+  return data.length >= offset + bytes.length && bytes.every((byte, index) => data[offset + index] === byte);
+}
+
+function ascii(data: Buffer, start: number, end: number): string {
+  return data.subarray(start, end).toString('ascii');
+}
+
+/**
+ * Format of a payload from its first bytes - null when it is not a known image (or PDF floorplan)
+ */
+export function detectImageFormat(data: Buffer): DetectedFormat | null {
+  let format: DetectedFormat['format'] | null = null;
+
+  if (startsWith(data, [0xff, 0xd8, 0xff])) {
+    format = 'jpeg';
+  } else if (startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) {
+    format = 'png';
+  } else if (ascii(data, 0, 6) === 'GIF87a' || ascii(data, 0, 6) === 'GIF89a') {
+    format = 'gif';
+  } else if (ascii(data, 0, 4) === 'RIFF' && ascii(data, 8, 12) === 'WEBP') {
+    format = 'webp';
+  } else if (ascii(data, 4, 8) === 'ftyp') {
+    // ISO media container, the brand tells AVIF from HEIC
+    const brand = ascii(data, 8, 12);
+    format = brand === 'avif' || brand === 'avis' ? 'avif' : ['heic', 'heix', 'mif1'].includes(brand) ? 'heic' : null;
+  } else if (ascii(data, 0, 2) === 'BM') {
+    format = 'bmp';
+  } else if (startsWith(data, [0x49, 0x49, 0x2a, 0x00]) || startsWith(data, [0x4d, 0x4d, 0x00, 0x2a])) {
+    format = 'tiff';
+  } else if (ascii(data, 0, 5) === '%PDF-') {
+    format = 'pdf';
+  }
+
+  return format ? { format, contentType: CONTENT_TYPES[format] } : null;
+}
+
+/**
+ * Format of base64 data, decoding only its first bytes
+ */
+export function detectBase64ImageFormat(base64data: string): DetectedFormat | null {
+  // 4 base64 characters encode 3 bytes
+  const prefix = base64data.slice(0, Math.ceil(FORMAT_SIGNATURE_LENGTH / 3) * 4);
+  return detectImageFormat(Buffer.from(prefix, 'base64'));
+}
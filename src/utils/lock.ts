@@ -0,0 +1,47 @@
+/**
+ * Lock Utilities
+ * Shared renew-while-running logic for token-owned locks (Redis and file snapshot stores)
+ */
+
+import { logger } from './logger';
+
+export type WithLockResult<T> = { acquired: false } | { acquired: true; result: T };
+
+export interface Lockable {
+  acquireLock(key: string, ttlMs: number): Promise<string | null>;
+  releaseLock(key: string, token: string): Promise<boolean>;
+  extendLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+}
+
+/**
+ * Run fn while holding a lock, renewing it every ttlMs / 3.
+ * The signal passed to fn is aborted if a renewal fails, so long tasks can stop before writing.
+ */
+export async function withLock<T>(
+  lockable: Lockable,
+  key: string,
+  ttlMs: number,
+  fn: (signal: AbortSignal) => Promise<T>
+): Promise<WithLockResult<T>> {
+  const token = await lockable.acquireLock(key, ttlMs);
+  if (!token) {
+    return { acquired: false };
+  }
+
+  const controller = new AbortController();
+  const heartbeat = setInterval(async () => {
+    const extended = await lockable.extendLock(key, token, ttlMs);
+    if (!extended && !controller.signal.aborted) {
+      logger.warn(`⚠️ Lost lock ${key}`);
+      controller.abort();
+    }
+  }, Math.max(1000, Math.floor(ttlMs / 3)));
+  heartbeat.unref();
+
+  try {
+    return { acquired: true, result: await fn(controller.signal) };
+  } finally {
+    clearInterval(heartbeat);
+    await lockable.releaseLock(key, token);
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Property Diff Utilities
+ * Fingerprints synced properties and compares snapshots between sync runs
+ */
+
+import crypto from 'crypto';
+import {
+  PropertyAdvertising,
+  NormalizedProperty,
+  PropertySnapshot,
+  PropertyDiff,
+  PropertyEvent
+} from '../types';
+import { generateId } from './helpers';
+
+/**
+ * Serialize with sorted keys so field order from the API does not change the fingerprint
+ */
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record)
+      .sort()
+      .filter(key => record[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Fingerprint of a raw Rentman record
+ */
+export function fingerprintProperty(property: PropertyAdvertising): string {
+  return crypto.createHash('sha1').update(stableStringify(property)).digest('hex');
+}
+
+/**
+ * Build a snapshot from raw records and their normalized counterparts (same order)
+ */
+export function buildSnapshot(
+  properties: PropertyAdvertising[],
+  normalized: NormalizedProperty[]
+): PropertySnapshot {
+  const snapshot: PropertySnapshot = {};
+
+  normalized.forEach((property, index) => {
+    snapshot[property.propref] = {
+      propref: property.propref,
+      hash: fingerprintProperty(properties[index]),
+      listingType: property.listingType,
+      price: property.price,
+      status: property.status,
+      images: property.floorplan ? [...property.photos, property.floorplan] : property.photos
+    };
+  });
+
+  return snapshot;
+}
+
+/**
+ * Compare two snapshots - a missing previous snapshot means everything is new
+ */
+export function diffSnapshots(previous: PropertySnapshot | null, next: PropertySnapshot): PropertyDiff {
+  const prev = previous || {};
+  const diff: PropertyDiff = { added: [], changed: [], removed: [], unchanged: [] };
+
+  for (const propref of Object.keys(next)) {
+    const before = prev[propref];
+    if (!before) {
+      diff.added.push(propref);
+    } else if (before.hash !== next[propref].hash) {
+      diff.changed.push(propref);
+    } else {
+      diff.unchanged.push(propref);
+    }
+  }
+
+  diff.removed = Object.keys(prev).filter(propref => !next[propref]);
+
+  return diff;
+}
+
+/**
+ * Detect listing lifecycle events between two snapshots.
+ * Without a previous snapshot nothing is reported, otherwise the first sync would announce every listing as new.
+ */
+export function detectListingEvents(
+  previous: PropertySnapshot | null,
+  next: PropertySnapshot,
+  diff: PropertyDiff,
+  occurredAt: string = new Date().toISOString()
+): PropertyEvent[] {
+  if (!previous) {
+    return [];
+  }
+
+  const events: PropertyEvent[] = [];
+
+  for (const propref of diff.added) {
+    const entry = next[propref];
+    events.push({
+      id: generateId(),
+      type: 'listing.created',
+      propref,
+      occurredAt,
+      listingType: entry.listingType,
+      price: entry.price,
+      status: entry.status
+    });
+  }
+
+  for (const propref of diff.changed) {
+    const before = previous[propref];
+    const after = next[propref];
+
+    // A let becoming a sale (or vice versa) is not a price change
+    if (
+      before.price !== null &&
+      after.price !== null &&
+      before.price !== after.price &&
+      before.listingType === after.listingType
+    ) {
+      events.push({
+        id: generateId(),
+        type: 'listing.price_changed',
+        propref,
+        occurredAt,
+        listingType: after.listingType,
+        previousPrice: before.price,
+        price: after.price,
+        change: after.price - before.price,
+        direction: after.price < before.price ? 'reduced' : 'increased'
+      });
+    }
+
+    if (before.status !== after.status) {
+      events.push({
+        id: generateId(),
+        type: 'listing.status_changed',
+        propref,
+        occurredAt,
+        previousStatus: before.status,
+        status: after.status
+      });
+    }
+  }
+
+  for (const propref of diff.removed) {
+    const before = previous[propref];
+    if (!before) continue;
+
+    events.push({
+      id: generateId(),
+      type: 'listing.removed',
+      propref,
+      occurredAt,
+      lastStatus: before.status
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Image filenames that appeared since the previous snapshot - all images of added properties and the
+ * new ones of changed properties. Without a previous snapshot (or previous image list) nothing is
+ * reported, as those images were most likely uploaded already.
+ */
+export function detectNewImages(
+  previous: PropertySnapshot | null,
+  next: PropertySnapshot,
+  diff: PropertyDiff
+): string[] {
+  if (!previous) {
+    return [];
+  }
+
+  const images = new Set<string>();
+
+  for (const propref of diff.added) {
+    (next[propref].images || []).forEach(filename => images.add(filename));
+  }
+
+  for (const propref of diff.changed) {
+    const before = previous[propref].images;
+    if (!before) continue;
+
+    (next[propref].images || [])
+      .filter(filename => !before.includes(filename))
+      .forEach(filename => images.add(filename));
+  }
+
+  return [...images];
+}
@@ -0,0 +1,77 @@
+/**
+ * Property Gallery
+ * Merge a property's photo fields with its Rentman media metadata - ordered by imgorder, captioned,
+ * and split into photos, floorplans and EPC charts
+ */
+
+import { NormalizedProperty, PropertyMediaKind, PropertyMediaMetadata } from '../types';
+import { formatImageCaption } from './formatters';
+
+export interface GalleryItem {
+  filename: string;
+  kind: PropertyMediaKind;
+  /** Formatted caption, null when Rentman has none */
+  caption: string | null;
+}
+
+export interface PropertyGallery {
+  photos: GalleryItem[];
+  floorplan: GalleryItem | null;
+  epc: GalleryItem | null;
+}
+
+const FLOORPLAN_PATTERN = /floor\s*-?\s*plan|\bfp\d*\b/i;
+const EPC_PATTERN = /\bepc\b|energy\s+(performance|rating|efficiency)/i;
+
+/**
+ * Kind of a media item - the property's floorplan field wins, then the filename and caption
+ */
+export function classifyMedia(
+  item: Pick<PropertyMediaMetadata, 'filename' | 'caption'>,
+  property: Pick<NormalizedProperty, 'floorplan'>
+): PropertyMediaKind {
+  if (property.floorplan && item.filename === property.floorplan) {
+    return 'floorplan';
+  }
+
+  const text = `${item.filename} ${item.caption || ''}`.replace(/[_.]/g, ' ');
+  if (EPC_PATTERN.test(text)) {
+    return 'epc';
+  }
+  return FLOORPLAN_PATTERN.test(text) ? 'floorplan' : 'photo';
+}
+
+function toItem(filename: string, kind: PropertyMediaKind, caption?: string): GalleryItem {
+  return { filename, kind, caption: caption && caption.trim() ? formatImageCaption(caption.trim()) : null };
+}
+
+/**
+ * Gallery of a property. Media items come first in Rentman's imgorder; photo fields without
+ * media metadata follow in photoN order, so nothing listed on the property is dropped.
+ */
+export function buildGallery(property: NormalizedProperty, media: PropertyMediaMetadata[] = []): PropertyGallery {
+  const order = (item: PropertyMediaMetadata) => {
+    const parsed = parseInt(item.imgorder, 10);
+    return Number.isFinite(parsed) ? parsed : Number.MAX_SAFE_INTEGER;
+  };
+
+  const items = [...media]
+    .filter(item => item.filename)
+    .sort((a, b) => order(a) - order(b))
+    .map(item => toItem(item.filename, classifyMedia(item, property), item.caption));
+
+  const known = new Set(items.map(item => item.filename));
+  const photos = [
+    ...items.filter(item => item.kind === 'photo'),
+    ...property.photos.filter(photo => !known.has(photo)).map(photo => toItem(photo, 'photo'))
+  ];
+
+  const floorplan = items.find(item => item.kind === 'floorplan')
+    || (property.floorplan ? toItem(property.floorplan, 'floorplan') : null);
+
+  return {
+    photos,
+    floorplan,
+    epc: items.find(item => item.kind === 'epc') || null
+  };
+}
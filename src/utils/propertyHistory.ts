@@ -0,0 +1,116 @@
+/**
+ * Property History Utilities
+ * Builds history entries from sync snapshots and summarizes a property's price and status history
+ */
+
+import {
+  PropertySnapshotEntry,
+  PropertyHistoryEntry,
+  PropertyHistory,
+  PropertyPriceChange,
+  PropertyStatusChange
+} from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Create a history entry from a snapshot entry
+ */
+export function toHistoryEntry(
+  entry: PropertySnapshotEntry,
+  reason: PropertyHistoryEntry['reason'],
+  recordedAt: string = new Date().toISOString()
+): PropertyHistoryEntry {
+  return {
+    recordedAt,
+    reason,
+    listingType: entry.listingType,
+    price: entry.price,
+    status: entry.status
+  };
+}
+
+/**
+ * Whether a snapshot entry differs from the last recorded state in anything the history tracks
+ */
+export function hasHistoryChange(
+  last: Pick<PropertyHistoryEntry, 'listingType' | 'price' | 'status'>,
+  next: PropertySnapshotEntry
+): boolean {
+  return last.listingType !== next.listingType || last.price !== next.price || last.status !== next.status;
+}
+
+/**
+ * Summarize history entries (oldest first) into price changes, status changes and days on market
+ */
+export function summarizeHistory(
+  propref: string,
+  entries: PropertyHistoryEntry[],
+  now: Date = new Date()
+): PropertyHistory | null {
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const priceChanges: PropertyPriceChange[] = [];
+  const statusChanges: PropertyStatusChange[] = [];
+
+  for (let i = 1; i < entries.length; i++) {
+    const before = entries[i - 1];
+    const after = entries[i];
+
+    if (after.reason !== 'updated') continue;
+
+    // A let becoming a sale (or vice versa) is not a price change
+    if (
+      before.price !== null &&
+      after.price !== null &&
+      before.price !== after.price &&
+      before.listingType === after.listingType
+    ) {
+      priceChanges.push({
+        date: after.recordedAt,
+        listingType: after.listingType,
+        previousPrice: before.price,
+        price: after.price,
+        change: after.price - before.price,
+        direction: after.price < before.price ? 'reduced' : 'increased'
+      });
+    }
+
+    if (before.status !== after.status) {
+      statusChanges.push({
+        date: after.recordedAt,
+        previousStatus: before.status,
+        status: after.status
+      });
+    }
+  }
+
+  // The current listing period starts at the most recent 'listed' entry
+  let periodStart = 0;
+  entries.forEach((entry, index) => {
+    if (entry.reason === 'listed') periodStart = index;
+  });
+
+  const period = entries.slice(periodStart);
+  const current = entries[entries.length - 1];
+  const listedAt = period[0].recordedAt;
+  const offMarket = period.find(entry => entry.reason !== 'removed' && entry.status !== 'available');
+  const removed = current.reason === 'removed' ? current : undefined;
+
+  const end = offMarket?.recordedAt || removed?.recordedAt;
+  const endTime = end ? new Date(end).getTime() : now.getTime();
+
+  return {
+    propref,
+    listedAt,
+    offMarketAt: offMarket?.recordedAt || null,
+    removedAt: removed?.recordedAt || null,
+    daysOnMarket: Math.max(0, Math.floor((endTime - new Date(listedAt).getTime()) / DAY_MS)),
+    current,
+    priceChanges,
+    statusChanges,
+    entries
+  };
+}
@@ -0,0 +1,265 @@
+/**
+ * Property Normalizer
+ * Maps raw Rentman PropertyAdvertising records (all strings) onto the typed NormalizedProperty model
+ */
+
+import {
+  PropertyAdvertising,
+  NormalizedProperty,
+  ListingType,
+  FurnishingStatus,
+  PropertyStatus,
+  GeoPoint
+} from '../types';
+import { scoreToGrade, formatStatus } from './formatters';
+
+/**
+ * Parse a numeric Rentman field ("1,500.00", " 2 ", "") - returns null when not a finite number
+ */
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') return null;
+
+  const cleaned = value.replace(/[£,\s]/g, '');
+  if (cleaned === '') return null;
+
+  const parsed = Number(cleaned);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+/**
+ * Parse a count field (beds, baths...) - missing or invalid values count as 0
+ */
+function parseCount(value: unknown): number {
+  const parsed = parseNumber(value);
+  return parsed !== null && parsed > 0 ? Math.floor(parsed) : 0;
+}
+
+/**
+ * Parse a price field - zero or negative prices are treated as "no price"
+ */
+function parsePrice(value: unknown): number | null {
+  const parsed = parseNumber(value);
+  return parsed !== null && parsed > 0 ? parsed : null;
+}
+
+export function parseListingType(rentorbuy: unknown): ListingType | null {
+  const code = String(rentorbuy ?? '').trim();
+  if (code === '1') return 'let';
+  if (code === '2') return 'sale';
+  return null;
+}
+
+export function parseFurnishing(furnished: unknown): FurnishingStatus {
+  const furnishingMap: { [key: string]: FurnishingStatus } = {
+    '1': 'unfurnished',
+    '2': 'part_furnished',
+    '3': 'furnished'
+  };
+
+  return furnishingMap[String(furnished ?? '').trim()] || 'unknown';
+}
+
+/**
+ * Map Rentman STATUS onto PropertyStatus (same groupings as formatStatus)
+ */
+export function parseStatus(status: unknown): PropertyStatus {
+  const value = String(status ?? '').trim().toLowerCase();
+
+  const statusMap: { [key: string]: PropertyStatus } = {
+    '': 'available',
+    'available': 'available',
+    'to let': 'available',
+    'for sale': 'available',
+    'under offer': 'under_offer',
+    'unavailable': 'under_offer',
+    'let agreed': 'let_agreed',
+    'sold': 'sold'
+  };
+
+  return statusMap[value] || 'unknown';
+}
+
+/**
+ * Parse Rentman date strings (YYYY-MM-DD or DD/MM/YYYY) into an ISO date (YYYY-MM-DD)
+ */
+export function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  const trimmed = value.trim();
+
+  let year: number;
+  let month: number;
+  let day: number;
+
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const uk = trimmed.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+
+  if (iso) {
+    [year, month, day] = [Number(iso[1]), Number(iso[2]), Number(iso[3])];
+  } else if (uk) {
+    [day, month, year] = [Number(uk[1]), Number(uk[2]), Number(uk[3])];
+  } else {
+    return null;
+  }
+
+  // Reject 0000-00-00 and rolled-over dates such as 31/02
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (
+    year < 1900 ||
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null;
+  }
+
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parse Rentman geolocation ("lat,lng") into a GeoPoint
+ */
+export function parseGeolocation(value: unknown): GeoPoint | null {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  const parts = value.split(/[,\s]+/).filter(Boolean);
+  if (parts.length !== 2) return null;
+
+  const lat = Number(parts[0]);
+  const lng = Number(parts[1]);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  if (lat === 0 && lng === 0) return null;
+
+  return { lat, lng };
+}
+
+/**
+ * Extract EPC grade and council tax band (prefers the explicit values in bullets)
+ */
+export function extractEpcAndTaxBand(
+  property: Pick<PropertyAdvertising, 'bullets' | 'epcrating' | 'taxband'>
+): { epcrating: string | null; taxband: string | null } {
+  // Prefer explicit grade in bullets if present (format: "Energy Rating : C")
+  let grade: string | null = null;
+  if (property.bullets) {
+    const energyMatch = property.bullets.match(/Energy Rating\s*:\s*([A-G])/i);
+    if (energyMatch) {
+      grade = energyMatch[1].toUpperCase();
+    }
+  }
+
+  // Otherwise normalize existing API value (can be letter or numeric score)
+  const rawRating = property.epcrating as unknown;
+  if (!grade && rawRating !== null && rawRating !== undefined && rawRating !== '') {
+    if (typeof rawRating === 'string') {
+      const maybeGrade = rawRating.trim().toUpperCase();
+      if (maybeGrade && 'ABCDEFG'.includes(maybeGrade)) {
+        grade = maybeGrade;
+      } else {
+        const numeric = Number(rawRating);
+        if (Number.isFinite(numeric)) {
+          grade = scoreToGrade(numeric);
+        }
+      }
+    } else if (typeof rawRating === 'number') {
+      grade = scoreToGrade(rawRating);
+    }
+  }
+
+  // Extract council tax band from bullets field (format: "Council Tax Band B")
+  let taxband = property.taxband || null;
+  if (!taxband && property.bullets) {
+    const taxMatch = property.bullets.match(/Council Tax Band\s+([A-H])/i);
+    if (taxMatch) {
+      taxband = taxMatch[1];
+    }
+  }
+
+  return { epcrating: grade, taxband };
+}
+
+/**
+ * Collect photo1..photoN filenames in numeric order
+ */
+export function extractPhotos(property: PropertyAdvertising): string[] {
+  const record = property as unknown as Record<string, unknown>;
+
+  return Object.keys(record)
+    .map(key => ({ key, match: key.match(/^photo(\d+)$/) }))
+    .filter(({ key, match }) => match && typeof record[key] === 'string' && (record[key] as string).trim())
+    .sort((a, b) => Number(a.match![1]) - Number(b.match![1]))
+    .map(({ key }) => (record[key] as string).trim());
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+/**
+ * Map a raw Rentman property onto the NormalizedProperty model
+ */
+export function normalizeProperty(raw: PropertyAdvertising): NormalizedProperty {
+  const listingType = parseListingType(raw.rentorbuy);
+  const rentPerMonth = parsePrice(raw.rentmonth);
+  const salePrice = parsePrice(raw.saleprice);
+  const singleBedrooms = parseCount(raw.singles);
+  const doubleBedrooms = parseCount(raw.doubles);
+  const { epcrating, taxband } = extractEpcAndTaxBand(raw);
+  const featured = (raw as unknown as { featured?: unknown }).featured;
+
+  return {
+    propref: text(raw.propref),
+    listingType,
+    status: parseStatus(raw.STATUS),
+    statusLabel: formatStatus(raw.STATUS),
+    featured: featured === 1 || featured === '1' || featured === true,
+    displayAddress: text(raw.displayaddress),
+    displayPrice: text(raw.displayprice),
+    price: listingType === 'sale' ? salePrice : rentPerMonth,
+    rentPerMonth,
+    salePrice,
+    address: {
+      number: text(raw.number),
+      street: text(raw.street),
+      locality: text(raw.address3),
+      town: text(raw.address4),
+      postcode: text(raw.postcode)
+    },
+    area: text(raw.area),
+    propertyType: text(raw.TYPE),
+    // Total as the API has always reported it: beds plus singles plus doubles
+    bedrooms: parseCount(raw.beds) + singleBedrooms + doubleBedrooms,
+    singleBedrooms,
+    doubleBedrooms,
+    bathrooms: parseCount(raw.baths),
+    receptions: parseCount(raw.receps),
+    furnishing: parseFurnishing(raw.furnished),
+    shortLet: /[1-9]/.test(text(raw.shortlet)),
+    floor: text(raw.FLOOR),
+    heating: text(raw.heating),
+    availableFrom: parseDate(raw.available),
+    epcRating: epcrating,
+    councilTaxBand: taxband ? taxband.toUpperCase() : null,
+    bullets: text(raw.bullets)
+      .split(/\r?\n|<br\s*\/?>/i)
+      .map(line => line.trim())
+      .filter(Boolean),
+    strapline: text(raw.strapline),
+    description: text(raw.DESCRIPTION),
+    location: parseGeolocation(raw.geolocation),
+    photos: extractPhotos(raw),
+    floorplan: text(raw.floorplan) || null,
+    url: text(raw.url)
+  };
+}
+
+/**
+ * Normalize a list of raw properties, skipping records without a propref
+ */
+export function normalizeProperties(raw: PropertyAdvertising[]): NormalizedProperty[] {
+  return raw.filter(property => property && text(property.propref)).map(normalizeProperty);
+}
@@ -3,10 +3,13 @@
  * Manages Redis connection and cache operations
  */
 
+import crypto from 'crypto';
 import Redis from 'ioredis';
 import type { RedisOptions } from 'ioredis';
 import { config } from '../config';
 import { logger } from './logger';
+import { withLock, WithLockResult } from './lock';
+import type { SnapshotStore } from './snapshotStore';
 
 /**
  * Build ioredis options from REDIS_URL and/or REDIS_HOST.
@@ -71,9 +74,23 @@ function buildRedisOptions(): RedisOptions {
   return opts;
 }
 
-export class RedisCache {
+// Delete / extend the lock only while it still holds our token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+
+export class RedisCache implements SnapshotStore {
   private client: Redis;
   private isConnected: boolean = false;
+  private connecting: Promise<void> | null = null;
 
   constructor() {
     const redisConfig = buildRedisOptions();
@@ -106,18 +123,28 @@ export class RedisCache {
   }
 
   /**
-   * Connect to Redis
+   * Connect to Redis - concurrent callers (sync service, job queue) share one connection attempt
    */
   async connect(): Promise<void> {
-    if (!this.isConnected) {
-      try {
-        await this.client.connect();
-        logger.info('✅ Redis connection established');
-      } catch (error) {
-        logger.error('❌ Failed to connect to Redis:', error);
-        throw error;
-      }
+    if (this.isConnected) {
+      return;
+    }
+
+    if (!this.connecting) {
+      this.connecting = this.client.connect()
+        .then(() => {
+          logger.info('✅ Redis connection established');
+        })
+        .catch(error => {
+          logger.error('❌ Failed to connect to Redis:', error);
+          throw error;
+        })
+        .finally(() => {
+          this.connecting = null;
+        });
     }
+
+    return this.connecting;
   }
 
   /**
@@ -206,6 +233,130 @@ export class RedisCache {
     }
   }
 
+  /**
+   * Prepend values to a list, keeping at most maxLength entries (newest first)
+   */
+  async pushToList(key: string, values: any[], maxLength?: number): Promise<void> {
+    try {
+      if (!this.isReady() || values.length === 0) {
+        return;
+      }
+
+      const pipeline = this.client.multi().lpush(key, ...values.map(value => JSON.stringify(value)));
+      if (maxLength) {
+        pipeline.ltrim(key, 0, maxLength - 1);
+      }
+      await pipeline.exec();
+      logger.debug(`List push: ${key} (+${values.length})`);
+    } catch (error) {
+      logger.error(`Error pushing to list ${key} in Redis:`, error);
+    }
+  }
+
+  /**
+   * Read a range of a list (newest first for lists written by pushToList)
+   */
+  async getList<T>(key: string, start: number = 0, stop: number = -1): Promise<T[]> {
+    try {
+      if (!this.isReady()) {
+        return [];
+      }
+
+      const items = await this.client.lrange(key, start, stop);
+      return items.map(item => JSON.parse(item) as T);
+    } catch (error) {
+      logger.error(`Error reading list ${key} from Redis:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * List keys matching pattern (SCAN, safe on large keyspaces)
+   */
+  async keys(pattern: string): Promise<string[]> {
+    try {
+      if (!this.isReady()) {
+        return [];
+      }
+
+      const keys: string[] = [];
+      let cursor = '0';
+      do {
+        const [nextCursor, batch] = await this.client.scan(cursor, 'MATCH', pattern, 'COUNT', 500);
+        keys.push(...batch);
+        cursor = nextCursor;
+      } while (cursor !== '0');
+
+      return keys;
+    } catch (error) {
+      logger.error(`Error listing keys for pattern ${pattern}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Acquire a lock (SET NX PX) - returns the owner token, or null when the lock is held elsewhere
+   */
+  async acquireLock(key: string, ttlMs: number): Promise<string | null> {
+    try {
+      if (!this.isReady()) {
+        return null;
+      }
+
+      const token = crypto.randomUUID();
+      const result = await this.client.set(key, token, 'PX', ttlMs, 'NX');
+      return result === 'OK' ? token : null;
+    } catch (error) {
+      logger.error(`Error acquiring lock ${key}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Release a lock only if it is still owned by token
+   */
+  async releaseLock(key: string, token: string): Promise<boolean> {
+    try {
+      if (!this.isReady()) {
+        return false;
+      }
+
+      const result = await this.client.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+      return result === 1;
+    } catch (error) {
+      logger.error(`Error releasing lock ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Extend a lock's expiry only if it is still owned by token
+   */
+  async extendLock(key: string, token: string, ttlMs: number): Promise<boolean> {
+    try {
+      if (!this.isReady()) {
+        return false;
+      }
+
+      const result = await this.client.eval(EXTEND_LOCK_SCRIPT, 1, key, token, ttlMs);
+      return result === 1;
+    } catch (error) {
+      logger.error(`Error extending lock ${key}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Run fn while holding a lock, renewing it until fn settles
+   */
+  async withLock<T>(
+    key: string,
+    ttlMs: number,
+    fn: (signal: AbortSignal) => Promise<T>
+  ): Promise<WithLockResult<T>> {
+    return withLock(this, key, ttlMs, fn);
+  }
+
   /**
    * Delete keys matching pattern
    */
@@ -327,9 +478,18 @@ export const redisCache = new RedisCache();
 export const RedisCacheKeys = {
   allProperties: () => 'properties:all',
   property: (id: string) => `property:${id}`,
+  propertyMedia: (id: string) => `media:${id}`,
   searchResults: (params: any) => `search:${JSON.stringify(params)}`,
   metadata: () => 'properties:metadata',
-  syncLock: () => 'sync:lock'
+  snapshot: () => 'properties:snapshot',
+  syncChanges: () => 'sync:changes:last',
+  listingEvents: () => 'events:listing',
+  propertyHistory: (id: string) => `history:${id}`,
+  syncRuns: () => 'sync:runs',
+  syncLock: () => 'sync:lock',
+  imageWarming: () => 'sync:images:warming',
+  imageAsset: (filename: string) => `images:asset:${filename}`,
+  imageOrphans: () => 'images:orphans'
 };
 
 
@@ -0,0 +1,49 @@
+/**
+ * Snapshot Store
+ * Storage used by the property sync and the routes serving synced data.
+ * Redis for multi-instance deployments, the filesystem for single-instance deployments and local dev.
+ */
+
+import { config } from '../config';
+import { logger } from './logger';
+import { redisCache } from './redisCache';
+import { FileSnapshotStore } from './fileSnapshotStore';
+import type { WithLockResult } from './lock';
+
+export interface SnapshotStore {
+  connect(): Promise<void>;
+  isReady(): boolean;
+
+  get<T>(key: string): Promise<T | null>;
+  /** ttl in seconds - omitted means the value never expires */
+  set(key: string, value: unknown, ttl?: number): Promise<void>;
+  exists(key: string): Promise<boolean>;
+  delete(key: string): Promise<void>;
+  /** Keys matching a glob pattern (only `*` is supported) */
+  keys(pattern: string): Promise<string[]>;
+
+  /** Prepend values to a capped list */
+  pushToList(key: string, values: unknown[], maxLength?: number): Promise<void>;
+  /** Read a range of a list, newest first (negative indexes count from the end) */
+  getList<T>(key: string, start?: number, stop?: number): Promise<T[]>;
+
+  acquireLock(key: string, ttlMs: number): Promise<string | null>;
+  releaseLock(key: string, token: string): Promise<boolean>;
+  extendLock(key: string, token: string, ttlMs: number): Promise<boolean>;
+  withLock<T>(key: string, ttlMs: number, fn: (signal: AbortSignal) => Promise<T>): Promise<WithLockResult<T>>;
+}
+
+/**
+ * Create the store selected by SNAPSHOT_STORE
+ */
+export function createSnapshotStore(): SnapshotStore {
+  if (config.snapshotStore.type === 'file') {
+    logger.info(`🗂️ Using file snapshot store (${config.snapshotStore.dir})`);
+    return new FileSnapshotStore(config.snapshotStore.dir);
+  }
+
+  return redisCache;
+}
+
+// Create and export singleton instance
+export const snapshotStore = createSnapshotStore();
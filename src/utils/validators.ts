@@ -87,7 +87,10 @@ export function validateSearchParams(params: any): {
   beds?: number;
   minPrice?: number;
   maxPrice?: number;
+  minSalePrice?: number;
   featured?: boolean;
+  sortBy?: 'price';
+  sortOrder?: 'asc' | 'desc';
   limit?: number;
   page?: number;
 } {
@@ -129,10 +132,25 @@ export function validateSearchParams(params: any): {
     }
   }
 
+  if (params.minSalePrice !== undefined) {
+    const minSalePrice = parseFloat(params.minSalePrice);
+    if (!isNaN(minSalePrice) && minSalePrice >= 0) {
+      validated.minSalePrice = minSalePrice;
+    }
+  }
+
   if (params.featured !== undefined) {
     validated.featured = params.featured === 'true' || params.featured === true;
   }
 
+  if (params.sortBy === 'price') {
+    validated.sortBy = params.sortBy;
+  }
+
+  if (params.sortOrder === 'asc' || params.sortOrder === 'desc') {
+    validated.sortOrder = params.sortOrder;
+  }
+
   if (params.limit !== undefined) {
     const limit = parseInt(params.limit);
     if (!isNaN(limit) && limit > 0 && limit <= 1000) {
@@ -0,0 +1,149 @@
+/**
+ * ZIP Stream
+ * Minimal ZIP writer for downloads - entries are stored uncompressed (photos do not compress) and written
+ * one at a time, so only the entry being added is held in memory
+ */
+
+import { Readable } from 'stream';
+
+export interface ZipEntry {
+  /** Path inside the archive, UTF-8 */
+  name: string;
+  data: Buffer;
+  modified?: Date;
+}
+
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY_SIGNATURE = 0x06054b50;
+
+const ZIP_VERSION = 20;
+// Bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800;
+const STORED = 0;
+
+// Offsets and sizes are 32-bit without ZIP64
+const MAX_ZIP_SIZE = 0xffffffff;
+const MAX_ENTRIES = 0xffff;
+
+// zlib.crc32 needs Node 20.15, the image runs Node 18
+const CRC_TABLE = Array.from({ length: 256 }, (_, index) => {
+  let crc = index;
+  for (let bit = 0; bit < 8; bit++) {
+    crc = crc & 1 ? 0xedb88320 ^ (crc >>> 1) : crc >>> 1;
+  }
+  return crc >>> 0;
+});
+
+/**
+ * CRC-32 (IEEE) of the data, as ZIP headers store it
+ */
+export function crc32(data: Buffer): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * MS-DOS date and time of a date (2 second precision, local time like other zip tools)
+ */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(date.getFullYear(), 1980);
+
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+interface CentralRecord {
+  name: Buffer;
+  crc: number;
+  size: number;
+  offset: number;
+  time: number;
+  date: number;
+}
+
+function localHeader(record: CentralRecord): Buffer {
+  const header = Buffer.alloc(30);
+  header.writeUInt32LE(LOCAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(UTF8_FLAG, 6);
+  header.writeUInt16LE(STORED, 8);
+  header.writeUInt16LE(record.time, 10);
+  header.writeUInt16LE(record.date, 12);
+  header.writeUInt32LE(record.crc, 14);
+  header.writeUInt32LE(record.size, 18);
+  header.writeUInt32LE(record.size, 22);
+  header.writeUInt16LE(record.name.length, 26);
+  header.writeUInt16LE(0, 28);
+  return Buffer.concat([header, record.name]);
+}
+
+function centralHeader(record: CentralRecord): Buffer {
+  const header = Buffer.alloc(46);
+  header.writeUInt32LE(CENTRAL_HEADER_SIGNATURE, 0);
+  header.writeUInt16LE(ZIP_VERSION, 4);
+  header.writeUInt16LE(ZIP_VERSION, 6);
+  header.writeUInt16LE(UTF8_FLAG, 8);
+  header.writeUInt16LE(STORED, 10);
+  header.writeUInt16LE(record.time, 12);
+  header.writeUInt16LE(record.date, 14);
+  header.writeUInt32LE(record.crc, 16);
+  header.writeUInt32LE(record.size, 20);
+  header.writeUInt32LE(record.size, 24);
+  header.writeUInt16LE(record.name.length, 28);
+  // Extra field, comment, disk number, internal and external attributes are all empty
+  header.writeUInt32LE(record.offset, 42);
+  return Buffer.concat([header, record.name]);
+}
+
+function endOfCentralDirectory(entries: number, size: number, offset: number): Buffer {
+  const record = Buffer.alloc(22);
+  record.writeUInt32LE(END_OF_CENTRAL_DIRECTORY_SIGNATURE, 0);
+  record.writeUInt16LE(entries, 8);
+  record.writeUInt16LE(entries, 10);
+  record.writeUInt32LE(size, 12);
+  record.writeUInt32LE(offset, 16);
+  return record;
+}
+
+async function* zipChunks(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): AsyncGenerator<Buffer> {
+  const records: CentralRecord[] = [];
+  let offset = 0;
+
+  for await (const entry of entries) {
+    const record: CentralRecord = {
+      name: Buffer.from(entry.name, 'utf8'),
+      crc: crc32(entry.data),
+      size: entry.data.length,
+      offset,
+      ...dosDateTime(entry.modified || new Date())
+    };
+
+    const header = localHeader(record);
+    offset += header.length + entry.data.length;
+    if (offset > MAX_ZIP_SIZE || records.length >= MAX_ENTRIES) {
+      throw new Error('ZIP archive too large (ZIP64 is not supported)');
+    }
+
+    records.push(record);
+    yield header;
+    yield entry.data;
+  }
+
+  const centralDirectory = Buffer.concat(records.map(centralHeader));
+  yield centralDirectory;
+  yield endOfCentralDirectory(records.length, centralDirectory.length, offset);
+}
+
+/**
+ * Stream a ZIP archive of the entries - they are consumed as the stream is read, so a slow client
+ * also slows down producing them
+ */
+export function createZipStream(entries: AsyncIterable<ZipEntry> | Iterable<ZipEntry>): Readable {
+  return Readable.from(zipChunks(entries), { objectMode: false });
+}
@@ -3,8 +3,16 @@
  * Test the Express.js server endpoints
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import request from 'supertest';
 import { RentmanServer } from '../../src/server/app';
+import { imageAssetRegistry, imageService } from '../../src/images';
+import { jobQueue } from '../../src/jobs';
+import { snapshotStore } from '../../src/utils/snapshotStore';
+import { RedisCacheKeys } from '../../src/utils/redisCache';
+import { config } from '../../src/config';
 
 // Mock the RentmanApiClient
 jest.mock('../../src/client/RentmanApiClient', () => {
@@ -57,7 +65,8 @@ jest.mock('../../src/client/RentmanApiClient', () => {
             propref: '123',
             filename: 'test.jpg',
             caption: 'Living Room',
-            base64data: 'base64data...',
+            // 1x1 PNG
+            base64data: 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==',
             imgorder: '1'
           }
         ],
@@ -204,6 +213,100 @@ describe('Server Integration Tests', () => {
       expect(response.body).toHaveProperty('data');
     });
 
+    test('GET /api/properties?v=0 should serve the deprecated raw Rentman shape', async () => {
+      const response = await request(app)
+        .get('/api/properties?v=0')
+        .expect(200);
+
+      expect(response.headers.deprecation).toBe('true');
+      expect(response.body.data[0]).toMatchObject({
+        propref: '123',
+        displayaddress: '123 Test Street, London',
+        STATUS: 'To Let',
+        images: { main: { url: '/api/images/main-photo.jpg' } }
+      });
+      expect(response.body.data[0]).not.toHaveProperty('schemaVersion');
+    });
+
+    test('GET /api/properties/:id should serve the legacy shape with an X-API-Version: 0 header', async () => {
+      const response = await request(app)
+        .get('/api/properties/123')
+        .set('X-API-Version', '0')
+        .expect(200);
+
+      expect(response.headers.deprecation).toBe('true');
+      expect(response.body.data).toMatchObject({ propref: '123', rentmonth: '1500.00' });
+    });
+
+    test('GET /api/properties/:id/gallery should caption photos from cached media metadata', async () => {
+      await snapshotStore.set(RedisCacheKeys.propertyMedia('123'), [
+        { propref: '123', filename: 'main-photo.jpg', caption: 'living room', imgorder: '1' }
+      ]);
+
+      const response = await request(app)
+        .get('/api/properties/123/gallery')
+        .expect(200);
+
+      expect(response.body.data.main).toMatchObject({ alt: 'Living Room', caption: 'Living Room' });
+      expect(response.body.data.floorplan.original).toBe('/api/images/floorplan.jpg');
+    });
+
+    test('GET /api/properties/:id/photos.zip should zip the photos and floorplan named by order and caption', async () => {
+      await snapshotStore.set(RedisCacheKeys.propertyMedia('123'), [
+        { propref: '123', filename: 'main-photo.jpg', caption: 'living room', imgorder: '1' }
+      ]);
+      for (const filename of ['main-photo.jpg', 'floorplan.jpg']) {
+        await imageAssetRegistry.register({
+          filename,
+          provider: 'cloudinary',
+          publicId: `rentman-properties/${filename.replace('.jpg', '')}`,
+          version: '1700000000',
+          width: 1600,
+          height: 1067,
+          bytes: 245000,
+          format: 'jpg',
+          uploadedAt: '2026-01-10T09:00:00.000Z'
+        });
+      }
+
+      const photo = path.join(os.tmpdir(), `photos-zip-${process.pid}.jpg`);
+      fs.writeFileSync(photo, Buffer.from([0xff, 0xd8, 0xff, 0xd9]));
+      const deliver = jest.spyOn(imageService, 'deliver')
+        .mockResolvedValue({ type: 'file', path: photo, contentType: 'image/jpeg' });
+
+      try {
+        const response = await request(app)
+          .get('/api/properties/123/photos.zip?size=large')
+          .buffer(true)
+          .parse((res, callback) => {
+            const chunks: Buffer[] = [];
+            res.on('data', (chunk: Buffer) => chunks.push(chunk));
+            res.on('end', () => callback(null, Buffer.concat(chunks)));
+          })
+          .expect(200);
+
+        expect(response.headers['content-type']).toBe('application/zip');
+        expect(response.headers['content-disposition']).toBe('attachment; filename="property-123-photos-large.zip"');
+        expect(deliver).toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ width: 1200, format: 'jpg' }));
+
+        const archive = response.body as Buffer;
+        expect(archive.readUInt32LE(0)).toBe(0x04034b50);
+        expect(archive.includes('01 - Living Room.jpg')).toBe(true);
+        expect(archive.includes('Floorplan.jpg')).toBe(true);
+      } finally {
+        deliver.mockRestore();
+        fs.unlinkSync(photo);
+      }
+    });
+
+    test('GET /api/properties/:id/photos.zip should reject unknown sizes', async () => {
+      const response = await request(app)
+        .get('/api/properties/123/photos.zip?size=huge')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('success', false);
+    });
+
     test('GET /api/properties/featured should return featured properties', async () => {
       const response = await request(app)
         .get('/api/properties/featured?limit=3')
@@ -227,6 +330,16 @@ describe('Server Integration Tests', () => {
       expect(response.body).toHaveProperty('success', true);
       expect(response.body).toHaveProperty('data');
     });
+
+    test('GET /api/properties/search should report data freshness', async () => {
+      const response = await request(app)
+        .get('/api/properties/search')
+        .expect(200);
+
+      expect(['api', 'snapshot']).toContain(response.headers['x-data-source']);
+      expect(response.headers).toHaveProperty('x-data-stale');
+      expect(response.body.dataset.source).toBe(response.headers['x-data-source']);
+    });
   });
 
   describe('Media Endpoints', () => {
@@ -239,6 +352,40 @@ describe('Server Integration Tests', () => {
       expect(response.body).toHaveProperty('data');
     });
 
+    test('GET /api/media/:propertyId should link to raw bytes instead of inline base64', async () => {
+      const response = await request(app)
+        .get('/api/media/123')
+        .expect(200);
+
+      expect(response.body.data[0]).toMatchObject({
+        filename: 'test.jpg',
+        url: '/api/media/123/test.jpg/raw',
+        contentType: 'image/png'
+      });
+      expect(response.body.data[0]).not.toHaveProperty('base64data');
+
+      const withData = await request(app)
+        .get('/api/media/123?includeData=true')
+        .expect(200);
+
+      expect(withData.body.data[0]).toHaveProperty('base64data');
+    });
+
+    test('GET /api/media/:propertyId/:mediaId/raw should stream the decoded bytes', async () => {
+      const response = await request(app)
+        .get('/api/media/123/test.jpg/raw')
+        .expect(200);
+
+      expect(response.headers['content-type']).toBe('image/png');
+      expect(response.headers['cache-control']).toContain('max-age=86400');
+      expect(response.body.subarray(1, 4).toString('ascii')).toBe('PNG');
+
+      await request(app)
+        .get('/api/media/123/test.jpg/raw')
+        .set('If-None-Match', response.headers.etag)
+        .expect(304);
+    });
+
     test('GET /api/media/file/:filename should return specific media', async () => {
       const response = await request(app)
         .get('/api/media/file/test.jpg')
@@ -249,6 +396,128 @@ describe('Server Integration Tests', () => {
     });
   });
 
+  describe('Image Endpoints', () => {
+    test('GET /api/images/:filename should redirect registered assets without calling Cloudinary', async () => {
+      await imageAssetRegistry.register({
+        filename: '2002-1.jpg',
+        provider: 'cloudinary',
+        publicId: 'rentman-properties/2002-1',
+        version: '1700000000',
+        width: 1600,
+        height: 1067,
+        bytes: 245000,
+        format: 'jpg',
+        uploadedAt: '2026-01-10T09:00:00.000Z'
+      });
+
+      const response = await request(app)
+        .get('/api/images/2002-1.jpg?size=thumb')
+        .expect(302);
+
+      expect(response.headers.location).toContain('/v1700000000/rentman-properties/2002-1');
+      expect(response.headers.location).toContain('w_300');
+    });
+
+    test('GET /api/images/:filename should honour transformation parameters', async () => {
+      const response = await request(app)
+        .get('/api/images/2002-1.jpg?w=300&h=200&fit=crop')
+        .expect(302);
+
+      expect(response.headers.location).toContain('c_fill,f_jpg,h_200,w_300/v1700000000/rentman-properties/2002-1');
+    });
+
+    test('GET /api/images/:filename should negotiate the format from the Accept header', async () => {
+      const response = await request(app)
+        .get('/api/images/2002-1.jpg?w=300&h=200&fit=crop')
+        .set('Accept', 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8')
+        .expect(302);
+
+      expect(response.headers.location).toContain('f_avif');
+      expect(response.headers.vary).toContain('Accept');
+    });
+
+    test('GET /api/images/:filename should ask to retry while the upload is pending, and 404 once it failed', async () => {
+      const resolve = jest.spyOn(imageService, 'resolve').mockResolvedValue(null);
+      const waitFor = jest.spyOn(jobQueue, 'waitFor').mockResolvedValueOnce(null);
+
+      try {
+        const pending = await request(app)
+          .get('/api/images/2003-1.jpg')
+          .expect(503);
+
+        expect(pending.headers['retry-after']).toBe('10');
+        expect(pending.headers['cache-control']).toBe('no-store');
+
+        const job = await jobQueue.enqueue('image.upload', { filename: '2003-1.jpg' }, { dedupeKey: '2003-1.jpg' });
+        waitFor.mockResolvedValueOnce({ ...job, status: 'dead', lastError: 'Image not found' });
+
+        const missing = await request(app)
+          .get('/api/images/2003-1.jpg')
+          .expect(404);
+
+        expect(missing.body.details).toBe('Image not found');
+      } finally {
+        resolve.mockRestore();
+        waitFor.mockRestore();
+      }
+    });
+
+    test('GET /api/images/:filename should reject invalid transformation parameters', async () => {
+      const response = await request(app)
+        .get('/api/images/2002-1.jpg?fit=stretch')
+        .expect(400);
+
+      expect(response.body).toHaveProperty('success', false);
+    });
+
+    describe('POST /api/images/upload', () => {
+      const png = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+      test('should require the admin API key', async () => {
+        await request(app)
+          .post('/api/images/upload')
+          .send({ filename: '3003-1.png', base64Data: png })
+          .expect(401);
+      });
+
+      test('should reject payloads that are not images', async () => {
+        const response = await request(app)
+          .post('/api/images/upload')
+          .set('X-API-Key', 'test-admin-key')
+          .send({ filename: '3003-1.jpg', base64Data: Buffer.from('<script>alert(1)</script>').toString('base64') })
+          .expect(415);
+
+        expect(response.body).toHaveProperty('error', 'UNSUPPORTED_IMAGE_FORMAT');
+      });
+
+      test('should reject invalid filenames', async () => {
+        const response = await request(app)
+          .post('/api/images/upload')
+          .set('X-API-Key', 'test-admin-key')
+          .send({ filename: 'payload.svg', base64Data: png })
+          .expect(400);
+
+        expect(response.body).toHaveProperty('success', false);
+      });
+
+      test('should reject images over the size limit', async () => {
+        const maxFileSize = config.images.maxFileSize;
+        config.images.maxFileSize = 32;
+        try {
+          const response = await request(app)
+            .post('/api/images/upload')
+            .set('X-API-Key', 'test-admin-key')
+            .send({ filename: '3003-1.png', base64Data: png })
+            .expect(413);
+
+          expect(response.body).toHaveProperty('error', 'IMAGE_TOO_LARGE');
+        } finally {
+          config.images.maxFileSize = maxFileSize;
+        }
+      });
+    });
+  });
+
   describe('Search Endpoints', () => {
     test('GET /api/search/properties should return search results', async () => {
       const response = await request(app)
@@ -261,6 +530,20 @@ describe('Server Integration Tests', () => {
       expect(response.body.data).toHaveProperty('pagination');
     });
 
+    test('GET /api/search/properties should mark itself deprecated and match /api/properties/search', async () => {
+      const legacy = await request(app)
+        .get('/api/search/properties?type=rent&limit=5')
+        .expect(200);
+      const current = await request(app)
+        .get('/api/properties/search?type=rent&limit=5')
+        .expect(200);
+
+      expect(legacy.headers.deprecation).toBe('true');
+      expect(legacy.headers.link).toBe('</api/properties/search>; rel="successor-version"');
+      expect(current.headers).not.toHaveProperty('deprecation');
+      expect(legacy.body.data).toEqual(current.body.data);
+    });
+
     test('GET /api/search/suggestions should return suggestions', async () => {
       const response = await request(app)
         .get('/api/search/suggestions?q=London')
@@ -273,6 +556,130 @@ describe('Server Integration Tests', () => {
     });
   });
 
+  describe('Admin Endpoints', () => {
+    test('GET /api/admin/sync/status should require the admin API key', async () => {
+      const response = await request(app)
+        .get('/api/admin/sync/status')
+        .expect(401);
+
+      expect(response.body).toHaveProperty('error', 'UNAUTHORIZED');
+    });
+
+    test('GET /api/admin/sync/status should reject a wrong API key', async () => {
+      await request(app)
+        .get('/api/admin/sync/status')
+        .set('X-API-Key', 'wrong-key')
+        .expect(401);
+    });
+
+    test('GET /api/admin/sync/status should return sync status', async () => {
+      const response = await request(app)
+        .get('/api/admin/sync/status')
+        .set('Authorization', 'Bearer test-admin-key')
+        .expect(200);
+
+      expect(response.body).toHaveProperty('success', true);
+      expect(response.body.data).toHaveProperty('instanceId');
+      expect(response.body.data).toHaveProperty('lastRun');
+    });
+
+    test('GET /api/admin/sync/history should return the run log', async () => {
+      const response = await request(app)
+        .get('/api/admin/sync/history?limit=5')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(200);
+
+      expect(Array.isArray(response.body.data)).toBe(true);
+    });
+
+    test('POST /api/admin/sync should sync into the snapshot store', async () => {
+      const response = await request(app)
+        .post('/api/admin/sync')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ trigger: 'manual', status: 'success' });
+      expect(response.body.data.counts).toMatchObject({ total: 1 });
+
+      const history = await request(app)
+        .get('/api/admin/sync/history')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(200);
+
+      expect(history.body.data[0]).toMatchObject({ id: response.body.data.id });
+
+      const propertyHistory = await request(app)
+        .get('/api/properties/123/history')
+        .expect(200);
+
+      expect(propertyHistory.body.data.entries).toEqual([
+        expect.objectContaining({ reason: 'listed', price: 1500, status: 'available' })
+      ]);
+    });
+
+    test('GET /api/admin/jobs/stats should report the job queue', async () => {
+      const response = await request(app)
+        .get('/api/admin/jobs/stats')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ backend: 'memory' });
+      expect(Object.keys(response.body.data.counts).sort()).toEqual(['active', 'completed', 'dead', 'waiting']);
+    });
+
+    test('GET /api/admin/jobs should reject an unknown status', async () => {
+      await request(app)
+        .get('/api/admin/jobs?status=unknown')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(400);
+    });
+
+    test('POST /api/admin/jobs/:id/retry should return 404 for an unknown job', async () => {
+      await request(app)
+        .post('/api/admin/jobs/missing/retry')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(404);
+    });
+
+    test('GET /api/admin/images/:filename should describe a stored image', async () => {
+      await imageAssetRegistry.register({
+        filename: '5005_1.jpg',
+        provider: 'cloudinary',
+        publicId: 'rentman-properties/5005_1',
+        version: '1700000000',
+        width: 1600,
+        height: 1067,
+        bytes: 245000,
+        format: 'jpg',
+        placeholder: null,
+        uploadedAt: '2026-01-10T09:00:00.000Z'
+      });
+
+      const response = await request(app)
+        .get('/api/admin/images/5005_1.jpg')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ filename: '5005_1.jpg', propref: '5005' });
+    });
+
+    test('PUT /api/admin/images/:filename should require the admin API key', async () => {
+      await request(app)
+        .put('/api/admin/images/5005_1.jpg')
+        .send({ base64Data: 'AAAA' })
+        .expect(401);
+    });
+
+    test('POST /api/admin/images/cleanup should queue a cleanup job', async () => {
+      const response = await request(app)
+        .post('/api/admin/images/cleanup?dryRun=true')
+        .set('X-API-Key', 'test-admin-key')
+        .expect(202);
+
+      expect(response.body.data).toMatchObject({ type: 'images.cleanup', payload: { dryRun: true } });
+    });
+  });
+
   describe('Error Handling', () => {
     test('GET /api/nonexistent should return 404', async () => {
       const response = await request(app)
@@ -3,6 +3,12 @@
  * Global test configuration and utilities
  */
 
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+const snapshotDir = path.join(os.tmpdir(), `rentman-snapshot-test-${process.pid}`);
+
 // Set test environment variables
 process.env.NODE_ENV = 'test';
 process.env.RENTMAN_TOKEN = 'test-token';
@@ -11,6 +17,9 @@ process.env.PORT = '3001';
 process.env.CLOUDINARY_CLOUD_NAME = 'test-cloud';
 process.env.CLOUDINARY_API_KEY = 'test-key';
 process.env.CLOUDINARY_API_SECRET = 'test-secret';
+process.env.ADMIN_API_KEY = 'test-admin-key';
+process.env.SNAPSHOT_STORE = 'file';
+process.env.SNAPSHOT_DIR = snapshotDir;
 
 // Mock console methods in tests to reduce noise
 global.console = {
@@ -24,3 +33,7 @@ global.console = {
 
 // Global test timeout
 jest.setTimeout(10000);
+
+afterAll(() => {
+  fs.rmSync(snapshotDir, { recursive: true, force: true });
+});
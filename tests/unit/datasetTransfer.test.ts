@@ -0,0 +1,47 @@
+/**
+ * Dataset Transfer Tests
+ */
+
+import { anonymizeProperty, parseDataset, serializeDataset } from '../../src/services/datasetTransfer';
+import { DatasetBundle, PropertyAdvertising } from '../../src/types';
+
+const bundle: DatasetBundle = {
+  manifest: {
+    format: 'rentman-dataset',
+    version: 1,
+    exportedAt: '2026-09-01T00:00:00.000Z',
+    lastSync: '2026-08-31T23:00:00.000Z',
+    anonymized: false,
+    counts: { properties: 1, media: 1 }
+  },
+  properties: [{ propref: '1', rentmonth: '1500', comments: 'Landlord is difficult' } as unknown as PropertyAdvertising],
+  media: [{ propref: '1', filename: 'photo.jpg', caption: 'Lounge', imgorder: '1' }]
+};
+
+describe('Dataset Transfer', () => {
+  test('should round-trip NDJSON exports', async () => {
+    const content = await serializeDataset(bundle, 'ndjson');
+
+    expect(content.toString().split('\n')[0]).toContain('"type":"manifest"');
+    expect(await parseDataset(content)).toEqual(bundle);
+  });
+
+  test('should round-trip tarball exports', async () => {
+    const content = await serializeDataset(bundle, 'tar');
+
+    // gzip magic bytes
+    expect(content.subarray(0, 2)).toEqual(Buffer.from([0x1f, 0x8b]));
+    expect(await parseDataset(content)).toEqual(bundle);
+  });
+
+  test('should reject files without a manifest', async () => {
+    await expect(parseDataset(Buffer.from('{"type":"property","data":{}}\n'))).rejects.toThrow(/manifest/);
+  });
+
+  test('should blank internal fields when anonymizing', () => {
+    const anonymized = anonymizeProperty(bundle.properties[0]) as unknown as Record<string, string>;
+
+    expect(anonymized.comments).toBe('');
+    expect(anonymized.rentmonth).toBe('1500');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * File Snapshot Store Tests
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileSnapshotStore } from '../../src/utils/fileSnapshotStore';
+
+describe('FileSnapshotStore', () => {
+  let dir: string;
+  let store: FileSnapshotStore;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-store-'));
+    store = new FileSnapshotStore(dir);
+    await store.connect();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should store, read and delete values', async () => {
+    await store.set('property:1', { propref: '1' });
+
+    expect(await store.get('property:1')).toEqual({ propref: '1' });
+    expect(await store.exists('property:1')).toBe(true);
+
+    await store.delete('property:1');
+
+    expect(await store.get('property:1')).toBeNull();
+    expect(await store.exists('property:1')).toBe(false);
+  });
+
+  test('should expire values with a TTL', async () => {
+    jest.useFakeTimers({ now: new Date('2026-09-01T00:00:00.000Z') });
+    await store.set('properties:all', [1, 2], 60);
+
+    jest.setSystemTime(new Date('2026-09-01T00:01:01.000Z'));
+
+    expect(await store.get('properties:all')).toBeNull();
+  });
+
+  test('should list keys matching a pattern', async () => {
+    await store.set('property:1', {});
+    await store.set('property:2', {});
+    await store.set('properties:all', []);
+    await store.pushToList('history:1', [{}]);
+
+    expect((await store.keys('property:*')).sort()).toEqual(['property:1', 'property:2']);
+  });
+
+  test('should return lists newest first and cap their length', async () => {
+    await store.pushToList('events', [1, 2], 3);
+    await store.pushToList('events', [3, 4], 3);
+
+    expect(await store.getList('events')).toEqual([4, 3, 2]);
+    expect(await store.getList('events', 0, 0)).toEqual([4]);
+    expect(await store.getList('missing')).toEqual([]);
+  });
+
+  test('should not lose entries to concurrent pushes to the same list', async () => {
+    await Promise.all(Array.from({ length: 10 }, (_, index) => store.pushToList('events', [index], 5)));
+
+    expect(await store.getList('events')).toEqual([9, 8, 7, 6, 5]);
+  });
+
+  test('should grant locks to one owner at a time', async () => {
+    const token = await store.acquireLock('sync:lock', 1000);
+
+    expect(token).toEqual(expect.any(String));
+    expect(await store.acquireLock('sync:lock', 1000)).toBeNull();
+    expect(await store.releaseLock('sync:lock', 'other-token')).toBe(false);
+    expect(await store.releaseLock('sync:lock', token as string)).toBe(true);
+    expect(await store.acquireLock('sync:lock', 1000)).toEqual(expect.any(String));
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Image Format Detection Tests
+ */
+
+import { detectBase64ImageFormat, detectImageFormat } from '../../src/utils/imageFormat';
+
+describe('Image Format Detection', () => {
+  test('should detect images from their magic bytes', () => {
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]))?.contentType).toBe('image/jpeg');
+    expect(detectImageFormat(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))?.format).toBe('png');
+    expect(detectImageFormat(Buffer.from('GIF89a\x01\x00'))?.format).toBe('gif');
+    expect(detectImageFormat(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 '))?.contentType).toBe('image/webp');
+    expect(detectImageFormat(Buffer.from('\x00\x00\x00\x1cftypavif\x00\x00'))?.format).toBe('avif');
+    expect(detectImageFormat(Buffer.from('\x00\x00\x00\x18ftypheic\x00\x00'))?.format).toBe('heic');
+  });
+
+  test('should detect PDF floorplans', () => {
+    expect(detectImageFormat(Buffer.from('%PDF-1.7\n'))?.contentType).toBe('application/pdf');
+  });
+
+  test('should not guess unknown or truncated payloads', () => {
+    expect(detectImageFormat(Buffer.from('<html></html>'))).toBeNull();
+    expect(detectImageFormat(Buffer.from([0xff, 0xd8]))).toBeNull();
+    expect(detectImageFormat(Buffer.alloc(0))).toBeNull();
+  });
+
+  test('should detect base64 data from its first bytes', () => {
+    const png = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+    expect(detectBase64ImageFormat(png)?.format).toBe('png');
+    expect(detectBase64ImageFormat('bm90IGFuIGltYWdl')).toBeNull();
+  });
+});
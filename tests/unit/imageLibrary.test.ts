@@ -0,0 +1,172 @@
+/**
+ * Image Library Tests
+ */
+
+import { ImageService, StorageProvider, imageAssetRegistry } from '../../src/images';
+import { cleanupOrphanedImages, describeImages, inferPropref } from '../../src/services/imageLibrary';
+import { snapshotStore } from '../../src/utils/snapshotStore';
+import { RedisCacheKeys } from '../../src/utils/redisCache';
+import { ImageAsset, PropertySnapshot } from '../../src/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function makeAsset(filename: string, origin: ImageAsset['origin'] = 'rentman'): ImageAsset {
+  return {
+    filename,
+    provider: 'cloudinary',
+    publicId: `rentman-properties/${filename.replace(/\.[^/.]+$/, '')}`,
+    version: '1700000000',
+    width: 1600,
+    height: 1067,
+    bytes: 245000,
+    format: 'jpg',
+    origin,
+    uploadedAt: '2026-01-10T09:00:00.000Z'
+  };
+}
+
+function makeService(filenames: string[], assets: (filename: string) => ImageAsset = makeAsset): {
+  service: ImageService;
+  provider: StorageProvider;
+} {
+  // Two pages, to walk the cursor
+  const pages = [filenames.slice(0, 2), filenames.slice(2)];
+  const provider: StorageProvider = {
+    name: 'cloudinary',
+    find: jest.fn().mockResolvedValue(null),
+    upload: jest.fn(),
+    url: jest.fn().mockReturnValue('https://cdn.test/image'),
+    file: jest.fn(),
+    placeholder: jest.fn(),
+    delete: jest.fn().mockResolvedValue(true),
+    list: jest.fn(async (cursor?: string | null) => {
+      const index = cursor ? Number(cursor) : 0;
+      return { assets: pages[index].map(filename => assets(filename)), nextCursor: index === 0 ? '1' : null };
+    })
+  };
+
+  return { service: new ImageService(provider, imageAssetRegistry), provider };
+}
+
+const snapshot: PropertySnapshot = {
+  '100': { propref: '100', hash: 'a', listingType: 'let', price: 1500, status: 'available', images: ['100_1.jpg', '100_2.jpg'] },
+  '200': { propref: '200', hash: 'b', listingType: 'sale', price: 350000, status: 'available', images: ['200_1.jpg'] }
+};
+
+describe('Image Library', () => {
+  beforeAll(async () => {
+    await snapshotStore.connect();
+  });
+
+  beforeEach(async () => {
+    await snapshotStore.set(RedisCacheKeys.snapshot(), snapshot);
+    await snapshotStore.delete(RedisCacheKeys.imageOrphans());
+    await snapshotStore.delete(RedisCacheKeys.propertyMedia('100'));
+    await snapshotStore.delete(RedisCacheKeys.propertyMedia('200'));
+  });
+
+  afterAll(async () => {
+    await snapshotStore.delete(RedisCacheKeys.snapshot());
+    await snapshotStore.delete(RedisCacheKeys.imageOrphans());
+  });
+
+  test('should infer proprefs from Rentman filenames', () => {
+    expect(inferPropref('12345_1.jpg')).toBe('12345');
+    expect(inferPropref('floorplan.jpg')).toBeNull();
+  });
+
+  test('should describe images with the property using them', async () => {
+    const [used, unused] = await describeImages([makeAsset('100_2.jpg'), makeAsset('300_1.jpg')]);
+
+    expect(used).toMatchObject({ propref: '100', referenced: true, orphanedSince: null });
+    expect(unused).toMatchObject({ propref: '300', referenced: false });
+  });
+
+  test('should only delete unused images after the grace period', async () => {
+    const { service, provider } = makeService(['100_1.jpg', '300_1.jpg', '200_1.jpg', '300_2.jpg']);
+    const firstRun = new Date('2026-03-01T00:00:00.000Z');
+
+    const first = await cleanupOrphanedImages(service, { now: firstRun });
+    expect(first).toMatchObject({ scanned: 4, referenced: 2, orphaned: 2, expired: [], deleted: [] });
+    expect(provider.delete).not.toHaveBeenCalled();
+
+    const [described] = await describeImages([makeAsset('300_1.jpg')]);
+    expect(described.orphanedSince).toBe(firstRun.toISOString());
+
+    const dryRun = await cleanupOrphanedImages(service, { now: new Date(firstRun.getTime() + 8 * DAY_MS), dryRun: true });
+    expect(dryRun.expired).toEqual(['300_1.jpg', '300_2.jpg']);
+    expect(provider.delete).not.toHaveBeenCalled();
+
+    const later = await cleanupOrphanedImages(service, { now: new Date(firstRun.getTime() + 8 * DAY_MS) });
+    expect(later.deleted).toEqual(['300_1.jpg', '300_2.jpg']);
+    expect(provider.delete).toHaveBeenCalledTimes(2);
+    expect(await snapshotStore.get(RedisCacheKeys.imageOrphans())).toEqual({});
+  });
+
+  test('should forget images whose property came back', async () => {
+    const { service } = makeService(['100_1.jpg', '300_1.jpg']);
+    await cleanupOrphanedImages(service, { now: new Date('2026-03-01T00:00:00.000Z') });
+
+    await snapshotStore.set(RedisCacheKeys.snapshot(), {
+      ...snapshot,
+      '300': { propref: '300', hash: 'c', listingType: 'let', price: 900, status: 'available', images: ['300_1.jpg'] }
+    });
+    const result = await cleanupOrphanedImages(service, { now: new Date('2026-04-01T00:00:00.000Z') });
+
+    expect(result).toMatchObject({ orphaned: 0, deleted: [] });
+  });
+
+  test('should not delete anything without image lists to compare with', async () => {
+    const { service, provider } = makeService(['300_1.jpg']);
+    await snapshotStore.set(RedisCacheKeys.snapshot(), {
+      '100': { propref: '100', hash: 'a', listingType: 'let', price: 1500, status: 'available' }
+    });
+
+    const result = await cleanupOrphanedImages(service, { now: new Date('2030-01-01T00:00:00.000Z') });
+
+    expect(result.skipped).not.toBeNull();
+    expect(provider.list).not.toHaveBeenCalled();
+    expect(provider.delete).not.toHaveBeenCalled();
+  });
+
+  test('should count cached media items as used', async () => {
+    await snapshotStore.set(RedisCacheKeys.propertyMedia('100'), [
+      { propref: '100', filename: '100_1.jpg', caption: 'Lounge', imgorder: '1' },
+      { propref: '100', filename: '100_epc.png', caption: 'EPC', imgorder: '9' }
+    ]);
+    await snapshotStore.set(RedisCacheKeys.propertyMedia('200'), []);
+    const { service } = makeService(['100_epc.png', '100_7.jpg', '200_4.jpg']);
+
+    const result = await cleanupOrphanedImages(service, { now: new Date('2026-03-01T00:00:00.000Z') });
+
+    expect(result).toMatchObject({ scanned: 3, referenced: 1, orphaned: 2 });
+  });
+
+  test('should count images of properties without cached media as used', async () => {
+    const { service } = makeService(['200_4.jpg', '300_1.jpg']);
+
+    const result = await cleanupOrphanedImages(service, { now: new Date('2026-03-01T00:00:00.000Z') });
+
+    expect(result).toMatchObject({ scanned: 2, referenced: 1, orphaned: 1 });
+  });
+
+  test('should never delete images that did not come from Rentman', async () => {
+    const { service, provider } = makeService(
+      ['300_1.jpg', 'banner.jpg', '300_2.jpg', '300_3.jpg', 'logo.png'],
+      filename => {
+        if (filename === 'banner.jpg' || filename === '300_3.jpg') return makeAsset(filename, 'upload');
+        // Stored before origins were recorded
+        const asset = makeAsset(filename);
+        if (filename === '300_2.jpg' || filename === 'logo.png') delete asset.origin;
+        return asset;
+      }
+    );
+    const firstRun = new Date('2026-03-01T00:00:00.000Z');
+
+    await cleanupOrphanedImages(service, { now: firstRun });
+    const result = await cleanupOrphanedImages(service, { now: new Date(firstRun.getTime() + 8 * DAY_MS) });
+
+    expect(result).toMatchObject({ scanned: 5, orphaned: 2, kept: 3, deleted: ['300_1.jpg', '300_2.jpg'] });
+    expect(provider.delete).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,582 @@
+/**
+ * Image Service Tests
+ */
+
+import fs from 'fs';
+import http from 'http';
+import { AddressInfo } from 'net';
+import os from 'os';
+import path from 'path';
+import {
+  CloudinaryStorageProvider,
+  ImageService,
+  LocalStorageProvider,
+  StorageProvider,
+  imageAssetRegistry,
+  negotiateImageFormat,
+  negotiateImageRequest,
+  bannerLabel,
+  fetchOriginImage,
+  parseImageRequest,
+  presetTransformation,
+  rewriteCdnUrl,
+  sanitizeImageFilename,
+  transformationKey,
+  validateImageUpload
+} from '../../src/images';
+import { CloudinaryService } from '../../src/utils/cloudinaryService';
+import { snapshotStore } from '../../src/utils/snapshotStore';
+import { ImageAsset, ImageTransformation } from '../../src/types';
+import { config } from '../../src/config';
+
+function makeAsset(filename: string, overrides: Partial<ImageAsset> = {}): ImageAsset {
+  return {
+    filename,
+    provider: 'cloudinary',
+    publicId: `rentman-properties/${filename.replace(/\.[^/.]+$/, '')}`,
+    version: '1700000000',
+    width: 1600,
+    height: 1067,
+    bytes: 245000,
+    format: 'jpg',
+    uploadedAt: '2026-01-10T09:00:00.000Z',
+    ...overrides
+  };
+}
+
+function fakeProvider(overrides: Partial<StorageProvider> = {}): StorageProvider {
+  return {
+    name: 'cloudinary',
+    find: jest.fn().mockResolvedValue(null),
+    upload: jest.fn(async (filename: string) => makeAsset(filename)),
+    url: jest.fn((asset: ImageAsset, transformation: ImageTransformation) =>
+      `https://cdn.test/${transformationKey(transformation)}/${asset.publicId}`),
+    file: jest.fn(),
+    placeholder: jest.fn().mockResolvedValue('data:image/jpeg;base64,AAAA'),
+    delete: jest.fn().mockResolvedValue(true),
+    list: jest.fn().mockResolvedValue({ assets: [], nextCursor: null }),
+    ...overrides
+  };
+}
+
+describe('Images', () => {
+  beforeAll(async () => {
+    await snapshotStore.connect();
+  });
+
+  describe('parseImageRequest', () => {
+    test('should read the size from a filename suffix', () => {
+      expect(parseImageRequest('1001_thumb.jpg')).toEqual({
+        filename: '1001.jpg',
+        transformation: presetTransformation('thumb'),
+        key: transformationKey(presetTransformation('thumb'))
+      });
+    });
+
+    test('should read the size from the query and default to medium', () => {
+      expect(parseImageRequest('1001.jpg', { size: 'large' }).transformation).toEqual(presetTransformation('large'));
+      expect(parseImageRequest('1001.jpg').transformation).toEqual(presetTransformation('medium'));
+    });
+
+    test('should serve unknown sizes as the original', () => {
+      expect(parseImageRequest('1001.jpg', { size: 'huge' })).toMatchObject({ transformation: {}, key: 'original' });
+    });
+
+    test('should apply custom parameters on their own', () => {
+      expect(parseImageRequest('1001.jpg', { w: '300', h: '200', fit: 'crop' })).toEqual({
+        filename: '1001.jpg',
+        transformation: { width: 300, height: 200, fit: 'crop' },
+        key: 'w_300,h_200,c_crop'
+      });
+    });
+
+    test('should replace the box of a preset and keep its other settings', () => {
+      expect(parseImageRequest('1001.jpg', { preset: 'thumb', w: '400' }).transformation).toEqual({
+        width: 400,
+        fit: 'fill',
+        gravity: 'auto',
+        quality: config.images.quality.thumb
+      });
+    });
+
+    test('should snap values to a bounded grid', () => {
+      expect(parseImageRequest('1001.jpg', { w: '301', h: '99999', q: '73', dpr: '1.8' }).transformation).toEqual({
+        width: 400,
+        height: 2400,
+        quality: 75,
+        dpr: 2
+      });
+      expect(parseImageRequest('1001.jpg', { w: '300', q: '1', dpr: '1' }).transformation).toEqual({
+        width: 300,
+        quality: 30
+      });
+    });
+
+    test('should accept aliases and drop fit without dimensions', () => {
+      expect(parseImageRequest('1001.jpg', { crop: 'fit', gravity: 'centre', format: 'jpeg' }).transformation)
+        .toEqual({ format: 'jpg' });
+      expect(parseImageRequest('1001.jpg', { w: '300', crop: 'fit', gravity: 'centre' }).transformation)
+        .toEqual({ width: 300, fit: 'fit', gravity: 'center' });
+    });
+
+    test('should reject values outside the allowlists', () => {
+      expect(() => parseImageRequest('1001.jpg', { w: 'wide' })).toThrow('w must be a positive number');
+      expect(() => parseImageRequest('1001.jpg', { w: '-10' })).toThrow('w must be a positive number');
+      expect(() => parseImageRequest('1001.jpg', { fit: 'stretch' })).toThrow('fit must be one of');
+      expect(() => parseImageRequest('1001.jpg', { format: 'bmp' })).toThrow('format must be one of');
+      expect(() => parseImageRequest('1001.jpg', { preset: 'poster' })).toThrow('preset must be one of');
+    });
+
+    test('should only allow presets when custom transformations are disabled', () => {
+      config.images.customTransformations = false;
+      try {
+        expect(parseImageRequest('1001.jpg', { preset: 'card' }).transformation).toMatchObject({ width: 600 });
+        expect(() => parseImageRequest('1001.jpg', { w: '300' })).toThrow('Only presets are allowed');
+      } finally {
+        config.images.customTransformations = true;
+      }
+    });
+  });
+
+  describe('overlays', () => {
+    afterEach(() => {
+      config.images.watermark.image = '';
+      config.images.statusBanners = false;
+    });
+
+    test('should only draw status banners when enabled', () => {
+      expect(parseImageRequest('1001.jpg', { preset: 'card', banner: 'sold' }).key).not.toContain('banner');
+
+      config.images.statusBanners = true;
+      expect(parseImageRequest('1001.jpg', { preset: 'card', banner: 'sold' }).key).toContain('banner_sold');
+      expect(() => parseImageRequest('1001.jpg', { banner: 'reduced' })).toThrow('banner must be one of');
+      expect(bannerLabel('let_agreed')).toBe('Let Agreed');
+    });
+
+    test('should watermark every image wide enough once a logo is configured', () => {
+      expect(parseImageRequest('1001.jpg', { preset: 'large' }).transformation.watermark).toBeUndefined();
+
+      config.images.watermark.image = 'branding/logo';
+      expect(parseImageRequest('1001.jpg', { preset: 'large' }).key).toContain('wm');
+      expect(parseImageRequest('1001.jpg', { size: 'original' }).key).toBe('wm');
+      expect(parseImageRequest('1001.jpg', { preset: 'thumb' }).transformation.watermark).toBeUndefined();
+      expect(parseImageRequest('1001.jpg', { w: '300', dpr: '2' }).transformation.watermark).toBe(true);
+    });
+
+    test('should chain Cloudinary overlay layers after the resize', () => {
+      config.images.watermark.image = 'branding/logo';
+      const url = new CloudinaryStorageProvider().url(makeAsset('4005.jpg'), {
+        width: 600,
+        height: 400,
+        fit: 'crop',
+        watermark: true,
+        banner: 'under_offer'
+      });
+
+      expect(url).toContain('/c_fill,h_400,w_600/');
+      expect(url).toContain('l_text:Arial_64_bold:Under%20Offer');
+      expect(url).toMatch(/fl_relative,g_south_east,l_branding:logo,o_60,w_0\.2/);
+    });
+  });
+
+  describe('format negotiation', () => {
+    test('should pick the first offered format the client accepts', () => {
+      expect(negotiateImageFormat('image/avif,image/webp,image/*,*/*;q=0.8', ['avif', 'webp'])).toBe('avif');
+      expect(negotiateImageFormat('image/webp,image/*,*/*;q=0.8', ['avif', 'webp'])).toBe('webp');
+      expect(negotiateImageFormat('image/avif,image/webp', ['webp'])).toBe('webp');
+    });
+
+    test('should fall back to JPEG', () => {
+      expect(negotiateImageFormat(undefined, ['avif', 'webp'])).toBe('jpg');
+      expect(negotiateImageFormat('image/*,*/*', ['avif', 'webp'])).toBe('jpg');
+      expect(negotiateImageFormat('image/avif;q=0,image/png', ['avif', 'webp'])).toBe('jpg');
+    });
+
+    test('should only negotiate missing or automatic formats', () => {
+      const accept = 'image/webp';
+
+      expect(negotiateImageRequest(parseImageRequest('1001.jpg', { w: '300' }), accept).key).toBe('w_300,f_webp');
+      expect(negotiateImageRequest(parseImageRequest('1001.jpg', { w: '300', format: 'auto' }), accept).key)
+        .toBe('w_300,f_webp');
+      expect(negotiateImageRequest(parseImageRequest('1001.jpg', { w: '300', format: 'png' }), accept).key)
+        .toBe('w_300,f_png');
+      expect(negotiateImageRequest(parseImageRequest('1001.jpg', { size: 'original' }), accept).key).toBe('original');
+    });
+  });
+
+  describe('validateImageUpload', () => {
+    const png = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+    test('should sanitise filenames to a safe base name', () => {
+      expect(sanitizeImageFilename('../../etc/1001 front.jpg')).toBe('1001_front.jpg');
+      expect(sanitizeImageFilename('..\\uploads\\.hidden.png')).toBe('hidden.png');
+    });
+
+    test('should accept images and detect their real format', () => {
+      const upload = validateImageUpload('1001.jpg', `data:image/png;base64,${png}`);
+
+      expect(upload).toMatchObject({ filename: '1001.jpg', base64data: png, bytes: 70 });
+      expect(upload.format.format).toBe('png');
+    });
+
+    test('should reject missing fields, bad filenames and invalid base64', () => {
+      expect(() => validateImageUpload(undefined, png)).toThrow('base64Data and filename are required');
+      expect(() => validateImageUpload('1001.exe', png)).toThrow('Invalid image filename');
+      expect(() => validateImageUpload('1001.jpg', 'not base64!')).toThrow('not valid base64');
+    });
+
+    test('should reject payloads that are not an allowed image format', () => {
+      const pdf = Buffer.from('%PDF-1.4 floorplan').toString('base64');
+
+      expect(() => validateImageUpload('1001.jpg', pdf)).toThrow(expect.objectContaining({ statusCode: 415 }));
+      expect(() => validateImageUpload('1001.jpg', Buffer.from('hello').toString('base64')))
+        .toThrow(expect.objectContaining({ statusCode: 415 }));
+    });
+
+    test('should reject images over the size limit', () => {
+      const maxFileSize = config.images.maxFileSize;
+      config.images.maxFileSize = 32;
+      try {
+        expect(() => validateImageUpload('1001.png', png)).toThrow(expect.objectContaining({ statusCode: 413 }));
+      } finally {
+        config.images.maxFileSize = maxFileSize;
+      }
+    });
+  });
+
+  describe('ImageService', () => {
+    test('should resolve registered assets without asking the provider', async () => {
+      const provider = fakeProvider();
+      const service = new ImageService(provider, imageAssetRegistry);
+      await imageAssetRegistry.register(makeAsset('3001.jpg'));
+
+      expect(await service.resolve('3001.jpg')).toMatchObject({ publicId: 'rentman-properties/3001' });
+      expect(provider.find).not.toHaveBeenCalled();
+    });
+
+    test('should look up and register assets missing from the registry', async () => {
+      const provider = fakeProvider({ find: jest.fn(async (filename: string) => makeAsset(filename)) });
+      const service = new ImageService(provider, imageAssetRegistry);
+
+      expect(await service.resolve('3002.jpg')).toMatchObject({ filename: '3002.jpg' });
+      expect(await imageAssetRegistry.get('3002.jpg')).toMatchObject({ filename: '3002.jpg', origin: 'rentman' });
+    });
+
+    test('should ignore registry entries of another provider', async () => {
+      const provider = fakeProvider();
+      const service = new ImageService(provider, imageAssetRegistry);
+      await imageAssetRegistry.register(makeAsset('3003.jpg', { provider: 'local' }));
+
+      expect(await service.resolve('3003.jpg')).toBeNull();
+      expect(provider.find).toHaveBeenCalledWith('3003.jpg');
+    });
+
+    test('should store and register uploads', async () => {
+      const service = new ImageService(fakeProvider(), imageAssetRegistry);
+
+      await service.store('3004.jpg', 'aGVsbG8=', 'rentman');
+
+      expect(await imageAssetRegistry.get('3004.jpg')).toMatchObject({
+        version: '1700000000',
+        placeholder: 'data:image/jpeg;base64,AAAA',
+        origin: 'rentman'
+      });
+    });
+
+    test('should store images whose placeholder cannot be generated', async () => {
+      const provider = fakeProvider({ placeholder: jest.fn().mockRejectedValue(new Error('CDN timeout')) });
+      const service = new ImageService(provider, imageAssetRegistry);
+
+      expect(await service.store('3008.jpg', 'aGVsbG8=', 'upload')).toMatchObject({ filename: '3008.jpg', placeholder: null });
+    });
+
+    test('should look up the assets of several images at once', async () => {
+      const service = new ImageService(fakeProvider(), imageAssetRegistry);
+      await imageAssetRegistry.register(makeAsset('3009.jpg'));
+      await imageAssetRegistry.register(makeAsset('3010.jpg', { provider: 'local' }));
+
+      const assets = await service.assets(['3009.jpg', '3010.jpg', '3011.jpg', '3009.jpg']);
+
+      expect([...assets.keys()]).toEqual(['3009.jpg']);
+    });
+
+    test('should redirect to provider URLs', async () => {
+      const service = new ImageService(fakeProvider(), imageAssetRegistry);
+
+      expect(await service.deliver(makeAsset('3005.jpg'), { width: 300, height: 200, fit: 'crop' })).toEqual({
+        type: 'redirect',
+        url: 'https://cdn.test/w_300,h_200,c_crop/rentman-properties/3005'
+      });
+    });
+
+    test('should serve files and link to the image route for providers without URLs', async () => {
+      const provider = fakeProvider({
+        name: 'local',
+        url: jest.fn().mockReturnValue(null),
+        file: jest.fn().mockResolvedValue({ path: '/images/thumb/3006.webp', contentType: 'image/webp' })
+      });
+      const service = new ImageService(provider, imageAssetRegistry);
+      const asset = makeAsset('3006.jpg', { provider: 'local' });
+
+      expect(await service.deliver(asset, presetTransformation('thumb'))).toEqual({
+        type: 'file',
+        path: '/images/thumb/3006.webp',
+        contentType: 'image/webp'
+      });
+      expect(service.urls(asset).thumb).toBe('/api/images/3006.jpg?size=thumb');
+    });
+
+    test('should list stored images with their registered details', async () => {
+      const provider = fakeProvider({
+        list: jest.fn().mockResolvedValue({
+          assets: [makeAsset('3012.jpg', { width: null }), makeAsset('3013.jpg', { width: null })],
+          nextCursor: 'next'
+        })
+      });
+      const service = new ImageService(provider, imageAssetRegistry);
+      await imageAssetRegistry.register(makeAsset('3012.jpg'));
+
+      const page = await service.list();
+
+      expect(page.nextCursor).toBe('next');
+      expect(page.assets.map(asset => asset.width)).toEqual([1600, null]);
+    });
+
+    test('should delete from storage and the registry', async () => {
+      const provider = fakeProvider();
+      const service = new ImageService(provider, imageAssetRegistry);
+      await imageAssetRegistry.register(makeAsset('3007.jpg'));
+
+      await service.remove(makeAsset('3007.jpg'));
+
+      expect(provider.delete).toHaveBeenCalled();
+      expect(await imageAssetRegistry.get('3007.jpg')).toBeNull();
+    });
+  });
+
+  describe('delivery', () => {
+    test('should rewrite provider URLs onto the CDN domain', () => {
+      const url = 'https://res.cloudinary.com/test-cloud/image/upload/w_300/v1/rentman-properties/3014?_a=B';
+
+      expect(rewriteCdnUrl(url, 'https://images.example.com/')).toBe(
+        'https://images.example.com/test-cloud/image/upload/w_300/v1/rentman-properties/3014?_a=B'
+      );
+      expect(rewriteCdnUrl(url, 'https://cdn.example.com/img')).toContain('https://cdn.example.com/img/test-cloud/');
+      expect(rewriteCdnUrl(url)).toBe(url);
+    });
+
+    test('should redirect to the CDN domain', async () => {
+      const service = new ImageService(fakeProvider({
+        url: jest.fn().mockReturnValue('https://res.cloudinary.com/test-cloud/image/upload/w_300/rentman-properties/3015')
+      }), imageAssetRegistry, { mode: 'redirect', cdnUrl: 'https://images.example.com' });
+
+      expect(await service.deliver(makeAsset('3015.jpg'), { width: 300 })).toEqual({
+        type: 'redirect',
+        url: 'https://images.example.com/test-cloud/image/upload/w_300/rentman-properties/3015'
+      });
+      expect(service.urls(makeAsset('3015.jpg')).thumb).toMatch(/^https:\/\/images\.example\.com\//);
+    });
+
+    test('should proxy provider URLs and link to the image route', async () => {
+      const service = new ImageService(fakeProvider(), imageAssetRegistry, { mode: 'proxy' });
+      const asset = makeAsset('3016.jpg');
+
+      expect(await service.deliver(asset, { width: 300 })).toEqual({
+        type: 'proxy',
+        url: 'https://cdn.test/w_300/rentman-properties/3016'
+      });
+      expect(service.urls(asset).medium).toBe('/api/images/3016.jpg?size=medium');
+    });
+
+    describe('fetchOriginImage', () => {
+      const PIXEL = Buffer.from('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==', 'base64');
+      let server: http.Server;
+      let origin: string;
+
+      beforeAll(async () => {
+        server = http.createServer((req, res) => {
+          if (req.url === '/pixel.png') {
+            res.writeHead(200, { 'Content-Type': 'image/png', 'Content-Length': PIXEL.length });
+            res.end(PIXEL);
+          } else if (req.url === '/error.html') {
+            res.writeHead(500, { 'Content-Type': 'text/html' });
+            res.end('<h1>Error</h1>');
+          } else {
+            res.writeHead(404);
+            res.end();
+          }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      });
+
+      afterAll(async () => {
+        await new Promise(resolve => server.close(resolve));
+      });
+
+      test('should stream images from the origin', async () => {
+        const image = await fetchOriginImage(`${origin}/pixel.png`);
+        const chunks: Buffer[] = [];
+        for await (const chunk of image.stream) {
+          chunks.push(chunk as Buffer);
+        }
+
+        expect(image).toMatchObject({ contentType: 'image/png', contentLength: PIXEL.length });
+        expect(Buffer.concat(chunks).equals(PIXEL)).toBe(true);
+      });
+
+      test('should report missing images and origin errors', async () => {
+        await expect(fetchOriginImage(`${origin}/missing.png`)).rejects.toMatchObject({ statusCode: 404 });
+        await expect(fetchOriginImage(`${origin}/error.html`)).rejects.toMatchObject({ statusCode: 502 });
+      });
+    });
+  });
+
+  describe('CloudinaryStorageProvider', () => {
+    test('should map Admin API resources to assets', async () => {
+      const cloudinary = {
+        getImageInfo: jest.fn().mockResolvedValue({
+          public_id: 'rentman-properties/4001',
+          version: 1700000001,
+          width: 800,
+          format: 'jpg',
+          created_at: '2026-01-10T09:00:00Z'
+        })
+      } as unknown as CloudinaryService;
+
+      expect(await new CloudinaryStorageProvider(cloudinary).find('4001.jpg')).toMatchObject({
+        provider: 'cloudinary',
+        publicId: 'rentman-properties/4001',
+        version: '1700000001',
+        width: 800,
+        height: null,
+        uploadedAt: '2026-01-10T09:00:00Z'
+      });
+    });
+
+    test('should map transformations onto Cloudinary parameters', () => {
+      const provider = new CloudinaryStorageProvider();
+      const asset = makeAsset('4003.jpg');
+
+      const url = provider.url(asset, { width: 300, height: 200, fit: 'crop', gravity: 'auto', dpr: 2, format: 'webp' });
+      expect(url).toContain('c_fill,dpr_2,f_webp,g_auto,h_200,w_300/v1700000000/rentman-properties/4003');
+
+      expect(provider.url(asset, {})).toContain('q_auto/v1700000000/rentman-properties/4003');
+    });
+
+    test('should list the folder with filenames from public ids', async () => {
+      const cloudinary = {
+        listImages: jest.fn().mockResolvedValue({
+          resources: [{ public_id: 'rentman-properties/4004_1', version: 1700000002, format: 'jpg', bytes: 1000 }],
+          next_cursor: 'abc'
+        })
+      } as unknown as CloudinaryService;
+
+      const page = await new CloudinaryStorageProvider(cloudinary).list();
+
+      expect(page.nextCursor).toBe('abc');
+      expect(page.assets[0]).toMatchObject({ filename: '4004_1.jpg', publicId: 'rentman-properties/4004_1', version: '1700000002' });
+    });
+
+    test('should report images missing from Cloudinary as not found', async () => {
+      const cloudinary = {
+        getImageInfo: jest.fn().mockRejectedValue(new Error('Resource not found'))
+      } as unknown as CloudinaryService;
+
+      expect(await new CloudinaryStorageProvider(cloudinary).find('4002.jpg')).toBeNull();
+    });
+  });
+
+  // Needs sharp's native binary, which is optional for Cloudinary deployments
+  const sharpAvailable = (() => {
+    try {
+      require('sharp');
+      return true;
+    } catch {
+      return false;
+    }
+  })();
+
+  (sharpAvailable ? describe : describe.skip)('LocalStorageProvider', () => {
+    // 1x1 transparent PNG
+    const PIXEL = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should store originals and transform them on request', async () => {
+      const provider = new LocalStorageProvider(dir);
+
+      const asset = await provider.upload('5001.png', PIXEL);
+      expect(asset).toMatchObject({ provider: 'local', width: 1, height: 1, format: 'png' });
+
+      const thumb = await provider.file(asset, presetTransformation('thumb'));
+      expect(thumb.contentType).toBe('image/webp');
+      expect(fs.existsSync(thumb.path)).toBe(true);
+
+      const png = await provider.file(asset, { width: 50, format: 'png' });
+      expect(png.contentType).toBe('image/png');
+
+      expect((await provider.file(asset, {})).path).toBe(path.join(dir, 'originals', '5001.png'));
+
+      expect(await provider.find('5001.png')).toMatchObject({ width: 1, height: 1 });
+
+      const bannered = await provider.file(asset, { width: 400, height: 300, fit: 'pad', banner: 'sold', format: 'png' });
+      expect(bannered.path).toContain('banner_sold');
+      expect(fs.existsSync(bannered.path)).toBe(true);
+      expect(await provider.placeholder(asset)).toMatch(/^data:image\/jpeg;base64,/);
+    });
+
+    test('should keep the variants of originals that differ only in extension apart', async () => {
+      const provider = new LocalStorageProvider(dir);
+      const png = await provider.upload('5003.png', PIXEL);
+      const jpg = await provider.upload('5003.jpg', PIXEL);
+
+      const pngThumb = await provider.file(png, presetTransformation('thumb'));
+      const jpgThumb = await provider.file(jpg, presetTransformation('thumb'));
+      expect(pngThumb.path).not.toBe(jpgThumb.path);
+
+      await provider.delete(png);
+
+      expect(fs.existsSync(pngThumb.path)).toBe(false);
+      expect(fs.existsSync(jpgThumb.path)).toBe(true);
+    });
+
+    test('should not write outside the cache directory', async () => {
+      const asset = await new LocalStorageProvider(dir).upload('../../escape.png', PIXEL);
+
+      expect(path.resolve(dir, asset.publicId).startsWith(dir)).toBe(true);
+    });
+  });
+
+  describe('LocalStorageProvider with PDF floorplans', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'image-cache-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should store PDFs without probing them and serve the original for every size', async () => {
+      const provider = new LocalStorageProvider(dir);
+      const pdf = Buffer.from('%PDF-1.4\n%floorplan\n').toString('base64');
+
+      const asset = await provider.upload('5002_fp.pdf', pdf);
+      expect(asset).toMatchObject({ width: null, height: null, format: 'pdf' });
+      expect(await provider.find('5002_fp.pdf')).toMatchObject({ format: 'pdf' });
+
+      const thumb = await provider.file(asset, presetTransformation('thumb'));
+      expect(thumb).toEqual({ path: path.join(dir, 'originals', '5002_fp.pdf'), contentType: 'application/pdf' });
+      await expect(provider.placeholder(asset)).rejects.toThrow('No placeholder');
+    });
+  });
+});
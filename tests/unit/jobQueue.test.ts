@@ -0,0 +1,202 @@
+/**
+ * Job Queue Tests
+ */
+
+import { JobQueue, MemoryJobBackend, PermanentJobError } from '../../src/jobs';
+import { ImageAsset } from '../../src/types';
+
+function storedAsset(filename: string): ImageAsset {
+  return {
+    filename,
+    provider: 'local',
+    publicId: `originals/${filename}`,
+    version: '1',
+    width: null,
+    height: null,
+    bytes: null,
+    format: null,
+    uploadedAt: '2026-01-10T09:00:00.000Z'
+  };
+}
+
+describe('JobQueue', () => {
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    queue = new JobQueue(new MemoryJobBackend(), {
+      concurrency: 4,
+      pollInterval: 10,
+      maxAttempts: 3,
+      retryBaseDelay: 5,
+      retryMaxDelay: 20
+    });
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  test('should run a job and store its result', async () => {
+    queue.register('image.upload', async ({ filename }) => storedAsset(filename));
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+    const finished = await queue.waitFor<'image.upload'>(job.id, 1000);
+
+    expect(finished).toMatchObject({ status: 'completed', attempts: 1, result: { publicId: 'originals/a.jpg' } });
+    expect((await queue.getStats()).counts.completed).toBe(1);
+  });
+
+  test('should retry failed attempts and move the job to the dead-letter list', async () => {
+    const handler = jest.fn().mockRejectedValue(new Error('Cloudinary unavailable'));
+    queue.register('image.upload', handler);
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+    const finished = await queue.waitFor(job.id, 2000);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(finished).toMatchObject({ status: 'dead', attempts: 3, lastError: 'Cloudinary unavailable' });
+    expect(await queue.list('dead', 10)).toEqual([expect.objectContaining({ id: job.id })]);
+  });
+
+  test('should not retry permanent failures', async () => {
+    const handler = jest.fn().mockRejectedValue(new PermanentJobError('Image not found'));
+    queue.register('image.upload', handler);
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+
+    expect(await queue.waitFor(job.id, 1000)).toMatchObject({ status: 'dead', attempts: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('should retry a dead job with fresh attempts', async () => {
+    let calls = 0;
+    queue.register('image.upload', async () => {
+      calls += 1;
+      if (calls === 1) {
+        throw new PermanentJobError('Rentman down');
+      }
+      return storedAsset('a.jpg');
+    });
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+    await queue.waitFor(job.id, 1000);
+
+    expect(await queue.retry(job.id)).toMatchObject({ status: 'waiting', attempts: 0 });
+    expect(await queue.waitFor(job.id, 1000)).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(await queue.list('dead', 10)).toEqual([]);
+  });
+
+  test('should only retry dead jobs', async () => {
+    queue.register('image.upload', async ({ filename }) => storedAsset(filename));
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+
+    expect(await queue.retry(job.id)).toBeNull();
+  });
+
+  test('should deduplicate jobs that are still pending', async () => {
+    queue.register('image.upload', async ({ filename }) => storedAsset(filename));
+
+    const first = await queue.enqueue('image.upload', { filename: 'a.jpg' }, { dedupeKey: 'a.jpg' });
+    const second = await queue.enqueue('image.upload', { filename: 'a.jpg' }, { dedupeKey: 'a.jpg' });
+
+    expect(second.id).toBe(first.id);
+    expect((await queue.getStats()).counts.waiting).toBe(1);
+
+    await queue.start();
+    await queue.waitFor(first.id, 1000);
+
+    const third = await queue.enqueue('image.upload', { filename: 'a.jpg' }, { dedupeKey: 'a.jpg' });
+    expect(third.id).not.toBe(first.id);
+  });
+
+  test('should respect the concurrency limit of a job type', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    queue.register('image.upload', async () => {
+      running += 1;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      running -= 1;
+      return storedAsset('a.jpg');
+    }, { concurrency: 2 });
+
+    const jobs = await Promise.all(
+      ['a', 'b', 'c', 'd', 'e'].map(name => queue.enqueue('image.upload', { filename: `${name}.jpg` }))
+    );
+    await queue.start();
+    await Promise.all(jobs.map(job => queue.waitFor(job.id, 2000)));
+
+    expect(maxRunning).toBe(2);
+  });
+
+  test('should renew the lease of a job that outlives it', async () => {
+    const handler = jest.fn(async ({ filename }: { filename: string }) => {
+      await new Promise(resolve => setTimeout(resolve, 250));
+      return storedAsset(filename);
+    });
+    queue.register('image.upload', handler, { leaseMs: 60 });
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+
+    expect(await queue.waitFor(job.id, 2000)).toMatchObject({ status: 'completed', attempts: 1 });
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  test('should abort a handler that lost its lease and let the job be retried', async () => {
+    const backend = new MemoryJobBackend();
+    queue = new JobQueue(backend, { concurrency: 4, pollInterval: 10, maxAttempts: 3, retryBaseDelay: 5, retryMaxDelay: 20 });
+    jest.spyOn(backend, 'renewLease').mockResolvedValueOnce(false);
+
+    const signals: AbortSignal[] = [];
+    queue.register('image.upload', async ({ filename }, _job, signal) => {
+      signals.push(signal);
+      if (signals.length === 1) {
+        await new Promise(resolve => signal.addEventListener('abort', resolve));
+      }
+      return storedAsset(filename);
+    }, { leaseMs: 60 });
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+
+    expect(await queue.waitFor(job.id, 2000)).toMatchObject({ status: 'completed', attempts: 2 });
+    expect(signals).toHaveLength(2);
+    expect(signals[0].aborted).toBe(true);
+    expect(signals[1].aborted).toBe(false);
+  });
+
+  test('should not retry a job whose completion could not be recorded', async () => {
+    const backend = new MemoryJobBackend();
+    queue = new JobQueue(backend, { concurrency: 4, pollInterval: 10, maxAttempts: 3, retryBaseDelay: 5, retryMaxDelay: 20 });
+    const update = backend.update.bind(backend);
+    jest.spyOn(backend, 'update').mockImplementation(async job =>
+      job.status === 'completed' ? Promise.reject(new Error('Redis unavailable')) : update(job)
+    );
+
+    const handler = jest.fn(async ({ filename }: { filename: string }) => storedAsset(filename));
+    queue.register('image.upload', handler);
+    await queue.start();
+
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await queue.getJob(job.id)).toMatchObject({ status: 'active', attempts: 1 });
+  });
+
+  test('should back off exponentially up to the maximum delay', () => {
+    expect([1, 2, 3, 4].map(attempts => queue.getRetryDelay(attempts))).toEqual([5, 10, 20, 20]);
+  });
+
+  test('should return null when a job is still pending after the timeout', async () => {
+    queue.register('image.upload', async ({ filename }) => storedAsset(filename));
+    const job = await queue.enqueue('image.upload', { filename: 'a.jpg' });
+
+    expect(await queue.waitFor(job.id, 30)).toBeNull();
+  });
+});
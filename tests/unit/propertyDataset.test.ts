@@ -0,0 +1,53 @@
+/**
+ * Property Dataset Tests
+ */
+
+import { getFreshness, liveFreshness, setFreshnessHeaders } from '../../src/services/propertyDataset';
+import { SyncMetadata } from '../../src/types';
+import { Response } from 'express';
+
+function metadataAt(lastSync: string): SyncMetadata {
+  return { count: 1, lets: 1, sales: 0, lastSync, syncDuration: 100, syncNumber: 1 };
+}
+
+describe('Property Dataset', () => {
+  const now = new Date('2026-09-01T12:00:00.000Z');
+
+  test('should report recently synced data as fresh', () => {
+    expect(getFreshness(metadataAt('2026-09-01T11:30:00.000Z'), now)).toEqual({
+      source: 'snapshot',
+      lastSync: '2026-09-01T11:30:00.000Z',
+      ageSeconds: 1800,
+      stale: false
+    });
+  });
+
+  test('should report data older than the stale threshold as stale', () => {
+    const freshness = getFreshness(metadataAt('2026-09-01T06:00:00.000Z'), now);
+
+    expect(freshness.ageSeconds).toBe(6 * 3600);
+    expect(freshness.stale).toBe(true);
+  });
+
+  test('should report data without sync metadata as stale', () => {
+    expect(getFreshness(null, now)).toMatchObject({ lastSync: null, ageSeconds: null, stale: true });
+  });
+
+  test('should set freshness headers', () => {
+    const headers: Record<string, string> = {};
+    const res = { set: (name: string, value: string) => { headers[name] = value; } } as unknown as Response;
+
+    setFreshnessHeaders(res, getFreshness(metadataAt('2026-09-01T11:59:00.000Z'), now));
+
+    expect(headers).toEqual({
+      'X-Data-Source': 'snapshot',
+      'X-Data-Stale': 'false',
+      'X-Data-Age': '60',
+      'X-Data-Last-Sync': '2026-09-01T11:59:00.000Z'
+    });
+  });
+
+  test('live data should be fresh', () => {
+    expect(liveFreshness()).toEqual({ source: 'api', lastSync: null, ageSeconds: 0, stale: false });
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Property Diff Tests
+ */
+
+import {
+  buildSnapshot,
+  diffSnapshots,
+  fingerprintProperty,
+  detectListingEvents,
+  detectNewImages
+} from '../../src/utils/propertyDiff';
+import { normalizeProperty } from '../../src/utils/propertyNormalizer';
+import { PropertyAdvertising } from '../../src/types';
+
+function makeProperty(propref: string, overrides: Record<string, string> = {}): PropertyAdvertising {
+  return {
+    propref,
+    displayaddress: `${propref} Test Street`,
+    rentmonth: '1500',
+    rentorbuy: '1',
+    STATUS: 'Available',
+    ...overrides
+  } as unknown as PropertyAdvertising;
+}
+
+function snapshotOf(properties: PropertyAdvertising[]) {
+  return buildSnapshot(properties, properties.map(normalizeProperty));
+}
+
+describe('Property Diff', () => {
+  test('fingerprint should ignore field order', () => {
+    const a = { propref: '1', rentmonth: '100' } as unknown as PropertyAdvertising;
+    const b = { rentmonth: '100', propref: '1' } as unknown as PropertyAdvertising;
+
+    expect(fingerprintProperty(a)).toBe(fingerprintProperty(b));
+  });
+
+  test('snapshot should record price and status', () => {
+    const snapshot = snapshotOf([makeProperty('A', { STATUS: 'Let Agreed' })]);
+
+    expect(snapshot.A).toMatchObject({ propref: 'A', listingType: 'let', price: 1500, status: 'let_agreed' });
+  });
+
+  test('should treat everything as added without a previous snapshot', () => {
+    const diff = diffSnapshots(null, snapshotOf([makeProperty('A'), makeProperty('B')]));
+
+    expect(diff).toEqual({ added: ['A', 'B'], changed: [], removed: [], unchanged: [] });
+  });
+
+  test('should detect added, changed, removed and unchanged properties', () => {
+    const previous = snapshotOf([makeProperty('A'), makeProperty('B'), makeProperty('C')]);
+    const next = snapshotOf([makeProperty('A'), makeProperty('B', { rentmonth: '1400' }), makeProperty('D')]);
+
+    expect(diffSnapshots(previous, next)).toEqual({
+      added: ['D'],
+      changed: ['B'],
+      removed: ['C'],
+      unchanged: ['A']
+    });
+  });
+
+  describe('detectListingEvents', () => {
+    test('should not report events on the first sync', () => {
+      const next = snapshotOf([makeProperty('A')]);
+
+      expect(detectListingEvents(null, next, diffSnapshots(null, next))).toEqual([]);
+    });
+
+    test('should report new listings, price reductions, status changes and removals', () => {
+      const previous = snapshotOf([makeProperty('A'), makeProperty('B'), makeProperty('C')]);
+      const next = snapshotOf([
+        makeProperty('A', { rentmonth: '1350' }),
+        makeProperty('B', { STATUS: 'Let Agreed' }),
+        makeProperty('D')
+      ]);
+
+      const events = detectListingEvents(previous, next, diffSnapshots(previous, next));
+
+      expect(events.map(event => [event.type, event.propref])).toEqual([
+        ['listing.created', 'D'],
+        ['listing.price_changed', 'A'],
+        ['listing.status_changed', 'B'],
+        ['listing.removed', 'C']
+      ]);
+      expect(events[1]).toMatchObject({ previousPrice: 1500, price: 1350, change: -150, direction: 'reduced' });
+      expect(events[2]).toMatchObject({ previousStatus: 'available', status: 'let_agreed' });
+    });
+  });
+
+  describe('detectNewImages', () => {
+    const withImages = (propref: string, photos: string[], overrides: Record<string, string> = {}) =>
+      makeProperty(propref, {
+        ...Object.fromEntries(photos.map((photo, index) => [`photo${index + 1}`, photo])),
+        ...overrides
+      });
+
+    test('should record photo and floorplan filenames in the snapshot', () => {
+      const snapshot = snapshotOf([withImages('A', ['a1.jpg', 'a2.jpg'], { floorplan: 'a-plan.jpg' })]);
+
+      expect(snapshot.A.images).toEqual(['a1.jpg', 'a2.jpg', 'a-plan.jpg']);
+    });
+
+    test('should not report images on the first sync', () => {
+      const next = snapshotOf([withImages('A', ['a1.jpg'])]);
+
+      expect(detectNewImages(null, next, diffSnapshots(null, next))).toEqual([]);
+    });
+
+    test('should report images of new listings and images added to changed listings', () => {
+      const previous = snapshotOf([withImages('A', ['a1.jpg']), withImages('B', ['b1.jpg'])]);
+      const next = snapshotOf([
+        withImages('A', ['a1.jpg', 'a2.jpg']),
+        withImages('B', ['b1.jpg'], { rentmonth: '1400' }),
+        withImages('C', ['c1.jpg'], { floorplan: 'c-plan.jpg' })
+      ]);
+
+      expect(detectNewImages(previous, next, diffSnapshots(previous, next)).sort())
+        .toEqual(['a2.jpg', 'c-plan.jpg', 'c1.jpg']);
+    });
+
+    test('should skip changed listings from a snapshot without image lists', () => {
+      const previous = snapshotOf([withImages('A', ['a1.jpg'])]);
+      delete previous.A.images;
+      const next = snapshotOf([withImages('A', ['a1.jpg', 'a2.jpg'])]);
+
+      expect(detectNewImages(previous, next, diffSnapshots(previous, next))).toEqual([]);
+    });
+  });
+});
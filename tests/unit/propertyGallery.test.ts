@@ -0,0 +1,69 @@
+/**
+ * Property Gallery Tests
+ */
+
+import { buildGallery, classifyMedia } from '../../src/utils/propertyGallery';
+import { normalizeProperty } from '../../src/utils/propertyNormalizer';
+import { PropertyAdvertising, PropertyMediaMetadata } from '../../src/types';
+
+const property = normalizeProperty({
+  propref: '123',
+  floorplan: '123_fp.jpg',
+  photo1: '123_1.jpg',
+  photo2: '123_2.jpg',
+  photo3: '123_3.jpg'
+} as unknown as PropertyAdvertising);
+
+function media(filename: string, imgorder: string, caption: string = ''): PropertyMediaMetadata {
+  return { propref: '123', filename, imgorder, caption };
+}
+
+describe('Property Gallery', () => {
+  test('should classify floorplans, EPC charts and photos', () => {
+    expect(classifyMedia(media('123_fp.jpg', '9'), property)).toBe('floorplan');
+    expect(classifyMedia(media('123_9.jpg', '9', 'Floor Plan'), property)).toBe('floorplan');
+    expect(classifyMedia(media('123_epc.png', '9'), property)).toBe('epc');
+    expect(classifyMedia(media('123_8.jpg', '8', 'Energy Performance Certificate'), property)).toBe('epc');
+    expect(classifyMedia(media('123_1.jpg', '1', 'Open plan kitchen'), property)).toBe('photo');
+  });
+
+  test('should order photos by imgorder and format captions', () => {
+    const gallery = buildGallery(property, [
+      media('123_1.jpg', '3', 'BEDROOM'),
+      media('123_2.jpg', '1', 'living room'),
+      media('123_3.jpg', '2')
+    ]);
+
+    expect(gallery.photos).toEqual([
+      { filename: '123_2.jpg', kind: 'photo', caption: 'Living Room' },
+      { filename: '123_3.jpg', kind: 'photo', caption: null },
+      { filename: '123_1.jpg', kind: 'photo', caption: 'Bedroom' }
+    ]);
+  });
+
+  test('should keep photo fields missing from the media after it', () => {
+    const gallery = buildGallery(property, [media('123_3.jpg', '1', 'Garden')]);
+
+    expect(gallery.photos.map(item => item.filename)).toEqual(['123_3.jpg', '123_1.jpg', '123_2.jpg']);
+  });
+
+  test('should split floorplans and EPC charts out of the photos', () => {
+    const gallery = buildGallery(property, [
+      media('123_1.jpg', '1'),
+      media('123_fp.jpg', '2', 'floorplan'),
+      media('123_epc.jpg', '3', 'EPC')
+    ]);
+
+    expect(gallery.photos.map(item => item.filename)).toEqual(['123_1.jpg', '123_2.jpg', '123_3.jpg']);
+    expect(gallery.floorplan).toEqual({ filename: '123_fp.jpg', kind: 'floorplan', caption: 'Floorplan' });
+    expect(gallery.epc).toMatchObject({ filename: '123_epc.jpg', caption: 'Epc' });
+  });
+
+  test('should fall back to the photo fields without media', () => {
+    const gallery = buildGallery(property);
+
+    expect(gallery.photos.map(item => item.filename)).toEqual(['123_1.jpg', '123_2.jpg', '123_3.jpg']);
+    expect(gallery.floorplan?.filename).toBe('123_fp.jpg');
+    expect(gallery.epc).toBeNull();
+  });
+});
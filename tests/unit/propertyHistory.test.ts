@@ -0,0 +1,78 @@
+/**
+ * Property History Tests
+ */
+
+import { hasHistoryChange, summarizeHistory, toHistoryEntry } from '../../src/utils/propertyHistory';
+import { PropertyHistoryEntry, PropertySnapshotEntry } from '../../src/types';
+
+function entry(
+  recordedAt: string,
+  reason: PropertyHistoryEntry['reason'],
+  price: number | null,
+  status: PropertyHistoryEntry['status'] = 'available'
+): PropertyHistoryEntry {
+  return { recordedAt, reason, listingType: 'let', price, status };
+}
+
+describe('Property History', () => {
+  const snapshotEntry: PropertySnapshotEntry = {
+    propref: 'A',
+    hash: 'abc',
+    listingType: 'let',
+    price: 1500,
+    status: 'available'
+  };
+
+  test('should create entries from snapshot entries', () => {
+    expect(toHistoryEntry(snapshotEntry, 'listed', '2026-09-01T00:00:00.000Z')).toEqual(
+      entry('2026-09-01T00:00:00.000Z', 'listed', 1500)
+    );
+  });
+
+  test('should only report changes to price, status or listing type', () => {
+    expect(hasHistoryChange(entry('2026-09-01T00:00:00.000Z', 'listed', 1500), snapshotEntry)).toBe(false);
+    expect(hasHistoryChange(entry('2026-09-01T00:00:00.000Z', 'listed', 1650), snapshotEntry)).toBe(true);
+  });
+
+  test('should return null without entries', () => {
+    expect(summarizeHistory('A', [])).toBeNull();
+  });
+
+  test('should summarize price reductions and days on market', () => {
+    const history = summarizeHistory('A', [
+      entry('2026-09-01T09:00:00.000Z', 'listed', 1500),
+      entry('2026-09-03T09:00:00.000Z', 'updated', 1350),
+      entry('2026-09-11T09:00:00.000Z', 'updated', 1350, 'let_agreed')
+    ], new Date('2026-10-01T00:00:00.000Z'));
+
+    expect(history).toMatchObject({
+      propref: 'A',
+      listedAt: '2026-09-01T09:00:00.000Z',
+      offMarketAt: '2026-09-11T09:00:00.000Z',
+      removedAt: null,
+      daysOnMarket: 10
+    });
+    expect(history?.priceChanges).toEqual([{
+      date: '2026-09-03T09:00:00.000Z',
+      listingType: 'let',
+      previousPrice: 1500,
+      price: 1350,
+      change: -150,
+      direction: 'reduced'
+    }]);
+    expect(history?.statusChanges).toEqual([
+      { date: '2026-09-11T09:00:00.000Z', previousStatus: 'available', status: 'let_agreed' }
+    ]);
+  });
+
+  test('should count days on market from the latest relisting', () => {
+    const history = summarizeHistory('A', [
+      entry('2026-06-01T00:00:00.000Z', 'listed', 1500),
+      entry('2026-07-01T00:00:00.000Z', 'removed', 1500),
+      entry('2026-09-01T00:00:00.000Z', 'listed', 1400)
+    ], new Date('2026-09-06T00:00:00.000Z'));
+
+    expect(history).toMatchObject({ listedAt: '2026-09-01T00:00:00.000Z', removedAt: null, daysOnMarket: 5 });
+    expect(history?.priceChanges).toEqual([]);
+  });
+});
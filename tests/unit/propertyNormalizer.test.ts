@@ -0,0 +1,144 @@
+/**
+ * Property Normalizer Tests
+ */
+
+import {
+  normalizeProperty,
+  normalizeProperties,
+  parseNumber,
+  parseDate,
+  parseGeolocation,
+  parseStatus,
+  extractEpcAndTaxBand
+} from '../../src/utils/propertyNormalizer';
+import { PropertyAdvertising } from '../../src/types';
+
+const rawProperty = {
+  propref: '123',
+  displayaddress: '123 Test Street, London',
+  displayprice: '£1,500 pcm',
+  rentmonth: '1,500.00',
+  saleprice: '',
+  rentorbuy: '1',
+  number: '123',
+  street: 'Test Street',
+  address3: 'London',
+  address4: 'England',
+  postcode: 'SW1A 1AA',
+  area: 'Westminster',
+  TYPE: 'Apartment',
+  beds: '2',
+  singles: '0',
+  doubles: '2',
+  baths: '1',
+  receps: '1',
+  furnished: '3',
+  bullets: 'Modern apartment\nEnergy Rating : c\nCouncil Tax Band b',
+  FLOOR: 'APT',
+  heating: 'GCH',
+  available: '01/02/2024',
+  STATUS: 'Unavailable',
+  shortlet: '0000',
+  rating: '4.5',
+  age: 'Modern',
+  taxband: '',
+  epcrating: null,
+  DESCRIPTION: 'A beautiful modern apartment',
+  comments: 'Great location',
+  strapline: 'Modern 2 Bed Apartment',
+  floorplan: 'floorplan.jpg',
+  url: 'https://example.com',
+  photo1: 'main-photo.jpg',
+  photo10: 'last.jpg',
+  photo2: 'second.jpg',
+  photo3: '',
+  geolocation: '51.5014,-0.1419'
+} as unknown as PropertyAdvertising;
+
+describe('Property Normalizer', () => {
+  describe('normalizeProperty', () => {
+    test('should map raw strings onto typed fields', () => {
+      const property = normalizeProperty(rawProperty);
+
+      expect(property).toMatchObject({
+        propref: '123',
+        listingType: 'let',
+        status: 'under_offer',
+        statusLabel: 'Under Offer',
+        price: 1500,
+        rentPerMonth: 1500,
+        salePrice: null,
+        bedrooms: 4,
+        doubleBedrooms: 2,
+        bathrooms: 1,
+        receptions: 1,
+        furnishing: 'furnished',
+        shortLet: false,
+        availableFrom: '2024-02-01',
+        epcRating: 'C',
+        councilTaxBand: 'B',
+        location: { lat: 51.5014, lng: -0.1419 },
+        floorplan: 'floorplan.jpg'
+      });
+      expect(property.bullets).toEqual(['Modern apartment', 'Energy Rating : c', 'Council Tax Band b']);
+    });
+
+    test('should total bedrooms as beds plus singles plus doubles', () => {
+      expect(normalizeProperty({ ...rawProperty, beds: '1', singles: '1', doubles: '2' }).bedrooms).toBe(4);
+      expect(normalizeProperty({ ...rawProperty, beds: '3', singles: '', doubles: 'n/a' }).bedrooms).toBe(3);
+    });
+
+    test('should order photos numerically and skip empty fields', () => {
+      expect(normalizeProperty(rawProperty).photos).toEqual(['main-photo.jpg', 'second.jpg', 'last.jpg']);
+    });
+
+    test('should use sale price for sales listings', () => {
+      const property = normalizeProperty({ ...rawProperty, rentorbuy: '2', rentmonth: '0', saleprice: '350000' });
+
+      expect(property.listingType).toBe('sale');
+      expect(property.price).toBe(350000);
+      expect(property.rentPerMonth).toBeNull();
+    });
+  });
+
+  describe('normalizeProperties', () => {
+    test('should skip records without a propref', () => {
+      const result = normalizeProperties([rawProperty, { ...rawProperty, propref: '' }]);
+      expect(result).toHaveLength(1);
+    });
+  });
+
+  describe('field parsers', () => {
+    test('parseNumber should handle formatted and invalid values', () => {
+      expect(parseNumber('£1,250.50')).toBe(1250.5);
+      expect(parseNumber('')).toBeNull();
+      expect(parseNumber('n/a')).toBeNull();
+    });
+
+    test('parseDate should accept ISO and UK dates', () => {
+      expect(parseDate('2024-03-09')).toBe('2024-03-09');
+      expect(parseDate('9/3/2024')).toBe('2024-03-09');
+      expect(parseDate('31/02/2024')).toBeNull();
+      expect(parseDate('0000-00-00')).toBeNull();
+    });
+
+    test('parseGeolocation should reject empty and out of range values', () => {
+      expect(parseGeolocation('0,0')).toBeNull();
+      expect(parseGeolocation('95,10')).toBeNull();
+      expect(parseGeolocation('')).toBeNull();
+    });
+
+    test('parseStatus should group Rentman statuses', () => {
+      expect(parseStatus('Let Agreed')).toBe('let_agreed');
+      expect(parseStatus('Available')).toBe('available');
+      expect(parseStatus('Withdrawn')).toBe('unknown');
+    });
+
+    test('extractEpcAndTaxBand should fall back to numeric scores', () => {
+      expect(extractEpcAndTaxBand({ bullets: '', epcrating: '72', taxband: 'D' })).toEqual({
+        epcrating: 'C',
+        taxband: 'D'
+      });
+    });
+  });
+});
@@ -0,0 +1,190 @@
+/**
+ * Property Presenter Tests
+ */
+
+import {
+  PROPERTY_DTO_VERSION,
+  presentPropertyCard,
+  presentPropertyDetail,
+  presentPropertyImages
+} from '../../src/server/presenters/propertyPresenter';
+import { presentLegacyProperty } from '../../src/server/presenters/legacyPropertyPresenter';
+import { normalizeProperty } from '../../src/utils/propertyNormalizer';
+import { ImageAsset, PropertyAdvertising } from '../../src/types';
+import { config } from '../../src/config';
+
+const property = normalizeProperty({
+  propref: '123',
+  displayaddress: '123 Test Street, London',
+  displayprice: '£1,500 pcm',
+  rentmonth: '1500.00',
+  rentorbuy: '1',
+  postcode: 'SW1A 1AA',
+  area: 'Westminster',
+  TYPE: 'Apartment',
+  beds: '2',
+  STATUS: 'Available',
+  DESCRIPTION: 'A beautiful modern apartment',
+  comments: 'Internal note',
+  floorplan: 'floorplan.jpg',
+  photo1: 'main-photo.jpg',
+  photo2: 'second.jpg'
+} as unknown as PropertyAdvertising);
+
+describe('Property Presenter', () => {
+  test('card should carry the schema version and typed fields', () => {
+    const card = presentPropertyCard(property);
+
+    expect(card).toMatchObject({
+      schemaVersion: PROPERTY_DTO_VERSION,
+      variant: 'card',
+      id: '123',
+      listingType: 'let',
+      status: 'available',
+      statusLabel: 'To Let',
+      price: 1500,
+      bedrooms: 2,
+      postcode: 'SW1A 1AA'
+    });
+    expect(card).not.toHaveProperty('description');
+  });
+
+  test('detail should extend the card without leaking internal fields', () => {
+    const detail = presentPropertyDetail(property);
+
+    expect(detail.variant).toBe('detail');
+    expect(detail.description).toBe('A beautiful modern apartment');
+    expect(detail.address.postcode).toBe('SW1A 1AA');
+    expect(detail).not.toHaveProperty('comments');
+  });
+
+  test('images should use the first photo as main image', () => {
+    const images = presentPropertyImages(property);
+
+    expect(images.main?.url).toBe('/api/images/main-photo.jpg?w=1200&h=800&fit=crop');
+    expect(images.main).toMatchObject({ width: 1200, height: 800 });
+    expect(images.gallery).toHaveLength(2);
+    expect(images.thumbnails[1].url).toBe('/api/images/second.jpg?w=300&h=200&fit=crop');
+    expect(images.floorplan?.original).toBe('/api/images/floorplan.jpg');
+  });
+
+  test('images should encode filenames in the URL path', () => {
+    const images = presentPropertyImages(normalizeProperty({
+      propref: '124',
+      photo1: 'living room #1?.jpg',
+      floorplan: 'floor plan #2.pdf'
+    } as unknown as PropertyAdvertising), undefined, [
+      { propref: '124', filename: 'epc chart?.png', caption: 'EPC', imgorder: '2' }
+    ]);
+
+    expect(images.main?.url).toBe('/api/images/living%20room%20%231%3F.jpg?w=1200&h=800&fit=crop');
+    expect(images.floorplan?.original).toBe('/api/images/floor%20plan%20%232.pdf');
+    expect(images.epc?.url).toBe('/api/images/epc%20chart%3F.png');
+  });
+
+  test('images should carry srcset candidates at the photo aspect ratio', () => {
+    const images = presentPropertyImages(property);
+
+    expect(images.main?.srcset.split(', ')).toEqual([
+      '/api/images/main-photo.jpg?w=300&h=200&fit=crop 300w',
+      '/api/images/main-photo.jpg?w=600&h=400&fit=crop 600w',
+      '/api/images/main-photo.jpg?w=900&h=600&fit=crop 900w',
+      '/api/images/main-photo.jpg?w=1200&h=800&fit=crop 1200w',
+      '/api/images/main-photo.jpg?w=1500&h=1000&fit=crop 1500w',
+      '/api/images/main-photo.jpg?w=1800&h=1200&fit=crop 1800w'
+    ]);
+    expect(images.main?.sizes).toBe('(max-width: 1200px) 100vw, 1200px');
+    expect(images.thumbnails[0]).toMatchObject({
+      srcset: '/api/images/main-photo.jpg?w=300&h=200&fit=crop 300w, /api/images/main-photo.jpg?w=600&h=400&fit=crop 600w',
+      sizes: '300px'
+    });
+    expect(images.main?.placeholder).toBeNull();
+  });
+
+  test('images should report the real dimensions and placeholder of stored photos', () => {
+    const asset: ImageAsset = {
+      filename: 'main-photo.jpg',
+      provider: 'cloudinary',
+      publicId: 'rentman-properties/main-photo',
+      version: '1700000000',
+      width: 1000,
+      height: 750,
+      bytes: 120000,
+      format: 'jpg',
+      placeholder: 'data:image/jpeg;base64,AAAA',
+      uploadedAt: '2026-01-10T09:00:00.000Z'
+    };
+
+    const images = presentPropertyImages(property, new Map([['main-photo.jpg', asset]]));
+
+    expect(images.main).toMatchObject({
+      url: '/api/images/main-photo.jpg?w=900&fit=limit&v=1700000000',
+      width: 900,
+      height: 675,
+      placeholder: 'data:image/jpeg;base64,AAAA'
+    });
+    expect(images.main?.srcset).toBe([
+      '/api/images/main-photo.jpg?w=300&fit=limit&v=1700000000 300w',
+      '/api/images/main-photo.jpg?w=600&fit=limit&v=1700000000 600w',
+      '/api/images/main-photo.jpg?w=900&fit=limit&v=1700000000 900w'
+    ].join(', '));
+    expect(images.thumbnails[0].placeholder).toBe('data:image/jpeg;base64,AAAA');
+    expect(images.thumbnails[0].url).toBe('/api/images/main-photo.jpg?w=300&h=200&fit=crop&v=1700000000');
+
+    // Photos not stored yet keep the 3:2 defaults
+    expect(images.gallery[1]).toMatchObject({ width: 1200, height: 800, placeholder: null });
+  });
+
+  test('images should be ordered and captioned from media metadata', () => {
+    const images = presentPropertyImages(property, new Map(), [
+      { propref: '123', filename: 'second.jpg', caption: 'LIVING ROOM', imgorder: '1' },
+      { propref: '123', filename: 'main-photo.jpg', caption: '', imgorder: '2' },
+      { propref: '123', filename: 'energy.png', caption: 'EPC Graph', imgorder: '3' }
+    ]);
+
+    expect(images.main).toMatchObject({ alt: 'Living Room', caption: 'Living Room' });
+    expect(images.gallery[1]).toMatchObject({ alt: 'Property Image 2', caption: null });
+    expect(images.thumbnails[0].alt).toBe('Living Room thumbnail');
+    expect(images.epc).toEqual({ url: '/api/images/energy.png', alt: 'Epc Graph' });
+    expect(images.floorplan?.original).toBe('/api/images/floorplan.jpg');
+  });
+
+  test('images should put the status banner on the main photo when enabled', () => {
+    const underOffer = normalizeProperty({ propref: '124', STATUS: 'Under Offer', photo1: 'a.jpg', photo2: 'b.jpg' } as unknown as PropertyAdvertising);
+
+    expect(presentPropertyImages(underOffer).main?.url).not.toContain('banner=');
+
+    config.images.statusBanners = true;
+    try {
+      const images = presentPropertyImages(underOffer);
+
+      expect(images.main?.url).toBe('/api/images/a.jpg?w=1200&h=800&fit=crop&banner=under_offer');
+      expect(images.thumbnails[0].srcset).toContain('banner=under_offer');
+      expect(images.gallery[1].url).not.toContain('banner=');
+      expect(presentPropertyImages(property).main?.url).not.toContain('banner=');
+    } finally {
+      config.images.statusBanners = false;
+    }
+  });
+
+  test('legacy shape should keep the raw fields with the display status and images object', () => {
+    const legacy = presentLegacyProperty({
+      propref: '125',
+      STATUS: 'Unavailable',
+      bullets: 'Energy Rating : C',
+      epcrating: '',
+      floorplan: 'plan 1.jpg',
+      photo1: 'a.jpg'
+    } as unknown as PropertyAdvertising);
+
+    expect(legacy).toMatchObject({ propref: '125', STATUS: 'Under Offer', epcrating: 'C', geolocation: '' });
+    expect(legacy.images.gallery[0]).toEqual({
+      url: '/api/images/a.jpg',
+      alt: 'Property Image 1',
+      width: 1200,
+      height: 800,
+      thumbnail: '/api/images/a.jpg?w=300&h=200&fit=crop'
+    });
+    expect(legacy.images.floorplan?.original).toBe('/api/images/plan%201.jpg');
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Property Search Tests
+ */
+
+import { PropertySearchEngine, parseSearchQuery, searchProperties } from '../../src/services/propertySearch';
+import { RentmanApiClient } from '../../src/client/RentmanApiClient';
+import { snapshotStore } from '../../src/utils/snapshotStore';
+import { RedisCacheKeys } from '../../src/utils/redisCache';
+import { normalizeProperty } from '../../src/utils/propertyNormalizer';
+import { PropertyAdvertising } from '../../src/types';
+
+function listing(fields: Record<string, unknown>) {
+  return normalizeProperty({
+    displayaddress: '',
+    address3: '',
+    area: '',
+    TYPE: 'Flat',
+    DESCRIPTION: '',
+    strapline: '',
+    ...fields
+  } as unknown as PropertyAdvertising);
+}
+
+const properties = [
+  listing({ propref: 'L1', rentorbuy: '1', rentmonth: '1500', beds: '2', area: 'Westminster', displayaddress: 'Baker Street' }),
+  listing({ propref: 'L2', rentorbuy: '1', rentmonth: '2500', beds: '3', area: 'Camden', featured: '1' }),
+  listing({ propref: 'L3', rentorbuy: '1', rentmonth: '900', beds: '1', area: 'Camden', TYPE: 'Studio' }),
+  listing({ propref: 'S1', rentorbuy: '2', saleprice: '450000', beds: '2', area: 'Islington' }),
+  listing({ propref: 'S2', rentorbuy: '2', saleprice: '750000', beds: '3', area: 'Camden' })
+];
+
+const ids = (query: Record<string, unknown>) =>
+  searchProperties(properties, parseSearchQuery(query)).properties.map(property => property.propref);
+
+describe('Property Search', () => {
+  test('should parse queries with defaults and ignore invalid values', () => {
+    expect(parseSearchQuery({ beds: 'two', page: '0', sortOrder: 'sideways', q: '  ' })).toEqual({
+      sortBy: 'price',
+      sortOrder: 'desc',
+      page: 1,
+      limit: 12
+    });
+    expect(parseSearchQuery({ type: 'SALE', minSalePrice: '500000', limit: '5' })).toMatchObject({
+      type: 'sale',
+      minSalePrice: 500000,
+      limit: 5
+    });
+  });
+
+  test('should scope to the listing type and sort by its price', () => {
+    expect(ids({ type: 'rent' })).toEqual(['L2', 'L1', 'L3']);
+    expect(ids({ type: 'sale', sortOrder: 'asc' })).toEqual(['S1', 'S2']);
+  });
+
+  test('should apply price bounds to the searched listing type', () => {
+    expect(ids({ type: 'rent', minPrice: '1000', maxPrice: '2000' })).toEqual(['L1']);
+    expect(ids({ type: 'sale', maxPrice: '500000' })).toEqual(['S1']);
+    expect(ids({ type: 'sale', minSalePrice: '500000' })).toEqual(['S2']);
+  });
+
+  test('should filter by text, area, bedrooms and featured', () => {
+    expect(ids({ q: 'baker' })).toEqual(['L1']);
+    expect(ids({ area: 'camden', type: 'rent' })).toEqual(['L2', 'L3']);
+    expect(ids({ beds: '3' })).toEqual(['L2', 'S2']);
+    expect(ids({ featured: 'true' })).toEqual(['L2']);
+  });
+
+  test('should paginate the matches rather than the dataset', () => {
+    const result = searchProperties(properties, parseSearchQuery({ type: 'rent', limit: '2', page: '2' }));
+
+    expect(result.properties.map(property => property.propref)).toEqual(['L3']);
+    expect(result.pagination).toEqual({ page: 2, limit: 2, total: 3, totalPages: 2, hasNext: false, hasPrev: true });
+  });
+
+  test('should report filter values of the whole listing type', () => {
+    const result = searchProperties(properties, parseSearchQuery({ type: 'rent', area: 'Westminster' }));
+
+    expect(result.filters).toEqual({
+      areas: ['Westminster', 'Camden'],
+      types: ['Flat', 'Studio'],
+      priceRange: { min: 900, max: 2500 }
+    });
+  });
+
+  test('should search Rentman before the first sync without touching the synced dataset', async () => {
+    const client = {
+      getPropertyAdvertising: jest.fn().mockResolvedValue({ data: [{ propref: 'L9', rentorbuy: '1', rentmonth: '1200' }] })
+    } as unknown as RentmanApiClient;
+    const engine = new PropertySearchEngine(client);
+    const set = jest.spyOn(snapshotStore, 'set');
+
+    const first = await engine.search(parseSearchQuery({}));
+    const second = await engine.search(parseSearchQuery({ type: 'rent' }));
+
+    expect(first.freshness).toMatchObject({ source: 'api', lastSync: null, stale: false });
+    expect(second.properties.map(property => property.propref)).toEqual(['L9']);
+    expect(second.records).toEqual([{ propref: 'L9', rentorbuy: '1', rentmonth: '1200' }]);
+    expect(client.getPropertyAdvertising).toHaveBeenCalledTimes(1);
+    expect(set).not.toHaveBeenCalledWith(RedisCacheKeys.allProperties(), expect.anything(), expect.anything());
+    set.mockRestore();
+  });
+});
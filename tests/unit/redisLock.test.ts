@@ -0,0 +1,90 @@
+/**
+ * Redis Lock Tests
+ */
+
+import { RedisCache } from '../../src/utils/redisCache';
+
+/**
+ * Back the lock commands with an in-memory map so no Redis server is needed
+ */
+function createCache() {
+  const cache = new RedisCache();
+  const store = new Map<string, string>();
+  const client = cache.getClient();
+
+  jest.spyOn(cache, 'isReady').mockReturnValue(true);
+  jest.spyOn(client, 'set').mockImplementation((async (key: string, value: string, ...args: unknown[]) => {
+    if (args.includes('NX') && store.has(key)) return null;
+    store.set(key, value);
+    return 'OK';
+  }) as never);
+  jest.spyOn(client, 'eval').mockImplementation((async (script: string, _numKeys: number, key: string, token: string) => {
+    if (store.get(key) !== token) return 0;
+    if (script.includes('del')) store.delete(key);
+    return 1;
+  }) as never);
+
+  return { cache, store };
+}
+
+describe('RedisCache locks', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should only grant a lock to one owner', async () => {
+    const { cache } = createCache();
+
+    const token = await cache.acquireLock('lock', 1000);
+
+    expect(token).toEqual(expect.any(String));
+    expect(await cache.acquireLock('lock', 1000)).toBeNull();
+  });
+
+  test('should not release or extend a lock owned by someone else', async () => {
+    const { cache, store } = createCache();
+    const token = await cache.acquireLock('lock', 1000);
+
+    expect(await cache.releaseLock('lock', 'other-token')).toBe(false);
+    expect(await cache.extendLock('lock', 'other-token', 1000)).toBe(false);
+    expect(store.has('lock')).toBe(true);
+
+    expect(await cache.releaseLock('lock', token as string)).toBe(true);
+    expect(store.has('lock')).toBe(false);
+  });
+
+  test('withLock should run the task and release the lock afterwards', async () => {
+    const { cache, store } = createCache();
+
+    const result = await cache.withLock('lock', 1000, async () => {
+      expect(store.has('lock')).toBe(true);
+      return 42;
+    });
+
+    expect(result).toEqual({ acquired: true, result: 42 });
+    expect(store.has('lock')).toBe(false);
+  });
+
+  test('withLock should skip the task while the lock is held', async () => {
+    const { cache } = createCache();
+    await cache.acquireLock('lock', 1000);
+    const task = jest.fn();
+
+    expect(await cache.withLock('lock', 1000, task)).toEqual({ acquired: false });
+    expect(task).not.toHaveBeenCalled();
+  });
+
+  test('withLock should abort the signal when the lock is lost', async () => {
+    jest.useFakeTimers();
+    const { cache, store } = createCache();
+
+    const result = await cache.withLock('lock', 3000, async signal => {
+      store.set('lock', 'taken-over');
+      await jest.advanceTimersByTimeAsync(1000);
+      return signal.aborted;
+    });
+
+    expect(result).toEqual({ acquired: true, result: true });
+    expect(store.get('lock')).toBe('taken-over');
+  });
+});
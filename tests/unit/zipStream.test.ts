@@ -0,0 +1,96 @@
+/**
+ * ZIP Stream and Photo Archive Tests
+ */
+
+import { crc32, createZipStream, ZipEntry } from '../../src/utils/zipStream';
+import { archiveTransformation, photoArchiveFiles } from '../../src/services/photoArchive';
+import { PropertyGallery } from '../../src/utils/propertyGallery';
+
+async function readAll(entries: ZipEntry[]): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of createZipStream(entries)) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Entries found through the central directory, the way unzip tools read an archive
+ */
+function unzip(archive: Buffer): { name: string; data: Buffer; crc: number }[] {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(end + 10);
+  let offset = archive.readUInt32LE(end + 16);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(offset)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(offset + 16);
+    const size = archive.readUInt32LE(offset + 20);
+    const nameLength = archive.readUInt16LE(offset + 28);
+    const name = archive.subarray(offset + 46, offset + 46 + nameLength).toString('utf8');
+    const local = archive.readUInt32LE(offset + 42);
+
+    expect(archive.readUInt32LE(local)).toBe(0x04034b50);
+    const dataStart = local + 30 + archive.readUInt16LE(local + 26) + archive.readUInt16LE(local + 28);
+    entries.push({ name, data: archive.subarray(dataStart, dataStart + size), crc });
+
+    offset += 46 + nameLength;
+  }
+  return entries;
+}
+
+describe('ZIP Stream', () => {
+  test('should write stored entries readable through the central directory', async () => {
+    const archive = await readAll([
+      { name: '01 - Living Room.jpg', data: Buffer.from('first photo'), modified: new Date(2026, 0, 10, 9, 30) },
+      { name: 'Floorplan – Ground Floor.png', data: Buffer.from('floorplan') }
+    ]);
+
+    const entries = unzip(archive);
+    expect(entries.map(entry => entry.name)).toEqual(['01 - Living Room.jpg', 'Floorplan – Ground Floor.png']);
+    expect(entries[0].data.toString()).toBe('first photo');
+    expect(entries[1].data.toString()).toBe('floorplan');
+    expect(entries[0].crc).toBe(crc32(Buffer.from('first photo')));
+  });
+
+  test('should compute the standard CRC-32', () => {
+    expect(crc32(Buffer.from('123456789'))).toBe(0xcbf43926);
+    expect(crc32(Buffer.alloc(0))).toBe(0);
+  });
+
+  test('should write an empty archive', async () => {
+    const archive = await readAll([]);
+
+    expect(archive.length).toBe(22);
+    expect(unzip(archive)).toEqual([]);
+  });
+});
+
+describe('Photo Archive', () => {
+  const gallery: PropertyGallery = {
+    photos: [
+      { filename: '123_1.jpg', kind: 'photo', caption: 'Living Room' },
+      { filename: '123_2.jpg', kind: 'photo', caption: null },
+      { filename: '123_3.jpg', kind: 'photo', caption: 'Kitchen / Diner?' }
+    ],
+    floorplan: { filename: '123_fp.jpg', kind: 'floorplan', caption: 'Floorplan' },
+    epc: { filename: '123_epc.png', kind: 'epc', caption: null }
+  };
+
+  test('should number photos in gallery order with safe captions, then add the floorplan', () => {
+    expect(photoArchiveFiles(gallery)).toEqual([
+      { filename: '123_1.jpg', name: '01 - Living Room' },
+      { filename: '123_2.jpg', name: '02' },
+      { filename: '123_3.jpg', name: '03 - Kitchen Diner' },
+      { filename: '123_fp.jpg', name: 'Floorplan' }
+    ]);
+  });
+
+  test('should convert resized sizes to JPEG and keep the original format', () => {
+    expect(archiveTransformation('thumb')).toMatchObject({ width: 300, height: 200, format: 'jpg' });
+    expect(archiveTransformation('original').format).toBeUndefined();
+  });
+});